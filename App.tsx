@@ -1,21 +1,45 @@
 import { StatusBar } from 'expo-status-bar';
-import { StyleSheet, Text, View, ScrollView, SafeAreaView, AppState } from 'react-native';
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { StyleSheet, Text, View, ScrollView, SafeAreaView, AppState, TouchableOpacity } from 'react-native';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import TextInputCard from './components/TextInputCard';
 import MorseDisplayCard from './components/MorseDisplayCard';
 import AudioControls from './components/AudioControls';
 import DownloadButton from './components/DownloadButton';
 import FlashlightButton from './components/FlashlightButton';
 import Notification from './components/Notification';
-import AudioService from './services/AudioService';
+import PileupCard from './components/PileupCard';
+import ReceiveScreen from './components/ReceiveScreen';
+import AudioService, { EXPORT_CANCELLED } from './services/AudioService';
 import FlashlightService from './services/FlashlightService';
+import IncrementalConverterService from './services/IncrementalConverterService';
 import MorseConverterService from './services/MorseConverterService';
+import MidiExportService from './services/MidiExportService';
+import PileupService from './services/PileupService';
+import SettingsService from './services/SettingsService';
 import ErrorHandler from './utils/ErrorHandler';
+import { ChannelSettings, KeyingOptions, MorseCodeStandard, PileupStation, SpeedStandard, TimingConfig, ToneEnvelope, ToneSettings } from './types/morse';
+
+// Send converts and plays text; Receive decodes Morse heard by the microphone
+type AppMode = 'send' | 'receive';
+
+const APP_MODES: { id: AppMode; name: string }[] = [
+  { id: 'send', name: 'Send' },
+  { id: 'receive', name: 'Receive' },
+];
 
 export default function App() {
+  const [mode, setMode] = useState<AppMode>('send');
   const [morseCode, setMorseCode] = useState('');
   const [isPlaying, setIsPlaying] = useState(false);
-  const [playbackSpeed, setPlaybackSpeed] = useState(1);
+  const [wpm, setWpm] = useState(20);
+  const [speedStandard, setSpeedStandard] = useState<SpeedStandard>('PARIS');
+  const [farnsworthWpm, setFarnsworthWpm] = useState<number | null>(null);
+  const [keying, setKeying] = useState<KeyingOptions>({});
+  const [toneEnvelope, setToneEnvelope] = useState<ToneEnvelope>(() => AudioService.getToneEnvelope());
+  const [toneSettings, setToneSettings] = useState<ToneSettings>(() => AudioService.getToneSettings());
+  const [channelSettings, setChannelSettings] = useState<ChannelSettings | null>(() => AudioService.getChannelSettings());
+  const [codeTableName, setCodeTableName] = useState<string | null>(null);
+  const [codeStandard, setCodeStandard] = useState<MorseCodeStandard>(() => MorseConverterService.getCodeStandard());
   const [progress, setProgress] = useState(0);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
@@ -27,6 +51,15 @@ export default function App() {
 
   const appState = useRef(AppState.currentState);
 
+  // Characters are sent at the selected speed; Farnsworth stretches only the gaps
+  // The same options drive audio, flashlight and WAV export
+  const timingOptions = useMemo((): Partial<TimingConfig> => ({
+    ...keying,
+    characterWpm: wpm,
+    effectiveWpm: farnsworthWpm ?? wpm,
+    speedStandard,
+  }), [keying, wpm, farnsworthWpm, speedStandard]);
+
   // Handle app state changes (background/foreground)
   useEffect(() => {
     const subscription = AppState.addEventListener('change', (nextAppState) => {
@@ -50,6 +83,31 @@ export default function App() {
     };
   }, [isPlaying]);
 
+  // Restore the tone, band conditions and code table saved in the last session
+  useEffect(() => {
+    const defaults = {
+      tone: AudioService.getToneSettings(),
+      envelope: AudioService.getToneEnvelope(),
+      channel: AudioService.getChannelSettings(),
+    };
+
+    SettingsService.loadSettings().then((settings) => {
+      AudioService.setToneSettings(settings.tone);
+      AudioService.setToneEnvelope(settings.envelope);
+      AudioService.setChannelSettings(settings.channel);
+      setToneSettings(settings.tone);
+      setToneEnvelope(settings.envelope);
+      setChannelSettings(settings.channel);
+      setCodeTableName(settings.codeTable);
+    }).catch((error) => {
+      // A saved value the audio service rejects leaves every setting at its default
+      console.warn('[App] Failed to restore settings:', error);
+      AudioService.setToneSettings(defaults.tone);
+      AudioService.setToneEnvelope(defaults.envelope);
+      AudioService.setChannelSettings(defaults.channel);
+    });
+  }, []);
+
   // Cleanup audio and flashlight resources on unmount
   useEffect(() => {
     return () => {
@@ -58,16 +116,14 @@ export default function App() {
     };
   }, []);
 
-  // Calculate duration when morse code or speed changes
+  // Calculate duration when morse code or timing changes, re-timing only changed words
   useEffect(() => {
     if (morseCode) {
-      const timings = MorseConverterService.morseToTiming(morseCode);
-      const totalDuration = timings.reduce((sum, timing) => sum + timing.duration / playbackSpeed, 0);
-      setDuration(totalDuration);
+      setDuration(IncrementalConverterService.getDuration(morseCode, timingOptions));
     } else {
       setDuration(0);
     }
-  }, [morseCode, playbackSpeed]);
+  }, [morseCode, timingOptions]);
 
   // Update current time based on progress
   useEffect(() => {
@@ -93,7 +149,7 @@ export default function App() {
         } else {
           // Start new playback
           FlashlightService.stopTransmission();
-          const timings = MorseConverterService.morseToTiming(morseCode);
+          const timings = IncrementalConverterService.morseToTiming(morseCode, timingOptions);
 
           // Reset progress
           setProgress(0);
@@ -102,7 +158,6 @@ export default function App() {
           // Start playback with progress and completion callbacks
           AudioService.playMorse(
             timings,
-            playbackSpeed,
             (newProgress) => {
               setProgress(newProgress);
             },
@@ -135,10 +190,45 @@ export default function App() {
         visible: true,
       });
     }
-  }, [morseCode, isPlaying, playbackSpeed]);
+  }, [morseCode, isPlaying, timingOptions]);
 
-  // Handle speed change
-  const handleSpeedChange = useCallback(async (newSpeed: number) => {
+  // Restart playback after a timing change
+  const restartPlayback = useCallback((options: Partial<TimingConfig>) => {
+    if (!morseCode) return;
+
+    const timings = IncrementalConverterService.morseToTiming(morseCode, options);
+    setIsPlaying(true);
+
+    AudioService.playMorse(
+      timings,
+      (newProgress) => {
+        setProgress(newProgress);
+      },
+      () => {
+        // Playback completed
+        setIsPlaying(false);
+        setProgress(0);
+      }
+    ).catch((error) => {
+      // Handle audio playback error after speed change
+      const errorNotification = ErrorHandler.handleAudioPlaybackError(error, 'speed change');
+      setIsPlaying(false);
+      setProgress(0);
+      setNotification({
+        message: errorNotification.message,
+        type: errorNotification.type,
+        visible: true,
+      });
+    });
+  }, [morseCode]);
+
+  // Apply a timing change, restarting playback with it if audio was playing
+  const applyTimingChange = useCallback((changes: {
+    wpm?: number;
+    farnsworthWpm?: number | null;
+    speedStandard?: SpeedStandard;
+    keying?: KeyingOptions;
+  }) => {
     const wasPlaying = isPlaying;
 
     // Stop current playback if playing
@@ -147,38 +237,90 @@ export default function App() {
       setIsPlaying(false);
     }
 
-    // Update speed
-    setPlaybackSpeed(newSpeed);
-
-    // Restart playback with new speed if was playing
-    if (wasPlaying && morseCode) {
-      const timings = MorseConverterService.morseToTiming(morseCode);
-      setIsPlaying(true);
-
-      AudioService.playMorse(
-        timings,
-        newSpeed,
-        (newProgress) => {
-          setProgress(newProgress);
-        },
-        () => {
-          // Playback completed
-          setIsPlaying(false);
-          setProgress(0);
-        }
-      ).catch((error) => {
-        // Handle audio playback error after speed change
-        const errorNotification = ErrorHandler.handleAudioPlaybackError(error, 'speed change');
-        setIsPlaying(false);
-        setProgress(0);
-        setNotification({
-          message: errorNotification.message,
-          type: errorNotification.type,
-          visible: true,
-        });
+    const newWpm = changes.wpm ?? wpm;
+    const newFarnsworthWpm = changes.farnsworthWpm !== undefined ? changes.farnsworthWpm : farnsworthWpm;
+    const newSpeedStandard = changes.speedStandard ?? speedStandard;
+    const newKeying = changes.keying ?? keying;
+
+    setWpm(newWpm);
+    setFarnsworthWpm(newFarnsworthWpm);
+    setSpeedStandard(newSpeedStandard);
+    setKeying(newKeying);
+
+    // Restart playback with new timing if was playing
+    if (wasPlaying) {
+      restartPlayback({
+        ...newKeying,
+        characterWpm: newWpm,
+        effectiveWpm: newFarnsworthWpm ?? newWpm,
+        speedStandard: newSpeedStandard,
       });
     }
-  }, [isPlaying, morseCode]);
+  }, [isPlaying, wpm, farnsworthWpm, speedStandard, keying, restartPlayback]);
+
+  // Handle speed change
+  const handleWpmChange = useCallback((newWpm: number) => {
+    applyTimingChange({ wpm: newWpm });
+  }, [applyTimingChange]);
+
+  // Handle Farnsworth spacing change
+  const handleFarnsworthChange = useCallback((newFarnsworthWpm: number | null) => {
+    applyTimingChange({ farnsworthWpm: newFarnsworthWpm });
+  }, [applyTimingChange]);
+
+  // Handle PARIS / CODEX change
+  const handleSpeedStandardChange = useCallback((newSpeedStandard: SpeedStandard) => {
+    applyTimingChange({ speedStandard: newSpeedStandard });
+  }, [applyTimingChange]);
+
+  // Handle weighting, dah ratio and gap changes
+  const handleKeyingChange = useCallback((newKeying: KeyingOptions) => {
+    applyTimingChange({ keying: newKeying });
+  }, [applyTimingChange]);
+
+  // Handle key-click shaping change; playback restarts so the new envelope is heard
+  const handleToneEnvelopeChange = useCallback((envelope: ToneEnvelope) => {
+    AudioService.setToneEnvelope(envelope);
+    setToneEnvelope(envelope);
+    SettingsService.saveSettings({ envelope }).catch((error) => {
+      console.warn('[App] Failed to save tone shaping:', error);
+    });
+    applyTimingChange({});
+  }, [applyTimingChange]);
+
+  // Handle pitch, volume and waveform change; saved for the next session
+  const handleToneSettingsChange = useCallback((tone: ToneSettings) => {
+    AudioService.setToneSettings(tone);
+    setToneSettings(tone);
+    SettingsService.saveSettings({ tone }).catch((error) => {
+      console.warn('[App] Failed to save tone settings:', error);
+    });
+    applyTimingChange({});
+  }, [applyTimingChange]);
+
+  // Handle band condition change; saved with the seed so practice audio can be reproduced
+  const handleChannelSettingsChange = useCallback((channel: ChannelSettings | null) => {
+    AudioService.setChannelSettings(channel);
+    setChannelSettings(channel);
+    SettingsService.saveSettings({ channel }).catch((error) => {
+      console.warn('[App] Failed to save band conditions:', error);
+    });
+    applyTimingChange({});
+  }, [applyTimingChange]);
+
+  // Handle International/American Morse change; the keying controls show the new standard's shape
+  const handleCodeStandardChange = useCallback((standard: MorseCodeStandard) => {
+    MorseConverterService.setCodeStandard(standard);
+    setCodeStandard(standard);
+  }, []);
+
+  // Handle custom code table change; TextInputCard applies the table once it is loaded
+  const handleCodeTableChange = useCallback((name: string | null) => {
+    setCodeTableName(name);
+    SettingsService.saveSettings({ codeTable: name }).catch((error) => {
+      console.warn('[App] Failed to save code table:', error);
+    });
+  }, []);
 
   // Handle seek
   const handleSeek = useCallback(async (position: number) => {
@@ -199,12 +341,12 @@ export default function App() {
   }, [morseCode]);
 
   // Handle download
-  const handleDownload = useCallback(async () => {
+  const handleDownload = useCallback(async (onProgress: (progress: number) => void, signal: AbortSignal) => {
     if (!morseCode) return;
 
     try {
-      const timings = MorseConverterService.morseToTiming(morseCode);
-      const fileUri = await AudioService.generateAudioFile(timings, playbackSpeed);
+      const timings = IncrementalConverterService.morseToTiming(morseCode, timingOptions);
+      const fileUri = await AudioService.generateAudioFile(timings, wpm, { onProgress, signal });
 
       // Show success notification with file location
       setNotification({
@@ -213,6 +355,15 @@ export default function App() {
         visible: true,
       });
     } catch (error) {
+      if (signal.aborted) {
+        setNotification({
+          message: EXPORT_CANCELLED,
+          type: 'warning',
+          visible: true,
+        });
+        return;
+      }
+
       // Handle download error with proper error classification
       const errorNotification = ErrorHandler.handleDownloadError(error, 'audio file generation');
       setNotification({
@@ -221,7 +372,99 @@ export default function App() {
         visible: true,
       });
     }
-  }, [morseCode, playbackSpeed]);
+  }, [morseCode, timingOptions, wpm]);
+
+  // Handle MIDI export: every dit is a sixteenth note at the chosen tempo
+  const handleMidiDownload = useCallback(async (tempo: number | null) => {
+    if (!morseCode) return;
+
+    try {
+      const timings = IncrementalConverterService.morseToTiming(morseCode, timingOptions);
+      const { timeUnit } = MorseConverterService.resolveTimingConfig(timingOptions);
+      const fileUri = await MidiExportService.generateMidiFile(timings, wpm, {
+        timeUnit,
+        ...(tempo !== null ? { tempo } : {}),
+      });
+
+      setNotification({
+        message: `MIDI saved to: ${fileUri}`,
+        type: 'success',
+        visible: true,
+      });
+    } catch (error) {
+      const errorNotification = ErrorHandler.handleDownloadError(error, 'MIDI file generation');
+      setNotification({
+        message: errorNotification.message,
+        type: errorNotification.type,
+        visible: true,
+      });
+    }
+  }, [morseCode, timingOptions, wpm]);
+
+  // Handle pileup export: several stations mixed into one stereo file
+  const handlePileupDownload = useCallback(async (
+    stations: PileupStation[],
+    onProgress: (progress: number) => void,
+    signal: AbortSignal
+  ) => {
+    try {
+      const fileUri = await PileupService.generatePileupFile(stations, { onProgress, signal });
+
+      setNotification({
+        message: `Pileup saved to: ${fileUri}`,
+        type: 'success',
+        visible: true,
+      });
+    } catch (error) {
+      if (signal.aborted) {
+        setNotification({
+          message: EXPORT_CANCELLED,
+          type: 'warning',
+          visible: true,
+        });
+        return;
+      }
+
+      const errorNotification = ErrorHandler.handleDownloadError(error, 'pileup generation');
+      setNotification({
+        message: errorNotification.message,
+        type: errorNotification.type,
+        visible: true,
+      });
+    }
+  }, []);
+
+  // Switch between sending and receiving; the microphone would hear our own tone
+  const handleModeChange = useCallback((nextMode: AppMode) => {
+    if (nextMode === 'receive') {
+      if (isPlaying) {
+        AudioService.pausePlayback();
+        setIsPlaying(false);
+      }
+      FlashlightService.stopTransmission();
+    }
+    setMode(nextMode);
+  }, [isPlaying]);
+
+  // Handle microphone errors while receiving
+  const handleReceiveError = useCallback((error: unknown) => {
+    const errorNotification = ErrorHandler.handleMicrophoneError(error, 'receive');
+    setNotification({
+      message: errorNotification.message,
+      type: errorNotification.type,
+      visible: true,
+    });
+  }, []);
+
+  // Handle errors from decoding a recording on the receive screen
+  const handleDecodeFileError = useCallback((error: unknown) => {
+    const errorNotification = ErrorHandler.handleDecodeError(error, 'file decoding');
+    setNotification({
+      message: errorNotification.message,
+      type: errorNotification.type,
+      visible: true,
+    });
+  }, []);
 
   // Hide notification
   const hideNotification = useCallback(() => {
@@ -250,17 +493,47 @@ export default function App() {
         <View style={styles.header}>
           <View style={styles.headerTextContainer}>
             <Text style={styles.headerText}>Morse Flash</Text>
-            <Text style={styles.headerSubtitle}>Convert, Flash & Send</Text>
+            <Text style={styles.headerSubtitle}>Convert, Flash, Send & Receive</Text>
+          </View>
+          <View style={styles.modeTabs}>
+            {APP_MODES.map((option) => (
+              <TouchableOpacity
+                key={option.id}
+                onPress={() => handleModeChange(option.id)}
+                style={[styles.modeTab, mode === option.id && styles.modeTabActive]}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.modeTabText, mode === option.id && styles.modeTabTextActive]}>
+                  {option.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
           </View>
         </View>
 
+        {mode === 'receive' && (
+          <ReceiveScreen
+            initialFrequency={toneSettings.frequency}
+            onError={handleReceiveError}
+            onFileError={handleDecodeFileError}
+          />
+        )}
+
+        {/* Send stays mounted while hidden so typed text survives a look at Receive */}
         <ScrollView
-          style={styles.scrollView}
+          style={[styles.scrollView, mode === 'receive' && styles.hidden]}
           contentContainerStyle={styles.scrollContent}
           keyboardShouldPersistTaps="handled"
         >
           <View style={styles.cardContainer}>
-            <TextInputCard onMorseCodeChange={setMorseCode} />
+            <TextInputCard
+              onMorseCodeChange={setMorseCode}
+              timingOptions={timingOptions}
+              codeTableName={codeTableName}
+              onCodeTableChange={handleCodeTableChange}
+              codeStandard={codeStandard}
+              onCodeStandardChange={handleCodeStandardChange}
+            />
           </View>
 
           {morseCode ? (
@@ -276,8 +549,21 @@ export default function App() {
           {morseCode && (
             <View style={styles.featureSection}>
               <AudioControls
-                speed={playbackSpeed}
-                onSpeedChange={handleSpeedChange}
+                wpm={wpm}
+                onWpmChange={handleWpmChange}
+                speedStandard={speedStandard}
+                onSpeedStandardChange={handleSpeedStandardChange}
+                farnsworthWpm={farnsworthWpm}
+                onFarnsworthChange={handleFarnsworthChange}
+                keying={keying}
+                onKeyingChange={handleKeyingChange}
+                codeStandard={codeStandard}
+                toneSettings={toneSettings}
+                onToneSettingsChange={handleToneSettingsChange}
+                toneEnvelope={toneEnvelope}
+                onToneEnvelopeChange={handleToneEnvelopeChange}
+                channelSettings={channelSettings}
+                onChannelSettingsChange={handleChannelSettingsChange}
                 progress={progress}
                 onSeek={handleSeek}
                 currentTime={currentTime}
@@ -290,6 +576,7 @@ export default function App() {
               <View style={styles.buttonRow}>
                 <DownloadButton
                   onDownload={handleDownload}
+                  onDownloadMidi={handleMidiDownload}
                   disabled={!morseCode}
                 />
               </View>
@@ -297,6 +584,7 @@ export default function App() {
               <View style={styles.buttonRow}>
                 <FlashlightButton
                   morseCode={morseCode}
+                  timingOptions={timingOptions}
                   onError={handleFlashlightError}
                   disabled={!morseCode}
                   onTransmissionStart={() => {
@@ -309,6 +597,12 @@ export default function App() {
               </View>
             </View>
           )}
+
+          <PileupCard
+            wpm={wpm}
+            frequency={toneSettings.frequency}
+            onDownload={handlePileupDownload}
+          />
         </ScrollView>
 
         <StatusBar style="light" />
@@ -354,9 +648,36 @@ const styles = StyleSheet.create({
     marginTop: 2,
     opacity: 0.8,
   },
+  modeTabs: {
+    flexDirection: 'row',
+    marginTop: 16,
+    padding: 4,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    gap: 4,
+  },
+  modeTab: {
+    paddingVertical: 8,
+    paddingHorizontal: 24,
+    borderRadius: 9,
+  },
+  modeTabActive: {
+    backgroundColor: '#3b82f6',
+  },
+  modeTabText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#94a3b8',
+  },
+  modeTabTextActive: {
+    color: '#ffffff',
+  },
   scrollView: {
     flex: 1,
   },
+  hidden: {
+    display: 'none',
+  },
   scrollContent: {
     paddingVertical: 24,
     paddingHorizontal: 16,
@@ -0,0 +1,50 @@
+import React, { useMemo } from 'react';
+import { StyleProp, StyleSheet, Text, View, ViewStyle } from 'react-native';
+import AbbreviationService from '../services/AbbreviationService';
+
+interface AbbreviationMeaningsProps {
+  text: string;                  // Typed or decoded text to explain
+  style?: StyleProp<ViewStyle>;  // Spacing around the list where it is placed
+}
+
+/**
+ * Lists the Q-codes and abbreviations in a text with their meanings, each once
+ * Renders nothing when the text has none
+ */
+export default function AbbreviationMeanings({ text, style }: AbbreviationMeaningsProps) {
+  const matches = useMemo(() => {
+    const seen = new Set<string>();
+    return AbbreviationService.findAbbreviations(text).filter(({ abbreviation }) => {
+      if (seen.has(abbreviation)) return false;
+      seen.add(abbreviation);
+      return true;
+    });
+  }, [text]);
+
+  if (matches.length === 0) return null;
+
+  return (
+    <View style={[styles.meanings, style]}>
+      {matches.map(({ abbreviation, meaning }) => (
+        <Text key={abbreviation} style={styles.meaningText}>
+          <Text style={styles.meaningAbbreviation}>{abbreviation}</Text> {meaning}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  meanings: {
+    gap: 2,
+  },
+  meaningText: {
+    fontSize: 12,
+    color: '#94a3b8',
+  },
+  meaningAbbreviation: {
+    fontFamily: 'monospace',
+    fontWeight: '600',
+    color: '#cbd5e1',
+  },
+});
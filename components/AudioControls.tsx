@@ -7,10 +7,34 @@ import {
   Animated,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { ChannelSettings, KeyingOptions, MorseCodeStandard, SpeedStandard, ToneEnvelope, ToneSettings } from '../types/morse';
+import MorseConverterService from '../services/MorseConverterService';
+import {
+  DEFAULT_CHANNEL_SETTINGS,
+  MAX_SNR,
+  MIN_SNR,
+  NOISE_COLORS,
+} from '../utils/ChannelSimulator';
+import { formatWpm, MAX_WEIGHTING, MAX_WPM, MIN_WEIGHTING, MIN_WPM } from '../utils/TimingUtils';
+import { ENVELOPE_SHAPES, MAX_RAMP_TIME, MIN_RAMP_TIME } from '../utils/ToneEnvelope';
+import { MAX_FREQUENCY, MAX_VOLUME, MIN_FREQUENCY, MIN_VOLUME, TONE_WAVEFORMS } from '../utils/ToneWaveform';
 
 interface AudioControlsProps {
-  speed: number;
-  onSpeedChange: (speed: number) => void;
+  wpm: number;
+  onWpmChange: (wpm: number) => void;
+  speedStandard: SpeedStandard;
+  onSpeedStandardChange: (standard: SpeedStandard) => void;
+  farnsworthWpm: number | null;
+  onFarnsworthChange: (effectiveWpm: number | null) => void;
+  keying: KeyingOptions;
+  onKeyingChange: (keying: KeyingOptions) => void;
+  codeStandard: MorseCodeStandard;   // Standard dah length and gaps depend on it
+  toneSettings: ToneSettings;
+  onToneSettingsChange: (tone: ToneSettings) => void;
+  toneEnvelope: ToneEnvelope;
+  onToneEnvelopeChange: (envelope: ToneEnvelope) => void;
+  channelSettings: ChannelSettings | null;
+  onChannelSettingsChange: (channel: ChannelSettings | null) => void;
   progress: number;
   onSeek: (position: number) => void;
   currentTime: number;
@@ -20,7 +44,58 @@ interface AudioControlsProps {
   disabled?: boolean;
 }
 
-const SPEED_OPTIONS = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+const WPM_PRESETS = [5, 10, 13, 15, 20, 25, 30, 40, 60];
+
+// Fine adjustment step, allowing fractional speeds
+const WPM_STEP = 0.5;
+
+const SPEED_STANDARD_OPTIONS: SpeedStandard[] = ['PARIS', 'CODEX'];
+
+// Effective speeds offered for Farnsworth spacing (only those below the character speed apply)
+const FARNSWORTH_OPTIONS = [5, 8, 10, 13, 15];
+
+// Pitch step in Hz and volume step as a fraction
+const FREQUENCY_STEP = 50;
+const VOLUME_STEP = 0.1;
+
+// SNR step in dB
+const SNR_STEP = 3;
+
+// Band condition presets: fading (QSB), static crashes (QRN) and interfering carriers (QRM)
+const FADING_OPTIONS = [
+  { name: 'No fading', fadingDepth: 0, fadingRate: 0.2 },
+  { name: 'Slow fading', fadingDepth: 0.6, fadingRate: 0.1 },
+  { name: 'Deep fading', fadingDepth: 0.95, fadingRate: 0.3 },
+];
+const STATIC_OPTIONS = [
+  { name: 'No static', crashRate: 0 },
+  { name: 'Some static', crashRate: 0.5 },
+  { name: 'Heavy static', crashRate: 3 },
+];
+const INTERFERENCE_OPTIONS = [
+  { name: 'No QRM', interferers: 0 },
+  { name: '1 carrier', interferers: 1 },
+  { name: '3 carriers', interferers: 3 },
+];
+
+// Largest seed offered by the New seed button
+const MAX_SEED = 99999;
+
+// Stepper ranges for the keying shape, in percent or time units
+const KEYING_CONTROLS: {
+  key: keyof KeyingOptions;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  suffix: string;
+}[] = [
+  { key: 'weighting', label: 'Weighting', min: MIN_WEIGHTING, max: MAX_WEIGHTING, step: 5, suffix: '%' },
+  { key: 'dahRatio', label: 'Dah length', min: 2, max: 5, step: 0.5, suffix: ' dits' },
+  { key: 'symbolGapUnits', label: 'Element gap', min: 0.5, max: 3, step: 0.5, suffix: ' units' },
+  { key: 'letterGapUnits', label: 'Letter gap', min: 2, max: 6, step: 0.5, suffix: ' units' },
+  { key: 'wordGapUnits', label: 'Word gap', min: 5, max: 14, step: 1, suffix: ' units' },
+];
 
 // Format time in MM:SS - moved outside component for better performance
 const formatTime = (milliseconds: number): string => {
@@ -31,8 +106,21 @@ const formatTime = (milliseconds: number): string => {
 };
 
 const AudioControls = React.memo(({
-  speed,
-  onSpeedChange,
+  wpm,
+  onWpmChange,
+  speedStandard,
+  onSpeedStandardChange,
+  farnsworthWpm,
+  onFarnsworthChange,
+  keying,
+  onKeyingChange,
+  codeStandard,
+  toneSettings,
+  onToneSettingsChange,
+  toneEnvelope,
+  onToneEnvelopeChange,
+  channelSettings,
+  onChannelSettingsChange,
   progress,
   onSeek,
   currentTime,
@@ -67,6 +155,55 @@ const AudioControls = React.memo(({
     onPlayPause();
   }, [disabled, onPlayPause, scaleAnim]);
 
+  // Step the speed, staying inside the supported range
+  const handleWpmStep = useCallback((direction: 1 | -1) => {
+    if (disabled) return;
+    const nextWpm = Math.min(MAX_WPM, Math.max(MIN_WPM, wpm + direction * WPM_STEP));
+    onWpmChange(nextWpm);
+  }, [disabled, wpm, onWpmChange]);
+
+  // Current keying shape, with standard values filled in for the current code standard
+  const resolvedKeying = useMemo(
+    () => MorseConverterService.resolveTimingConfig(keying),
+    [keying, codeStandard]
+  );
+  const isStandardKeying = Object.keys(keying).length === 0;
+
+  // Step one keying value, staying inside its range
+  const handleKeyingStep = useCallback((control: typeof KEYING_CONTROLS[number], direction: 1 | -1) => {
+    if (disabled) return;
+    const value = resolvedKeying[control.key] + direction * control.step;
+    onKeyingChange({ ...keying, [control.key]: Math.min(control.max, Math.max(control.min, value)) });
+  }, [disabled, keying, resolvedKeying, onKeyingChange]);
+
+  // Step pitch or volume, staying inside the supported range
+  const handleToneStep = useCallback((setting: 'frequency' | 'volume', direction: 1 | -1) => {
+    if (disabled) return;
+    const next = setting === 'frequency'
+      ? Math.min(MAX_FREQUENCY, Math.max(MIN_FREQUENCY, toneSettings.frequency + direction * FREQUENCY_STEP))
+      : Math.min(MAX_VOLUME, Math.max(MIN_VOLUME, Math.round((toneSettings.volume + direction * VOLUME_STEP) * 10) / 10));
+    onToneSettingsChange({ ...toneSettings, [setting]: next });
+  }, [disabled, toneSettings, onToneSettingsChange]);
+
+  // Step the rise and fall time by whole milliseconds
+  const handleRampStep = useCallback((direction: 1 | -1) => {
+    if (disabled) return;
+    const rampTime = Math.min(MAX_RAMP_TIME, Math.max(MIN_RAMP_TIME, toneEnvelope.rampTime + direction));
+    onToneEnvelopeChange({ ...toneEnvelope, rampTime });
+  }, [disabled, toneEnvelope, onToneEnvelopeChange]);
+
+  // Change some band conditions, keeping the rest
+  const updateChannel = useCallback((changes: Partial<ChannelSettings>) => {
+    if (disabled || !channelSettings) return;
+    onChannelSettingsChange({ ...channelSettings, ...changes });
+  }, [disabled, channelSettings, onChannelSettingsChange]);
+
+  // Step the SNR, staying inside the supported range
+  const handleSnrStep = useCallback((direction: 1 | -1) => {
+    if (!channelSettings) return;
+    updateChannel({ snr: Math.min(MAX_SNR, Math.max(MIN_SNR, channelSettings.snr + direction * SNR_STEP)) });
+  }, [channelSettings, updateChannel]);
+
   // Memoize progress bar width calculation
   const progressWidth = useMemo(() => `${progress * 100}%` as const, [progress]);
 
@@ -133,15 +270,222 @@ const AudioControls = React.memo(({
 
       {/* Speed Selector */}
       <View style={styles.speedSection}>
-        <Text style={styles.speedLabel}>Playback Speed</Text>
+        <Text style={styles.speedLabel}>Speed</Text>
+        <View style={styles.wpmStepper}>
+          <TouchableOpacity
+            onPress={() => handleWpmStep(-1)}
+            style={[styles.speedButton, (disabled || wpm <= MIN_WPM) && styles.speedButtonDisabled]}
+            activeOpacity={0.7}
+            disabled={disabled || wpm <= MIN_WPM}
+          >
+            <Text style={styles.speedButtonText}>−</Text>
+          </TouchableOpacity>
+          <Text style={styles.wpmValue}>{formatWpm(wpm)} WPM</Text>
+          <TouchableOpacity
+            onPress={() => handleWpmStep(1)}
+            style={[styles.speedButton, (disabled || wpm >= MAX_WPM) && styles.speedButtonDisabled]}
+            activeOpacity={0.7}
+            disabled={disabled || wpm >= MAX_WPM}
+          >
+            <Text style={styles.speedButtonText}>+</Text>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.speedOptions}>
+          {WPM_PRESETS.map((wpmOption) => (
+            <TouchableOpacity
+              key={wpmOption}
+              onPress={() => !disabled && onWpmChange(wpmOption)}
+              style={[
+                styles.speedButton,
+                wpm === wpmOption && styles.speedButtonActive,
+                disabled && styles.speedButtonDisabled,
+              ]}
+              activeOpacity={0.7}
+              disabled={disabled}
+            >
+              <Text
+                style={[
+                  styles.speedButtonText,
+                  wpm === wpmOption && styles.speedButtonTextActive,
+                ]}
+              >
+                {wpmOption}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={[styles.speedOptions, styles.standardOptions]}>
+          {SPEED_STANDARD_OPTIONS.map((standard) => (
+            <TouchableOpacity
+              key={standard}
+              onPress={() => !disabled && onSpeedStandardChange(standard)}
+              style={[
+                styles.speedButton,
+                speedStandard === standard && styles.speedButtonActive,
+                disabled && styles.speedButtonDisabled,
+              ]}
+              activeOpacity={0.7}
+              disabled={disabled}
+            >
+              <Text
+                style={[
+                  styles.speedButtonText,
+                  speedStandard === standard && styles.speedButtonTextActive,
+                ]}
+              >
+                {standard}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {/* Farnsworth Spacing */}
+      <View style={[styles.speedSection, styles.farnsworthSection]}>
+        <Text style={styles.speedLabel}>Farnsworth Spacing</Text>
+        <View style={styles.speedOptions}>
+          <TouchableOpacity
+            onPress={() => !disabled && onFarnsworthChange(null)}
+            style={[
+              styles.speedButton,
+              farnsworthWpm === null && styles.speedButtonActive,
+              disabled && styles.speedButtonDisabled,
+            ]}
+            activeOpacity={0.7}
+            disabled={disabled}
+          >
+            <Text
+              style={[
+                styles.speedButtonText,
+                farnsworthWpm === null && styles.speedButtonTextActive,
+              ]}
+            >
+              Off
+            </Text>
+          </TouchableOpacity>
+          {FARNSWORTH_OPTIONS.map((effectiveWpm) => {
+            const optionDisabled = disabled || effectiveWpm >= wpm;
+            return (
+              <TouchableOpacity
+                key={effectiveWpm}
+                onPress={() => !optionDisabled && onFarnsworthChange(effectiveWpm)}
+                style={[
+                  styles.speedButton,
+                  farnsworthWpm === effectiveWpm && styles.speedButtonActive,
+                  optionDisabled && styles.speedButtonDisabled,
+                ]}
+                activeOpacity={0.7}
+                disabled={optionDisabled}
+              >
+                <Text
+                  style={[
+                    styles.speedButtonText,
+                    farnsworthWpm === effectiveWpm && styles.speedButtonTextActive,
+                  ]}
+                >
+                  {effectiveWpm}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <Text style={styles.farnsworthHint}>
+          {farnsworthWpm !== null && farnsworthWpm < wpm
+            ? `Characters at ${formatWpm(wpm)} WPM, spaced for ${farnsworthWpm} WPM`
+            : `Characters and spacing at ${formatWpm(wpm)} WPM`}
+        </Text>
+      </View>
+
+      {/* Keying: weighting, dah ratio and gap lengths */}
+      <View style={[styles.speedSection, styles.farnsworthSection]}>
+        <Text style={styles.speedLabel}>Keying</Text>
+        {KEYING_CONTROLS.map((control) => {
+          const value = resolvedKeying[control.key];
+          return (
+            <View key={control.key} style={styles.keyingRow}>
+              <Text style={styles.keyingLabel}>{control.label}</Text>
+              <TouchableOpacity
+                onPress={() => handleKeyingStep(control, -1)}
+                style={[styles.speedButton, (disabled || value <= control.min) && styles.speedButtonDisabled]}
+                activeOpacity={0.7}
+                disabled={disabled || value <= control.min}
+              >
+                <Text style={styles.speedButtonText}>−</Text>
+              </TouchableOpacity>
+              <Text style={styles.keyingValue}>{value}{control.suffix}</Text>
+              <TouchableOpacity
+                onPress={() => handleKeyingStep(control, 1)}
+                style={[styles.speedButton, (disabled || value >= control.max) && styles.speedButtonDisabled]}
+                activeOpacity={0.7}
+                disabled={disabled || value >= control.max}
+              >
+                <Text style={styles.speedButtonText}>+</Text>
+              </TouchableOpacity>
+            </View>
+          );
+        })}
+        <View style={styles.speedOptions}>
+          <TouchableOpacity
+            onPress={() => !disabled && onKeyingChange({})}
+            style={[
+              styles.speedButton,
+              isStandardKeying && styles.speedButtonActive,
+              disabled && styles.speedButtonDisabled,
+            ]}
+            activeOpacity={0.7}
+            disabled={disabled}
+          >
+            <Text
+              style={[
+                styles.speedButtonText,
+                isStandardKeying && styles.speedButtonTextActive,
+              ]}
+            >
+              Standard
+            </Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.farnsworthHint}>
+          Applies to audio, flashlight and WAV export
+        </Text>
+      </View>
+
+      {/* Tone: pitch, volume and waveform */}
+      <View style={[styles.speedSection, styles.farnsworthSection]}>
+        <Text style={styles.speedLabel}>Tone</Text>
+        {([
+          { setting: 'frequency', label: 'Pitch', value: toneSettings.frequency, min: MIN_FREQUENCY, max: MAX_FREQUENCY, text: `${toneSettings.frequency} Hz` },
+          { setting: 'volume', label: 'Volume', value: toneSettings.volume, min: MIN_VOLUME, max: MAX_VOLUME, text: `${Math.round(toneSettings.volume * 100)}%` },
+        ] as const).map((control) => (
+          <View key={control.setting} style={styles.keyingRow}>
+            <Text style={styles.keyingLabel}>{control.label}</Text>
+            <TouchableOpacity
+              onPress={() => handleToneStep(control.setting, -1)}
+              style={[styles.speedButton, (disabled || control.value <= control.min) && styles.speedButtonDisabled]}
+              activeOpacity={0.7}
+              disabled={disabled || control.value <= control.min}
+            >
+              <Text style={styles.speedButtonText}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.keyingValue}>{control.text}</Text>
+            <TouchableOpacity
+              onPress={() => handleToneStep(control.setting, 1)}
+              style={[styles.speedButton, (disabled || control.value >= control.max) && styles.speedButtonDisabled]}
+              activeOpacity={0.7}
+              disabled={disabled || control.value >= control.max}
+            >
+              <Text style={styles.speedButtonText}>+</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
         <View style={styles.speedOptions}>
-          {SPEED_OPTIONS.map((speedOption) => (
+          {TONE_WAVEFORMS.map((waveform) => (
             <TouchableOpacity
-              key={speedOption}
-              onPress={() => !disabled && onSpeedChange(speedOption)}
+              key={waveform.id}
+              onPress={() => !disabled && onToneSettingsChange({ ...toneSettings, waveform: waveform.id })}
               style={[
                 styles.speedButton,
-                speed === speedOption && styles.speedButtonActive,
+                toneSettings.waveform === waveform.id && styles.speedButtonActive,
                 disabled && styles.speedButtonDisabled,
               ]}
               activeOpacity={0.7}
@@ -150,15 +494,194 @@ const AudioControls = React.memo(({
               <Text
                 style={[
                   styles.speedButtonText,
-                  speed === speedOption && styles.speedButtonTextActive,
+                  toneSettings.waveform === waveform.id && styles.speedButtonTextActive,
                 ]}
               >
-                {speedOption}x
+                {waveform.name}
               </Text>
             </TouchableOpacity>
           ))}
         </View>
       </View>
+
+      {/* Tone shaping: rise and fall of each element */}
+      <View style={[styles.speedSection, styles.farnsworthSection]}>
+        <Text style={styles.speedLabel}>Tone Shaping</Text>
+        <View style={styles.speedOptions}>
+          {ENVELOPE_SHAPES.map((shape) => (
+            <TouchableOpacity
+              key={shape.id}
+              onPress={() => !disabled && onToneEnvelopeChange({ ...toneEnvelope, shape: shape.id })}
+              style={[
+                styles.speedButton,
+                toneEnvelope.shape === shape.id && styles.speedButtonActive,
+                disabled && styles.speedButtonDisabled,
+              ]}
+              activeOpacity={0.7}
+              disabled={disabled}
+            >
+              <Text
+                style={[
+                  styles.speedButtonText,
+                  toneEnvelope.shape === shape.id && styles.speedButtonTextActive,
+                ]}
+              >
+                {shape.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={[styles.keyingRow, styles.standardOptions]}>
+          <Text style={styles.keyingLabel}>Rise and fall</Text>
+          <TouchableOpacity
+            onPress={() => handleRampStep(-1)}
+            style={[styles.speedButton, (disabled || toneEnvelope.rampTime <= MIN_RAMP_TIME) && styles.speedButtonDisabled]}
+            activeOpacity={0.7}
+            disabled={disabled || toneEnvelope.rampTime <= MIN_RAMP_TIME}
+          >
+            <Text style={styles.speedButtonText}>−</Text>
+          </TouchableOpacity>
+          <Text style={styles.keyingValue}>{toneEnvelope.rampTime} ms</Text>
+          <TouchableOpacity
+            onPress={() => handleRampStep(1)}
+            style={[styles.speedButton, (disabled || toneEnvelope.rampTime >= MAX_RAMP_TIME) && styles.speedButtonDisabled]}
+            activeOpacity={0.7}
+            disabled={disabled || toneEnvelope.rampTime >= MAX_RAMP_TIME}
+          >
+            <Text style={styles.speedButtonText}>+</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.farnsworthHint}>
+          Smooths the start and end of each tone to remove key clicks in playback and WAV export
+        </Text>
+      </View>
+
+      {/* Band conditions: noise, fading, static and interference */}
+      <View style={[styles.speedSection, styles.farnsworthSection]}>
+        <Text style={styles.speedLabel}>Band Conditions</Text>
+        <View style={styles.speedOptions}>
+          {([
+            { name: 'Clean', on: false },
+            { name: 'Simulated', on: true },
+          ] as const).map((option) => {
+            const isActive = (channelSettings !== null) === option.on;
+            return (
+              <TouchableOpacity
+                key={option.name}
+                onPress={() => !disabled && !isActive && onChannelSettingsChange(option.on ? { ...DEFAULT_CHANNEL_SETTINGS } : null)}
+                style={[
+                  styles.speedButton,
+                  isActive && styles.speedButtonActive,
+                  disabled && styles.speedButtonDisabled,
+                ]}
+                activeOpacity={0.7}
+                disabled={disabled}
+              >
+                <Text style={[styles.speedButtonText, isActive && styles.speedButtonTextActive]}>
+                  {option.name}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        {channelSettings && (
+          <>
+            <View style={[styles.speedOptions, styles.standardOptions]}>
+              {[{ id: null, name: 'No noise' }, ...NOISE_COLORS.map(color => ({ ...color, name: `${color.name} noise` }))].map((color) => (
+                <TouchableOpacity
+                  key={color.name}
+                  onPress={() => updateChannel({ noise: color.id })}
+                  style={[
+                    styles.speedButton,
+                    channelSettings.noise === color.id && styles.speedButtonActive,
+                    disabled && styles.speedButtonDisabled,
+                  ]}
+                  activeOpacity={0.7}
+                  disabled={disabled}
+                >
+                  <Text style={[styles.speedButtonText, channelSettings.noise === color.id && styles.speedButtonTextActive]}>
+                    {color.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {channelSettings.noise && (
+              <View style={styles.keyingRow}>
+                <Text style={styles.keyingLabel}>SNR</Text>
+                <TouchableOpacity
+                  onPress={() => handleSnrStep(-1)}
+                  style={[styles.speedButton, (disabled || channelSettings.snr <= MIN_SNR) && styles.speedButtonDisabled]}
+                  activeOpacity={0.7}
+                  disabled={disabled || channelSettings.snr <= MIN_SNR}
+                >
+                  <Text style={styles.speedButtonText}>−</Text>
+                </TouchableOpacity>
+                <Text style={styles.keyingValue}>{channelSettings.snr} dB</Text>
+                <TouchableOpacity
+                  onPress={() => handleSnrStep(1)}
+                  style={[styles.speedButton, (disabled || channelSettings.snr >= MAX_SNR) && styles.speedButtonDisabled]}
+                  activeOpacity={0.7}
+                  disabled={disabled || channelSettings.snr >= MAX_SNR}
+                >
+                  <Text style={styles.speedButtonText}>+</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            {[
+              FADING_OPTIONS.map(option => ({
+                name: option.name,
+                isActive: channelSettings.fadingDepth === option.fadingDepth,
+                changes: { fadingDepth: option.fadingDepth, fadingRate: option.fadingRate },
+              })),
+              STATIC_OPTIONS.map(option => ({
+                name: option.name,
+                isActive: channelSettings.crashRate === option.crashRate,
+                changes: { crashRate: option.crashRate },
+              })),
+              INTERFERENCE_OPTIONS.map(option => ({
+                name: option.name,
+                isActive: channelSettings.interferers === option.interferers,
+                changes: { interferers: option.interferers },
+              })),
+            ].map((options) => (
+              <View key={options[0].name} style={[styles.speedOptions, styles.standardOptions]}>
+                {options.map((option) => (
+                  <TouchableOpacity
+                    key={option.name}
+                    onPress={() => updateChannel(option.changes)}
+                    style={[
+                      styles.speedButton,
+                      option.isActive && styles.speedButtonActive,
+                      disabled && styles.speedButtonDisabled,
+                    ]}
+                    activeOpacity={0.7}
+                    disabled={disabled}
+                  >
+                    <Text style={[styles.speedButtonText, option.isActive && styles.speedButtonTextActive]}>
+                      {option.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            ))}
+            <View style={[styles.keyingRow, styles.standardOptions]}>
+              <Text style={styles.keyingLabel}>Seed</Text>
+              <Text style={styles.keyingValue}>{channelSettings.seed}</Text>
+              <TouchableOpacity
+                onPress={() => updateChannel({ seed: 1 + Math.floor(Math.random() * MAX_SEED) })}
+                style={[styles.speedButton, disabled && styles.speedButtonDisabled]}
+                activeOpacity={0.7}
+                disabled={disabled}
+              >
+                <Text style={styles.speedButtonText}>New seed</Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+        <Text style={styles.farnsworthHint}>
+          Adds noise (SNR), fading (QSB), static (QRN) and nearby carriers (QRM) to playback and WAV export; the same seed gives the same audio
+        </Text>
+      </View>
     </View>
   );
 });
@@ -273,6 +796,53 @@ const styles = StyleSheet.create({
   speedSection: {
     paddingTop: 4,
   },
+  wpmStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 16,
+    marginBottom: 12,
+  },
+  wpmValue: {
+    fontSize: 22,
+    fontWeight: '800',
+    color: '#f8fafc',
+    minWidth: 110,
+    textAlign: 'center',
+    fontVariant: ['tabular-nums'],
+  },
+  standardOptions: {
+    marginTop: 8,
+  },
+  farnsworthSection: {
+    marginTop: 20,
+  },
+  farnsworthHint: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 10,
+    textAlign: 'center',
+  },
+  keyingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 8,
+  },
+  keyingLabel: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#94a3b8',
+  },
+  keyingValue: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#f8fafc',
+    minWidth: 80,
+    textAlign: 'center',
+    fontVariant: ['tabular-nums'],
+  },
   speedLabel: {
     fontSize: 13,
     fontWeight: '700',
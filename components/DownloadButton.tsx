@@ -1,25 +1,54 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { StyleSheet, Text, View, TouchableOpacity, ActivityIndicator } from 'react-native';
 
 interface DownloadButtonProps {
-  onDownload: () => Promise<void>;
+  // Receives a progress callback (0 to 1) and a signal that is aborted when the user cancels
+  onDownload: (onProgress: (progress: number) => void, signal: AbortSignal) => Promise<void>;
+  // Receives the chosen tempo in BPM, or null to play at the sending speed
+  onDownloadMidi?: (tempo: number | null) => Promise<void>;
   disabled?: boolean;
 }
 
-const DownloadButton = React.memo(({ onDownload, disabled = false }: DownloadButtonProps) => {
+// Tempos offered for MIDI export; null keeps the sending speed
+const MIDI_TEMPO_OPTIONS: (number | null)[] = [null, 60, 90, 120];
+
+const DownloadButton = React.memo(({ onDownload, onDownloadMidi, disabled = false }: DownloadButtonProps) => {
   const [isDownloading, setIsDownloading] = useState(false);
+  const [isExportingMidi, setIsExportingMidi] = useState(false);
+  const [midiTempo, setMidiTempo] = useState<number | null>(null);
+  const [progress, setProgress] = useState(0);
+  const abortController = useRef<AbortController | null>(null);
 
   const handlePress = async () => {
     if (disabled || isDownloading) return;
 
+    const controller = new AbortController();
+    abortController.current = controller;
+    setProgress(0);
     setIsDownloading(true);
     try {
-      await onDownload();
+      await onDownload(setProgress, controller.signal);
     } finally {
+      abortController.current = null;
       setIsDownloading(false);
     }
   };
 
+  const handleCancel = () => {
+    abortController.current?.abort();
+  };
+
+  const handleMidiPress = async () => {
+    if (disabled || isExportingMidi || !onDownloadMidi) return;
+
+    setIsExportingMidi(true);
+    try {
+      await onDownloadMidi(midiTempo);
+    } finally {
+      setIsExportingMidi(false);
+    }
+  };
+
   return (
     <View style={styles.container}>
       <TouchableOpacity
@@ -40,9 +69,49 @@ const DownloadButton = React.memo(({ onDownload, disabled = false }: DownloadBut
           styles.buttonText,
           (disabled || isDownloading) && styles.buttonTextDisabled,
         ]}>
-          {isDownloading ? 'Generating...' : 'Download Audio'}
+          {isDownloading ? `Generating... ${Math.round(progress * 100)}%` : 'Download Audio'}
         </Text>
       </TouchableOpacity>
+      {isDownloading && (
+        <View style={styles.progressRow}>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${progress * 100}%` }]} />
+          </View>
+          <TouchableOpacity onPress={handleCancel} style={styles.cancelButton} activeOpacity={0.7}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      {onDownloadMidi && (
+        <View style={styles.midiSection}>
+          <View style={styles.tempoOptions}>
+            {MIDI_TEMPO_OPTIONS.map((tempo) => (
+              <TouchableOpacity
+                key={tempo ?? 'real-time'}
+                onPress={() => setMidiTempo(tempo)}
+                style={[styles.tempoChip, midiTempo === tempo && styles.tempoChipActive]}
+                activeOpacity={0.7}
+                disabled={disabled}
+              >
+                <Text style={[styles.tempoText, midiTempo === tempo && styles.tempoTextActive]}>
+                  {tempo === null ? 'Real time' : `${tempo} BPM`}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <TouchableOpacity
+            style={[styles.midiButton, (disabled || isExportingMidi) && styles.buttonDisabled]}
+            onPress={handleMidiPress}
+            disabled={disabled || isExportingMidi}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.icon}>🎼</Text>
+            <Text style={[styles.buttonText, (disabled || isExportingMidi) && styles.buttonTextDisabled]}>
+              {isExportingMidi ? 'Writing MIDI...' : 'Download MIDI'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
     </View>
   );
 });
@@ -80,4 +149,73 @@ const styles = StyleSheet.create({
   buttonTextDisabled: {
     color: 'rgba(248, 250, 252, 0.5)',
   },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+    gap: 12,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#8b5cf6',
+  },
+  cancelButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  midiSection: {
+    marginTop: 12,
+  },
+  tempoOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 10,
+  },
+  tempoChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  tempoChipActive: {
+    backgroundColor: '#8b5cf6',
+    borderColor: '#8b5cf6',
+  },
+  tempoText: {
+    color: '#94a3b8',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  tempoTextActive: {
+    color: '#ffffff',
+  },
+  midiButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(139, 92, 246, 0.6)',
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    borderRadius: 16,
+    gap: 8,
+  },
+  cancelText: {
+    color: '#cbd5e1',
+    fontSize: 13,
+    fontWeight: '600',
+  },
 });
@@ -3,9 +3,11 @@ import { StyleSheet, Text, View, TouchableOpacity } from 'react-native';
 import { CameraView, useCameraPermissions } from 'expo-camera';
 import FlashlightService from '../services/FlashlightService';
 import ErrorHandler from '../utils/ErrorHandler';
+import { TimingConfig } from '../types/morse';
 
 interface FlashlightButtonProps {
   morseCode: string;
+  timingOptions?: Partial<TimingConfig>;
   onTransmissionStart?: () => void;
   onTransmissionComplete?: () => void;
   onError?: (error: string) => void;
@@ -14,6 +16,7 @@ interface FlashlightButtonProps {
 
 export default function FlashlightButton({
   morseCode,
+  timingOptions,
   onTransmissionStart,
   onTransmissionComplete,
   onError,
@@ -68,7 +71,7 @@ export default function FlashlightButton({
       await new Promise(resolve => setTimeout(resolve, 100));
 
       const MorseConverterService = require('../services/MorseConverterService').default;
-      const timings = MorseConverterService.morseToTiming(morseCode);
+      const timings = MorseConverterService.morseToTiming(morseCode, timingOptions);
 
       FlashlightService.transmitMorse(
         timings,
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -8,6 +8,8 @@ import {
   Animated,
 } from 'react-native';
 import * as Clipboard from 'expo-clipboard';
+import { MorseNotation } from '../types/morse';
+import { MORSE_NOTATIONS, formatMorse } from '../utils/MorseNotation';
 
 interface MorseDisplayCardProps {
   morseCode: string;
@@ -15,14 +17,18 @@ interface MorseDisplayCardProps {
 
 const MorseDisplayCard = React.memo(({ morseCode }: MorseDisplayCardProps) => {
   const [showCopied, setShowCopied] = useState(false);
+  const [notation, setNotation] = useState<MorseNotation>('standard');
   const iconRotation = useRef(new Animated.Value(0)).current;
   const iconOpacity = useRef(new Animated.Value(1)).current;
 
+  const displayedMorse = useMemo(() => formatMorse(morseCode, notation), [morseCode, notation]);
+
   const handleCopy = useCallback(async () => {
     if (!morseCode) return;
 
     try {
-      await Clipboard.setStringAsync(morseCode);
+      // Copy exactly what is shown, in the selected notation
+      await Clipboard.setStringAsync(displayedMorse);
       
       // Trigger icon swap animation
       setShowCopied(true);
@@ -56,7 +62,7 @@ const MorseDisplayCard = React.memo(({ morseCode }: MorseDisplayCardProps) => {
     } catch (error) {
       console.error('Failed to copy to clipboard:', error);
     }
-  }, [morseCode, iconRotation, iconOpacity]);
+  }, [morseCode, displayedMorse, iconRotation, iconOpacity]);
 
   if (!morseCode) {
     return null;
@@ -92,13 +98,39 @@ const MorseDisplayCard = React.memo(({ morseCode }: MorseDisplayCardProps) => {
         </TouchableOpacity>
       </View>
 
+      <View style={styles.notationOptions}>
+        {MORSE_NOTATIONS.map((option) => (
+          <TouchableOpacity
+            key={option.id}
+            onPress={() => setNotation(option.id)}
+            style={[
+              styles.notationButton,
+              notation === option.id && styles.notationButtonActive,
+            ]}
+            activeOpacity={0.7}
+          >
+            <Text
+              style={[
+                styles.notationButtonText,
+                notation === option.id && styles.notationButtonTextActive,
+              ]}
+            >
+              {option.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
       <ScrollView
         style={styles.morseContainer}
         contentContainerStyle={styles.morseContent}
         nestedScrollEnabled={true}
       >
-        <Text style={styles.morseText} selectable>
-          {morseCode}
+        <Text
+          style={[styles.morseText, notation === 'binary' && styles.binaryText]}
+          selectable
+        >
+          {displayedMorse}
         </Text>
       </ScrollView>
 
@@ -157,6 +189,32 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#3b82f6',
   },
+  notationOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  notationButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  notationButtonActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  notationButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#94a3b8',
+  },
+  notationButtonTextActive: {
+    color: '#ffffff',
+  },
   morseContainer: {
     backgroundColor: 'rgba(0, 0, 0, 0.2)',
     borderRadius: 16,
@@ -174,6 +232,11 @@ const styles = StyleSheet.create({
     lineHeight: 28,
     letterSpacing: 2,
   },
+  binaryText: {
+    fontSize: 14,
+    lineHeight: 20,
+    letterSpacing: 0,
+  },
   confirmationContainer: {
     marginTop: 12,
     paddingVertical: 8,
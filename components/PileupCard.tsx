@@ -0,0 +1,244 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { StyleSheet, Text, TextInput, View, TouchableOpacity, ActivityIndicator } from 'react-native';
+import PileupService, { MAX_STATIONS } from '../services/PileupService';
+import { PileupStation } from '../types/morse';
+
+interface PileupCardProps {
+  wpm: number;          // Speed the stations spread around
+  frequency: number;    // Pitch the stations spread around, in Hz
+  // Receives the stations, a progress callback (0 to 1) and a signal aborted when the user cancels
+  onDownload: (stations: PileupStation[], onProgress: (progress: number) => void, signal: AbortSignal) => Promise<void>;
+}
+
+// Largest seed offered by the New mix button
+const MAX_SEED = 99999;
+
+// Show a pan position as L, C or R with a percentage
+const formatPan = (pan: number): string => {
+  if (Math.abs(pan) < 0.05) return 'C';
+  return `${pan < 0 ? 'L' : 'R'}${Math.round(Math.abs(pan) * 100)}`;
+};
+
+const PileupCard = React.memo(({ wpm, frequency, onDownload }: PileupCardProps) => {
+  const [callsignText, setCallsignText] = useState('');
+  const [seed, setSeed] = useState(1);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const abortController = useRef<AbortController | null>(null);
+
+  // Callsigns may be separated by spaces, commas or new lines
+  const stations = useMemo(() => {
+    const callsigns = callsignText.toUpperCase().split(/[\s,]+/).filter(callsign => callsign.length > 0);
+    return PileupService.createStations(callsigns, { seed, wpm, frequency });
+  }, [callsignText, seed, wpm, frequency]);
+
+  const handlePress = async () => {
+    if (stations.length === 0 || isDownloading) return;
+
+    const controller = new AbortController();
+    abortController.current = controller;
+    setProgress(0);
+    setIsDownloading(true);
+    try {
+      await onDownload(stations, setProgress, controller.signal);
+    } finally {
+      abortController.current = null;
+      setIsDownloading(false);
+    }
+  };
+
+  const handleCancel = () => {
+    abortController.current?.abort();
+  };
+
+  const isDisabled = stations.length === 0 || isDownloading;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.label}>Pileup Practice</Text>
+        <TouchableOpacity
+          onPress={() => setSeed(1 + Math.floor(Math.random() * MAX_SEED))}
+          style={styles.mixButton}
+          activeOpacity={0.7}
+          disabled={isDownloading}
+        >
+          <Text style={styles.mixButtonText}>New mix</Text>
+        </TouchableOpacity>
+      </View>
+      <TextInput
+        style={styles.input}
+        value={callsignText}
+        onChangeText={setCallsignText}
+        placeholder={`Callsigns calling at once, up to ${MAX_STATIONS}`}
+        placeholderTextColor="#64748b"
+        autoCapitalize="characters"
+        autoCorrect={false}
+        multiline
+      />
+      {stations.map((station, index) => (
+        <View key={`${station.text}-${index}`} style={styles.stationRow}>
+          <Text style={styles.stationCall}>{station.text}</Text>
+          <Text style={styles.stationDetail}>
+            {station.wpm} WPM · {station.frequency} Hz · +{(station.startTime / 1000).toFixed(1)} s · {Math.round(station.level * 100)}% · {formatPan(station.pan)}
+          </Text>
+        </View>
+      ))}
+      <TouchableOpacity
+        style={[styles.button, isDisabled && styles.buttonDisabled]}
+        onPress={handlePress}
+        disabled={isDisabled}
+        activeOpacity={0.7}
+      >
+        {isDownloading ? (
+          <ActivityIndicator color="#f8fafc" size="small" />
+        ) : (
+          <Text style={styles.icon}>🎧</Text>
+        )}
+        <Text style={[styles.buttonText, isDisabled && styles.buttonTextDisabled]}>
+          {isDownloading ? `Mixing... ${Math.round(progress * 100)}%` : 'Download Pileup (stereo)'}
+        </Text>
+      </TouchableOpacity>
+      {isDownloading && (
+        <View style={styles.progressRow}>
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${progress * 100}%` }]} />
+          </View>
+          <TouchableOpacity onPress={handleCancel} style={styles.cancelButton} activeOpacity={0.7}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      <Text style={styles.hint}>
+        Each station gets its own speed, pitch, start, level and stereo position; mix {seed}
+      </Text>
+    </View>
+  );
+});
+
+PileupCard.displayName = 'PileupCard';
+
+export default PileupCard;
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    padding: 20,
+    marginHorizontal: 16,
+    marginTop: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#f8fafc',
+  },
+  mixButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  mixButtonText: {
+    color: '#cbd5e1',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  input: {
+    minHeight: 60,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    color: '#f8fafc',
+    fontSize: 16,
+    padding: 12,
+    marginBottom: 12,
+    textAlignVertical: 'top',
+  },
+  stationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+    gap: 12,
+  },
+  stationCall: {
+    minWidth: 80,
+    color: '#f8fafc',
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: 'monospace',
+  },
+  stationDetail: {
+    flex: 1,
+    color: '#94a3b8',
+    fontSize: 12,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#8b5cf6',
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 16,
+    marginTop: 12,
+    gap: 8,
+  },
+  buttonDisabled: {
+    backgroundColor: 'rgba(139, 92, 246, 0.3)',
+  },
+  icon: {
+    fontSize: 20,
+  },
+  buttonText: {
+    color: '#f8fafc',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonTextDisabled: {
+    color: 'rgba(248, 250, 252, 0.5)',
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 10,
+    gap: 12,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#8b5cf6',
+  },
+  cancelButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  cancelText: {
+    color: '#cbd5e1',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  hint: {
+    marginTop: 10,
+    color: '#64748b',
+    fontSize: 12,
+    textAlign: 'center',
+  },
+});
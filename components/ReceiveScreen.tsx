@@ -0,0 +1,452 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { StyleSheet, Text, View, ScrollView, TouchableOpacity, AppState } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import AudioDecoderService from '../services/AudioDecoderService';
+import MicrophoneService from '../services/MicrophoneService';
+import AbbreviationMeanings from './AbbreviationMeanings';
+import { AudioDecodeResult, DecodedCharacter, LiveDecodeState } from '../types/morse';
+import { MAX_FREQUENCY, MIN_FREQUENCY } from '../utils/ToneWaveform';
+
+interface ReceiveScreenProps {
+  initialFrequency: number;            // Pitch to filter on at first, usually the sidetone's
+  onError: (error: unknown) => void;   // Receives errors from starting or reading the microphone
+  onFileError: (error: unknown) => void;  // Receives errors from opening or decoding a recording
+}
+
+// Pitch change per press of the stepper, in Hz
+const FREQUENCY_STEP = 50;
+
+// Signal levels shown by the meter, in dB below full scale
+const METER_FLOOR = -60;
+
+// Characters decoded with less confidence than these are shown in amber and red
+const UNSURE_CONFIDENCE = 0.75;
+const DOUBTFUL_CONFIDENCE = 0.4;
+
+// MIME types offered by the file picker
+const WAV_TYPES = ['audio/wav', 'audio/x-wav', 'audio/wave', 'audio/vnd.wave'];
+
+const EMPTY_STATE: LiveDecodeState = { text: '', wpm: 0, level: 0, threshold: null, isKeyDown: false };
+
+// Position of a level on the meter, from 0 to 1
+const meterPosition = (level: number): number => {
+  if (level <= 0) return 0;
+  const decibels = 20 * Math.log10(level);
+  return Math.min(1, Math.max(0, (decibels - METER_FLOOR) / -METER_FLOOR));
+};
+
+// Mean confidence of the characters in a decoded file, word spaces left out
+const meanConfidence = (characters: DecodedCharacter[]): number => {
+  const letters = characters.filter(({ character }) => character !== ' ');
+  return letters.length > 0 ? letters.reduce((sum, { confidence }) => sum + confidence, 0) / letters.length : 0;
+};
+
+const ReceiveScreen = React.memo(({ initialFrequency, onError, onFileError }: ReceiveScreenProps) => {
+  const [frequency, setFrequency] = useState(initialFrequency);
+  const [isListening, setIsListening] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [decodeState, setDecodeState] = useState<LiveDecodeState>(EMPTY_STATE);
+  const [isDecodingFile, setIsDecodingFile] = useState(false);
+  const [fileDecode, setFileDecode] = useState<{ name: string; result: AudioDecodeResult } | null>(null);
+  const scrollView = useRef<ScrollView>(null);
+
+  const stopListening = useCallback(async () => {
+    await MicrophoneService.stopListening();
+    setIsListening(false);
+  }, []);
+
+  const startListening = useCallback(async () => {
+    setIsStarting(true);
+    try {
+      setDecodeState(EMPTY_STATE);
+      await MicrophoneService.startListening(frequency, setDecodeState, (error) => {
+        setIsListening(false);
+        onError(error);
+      });
+      // Not listening if the screen closed or the app went to the background while starting
+      setIsListening(MicrophoneService.isListening());
+    } catch (error) {
+      onError(error);
+    } finally {
+      setIsStarting(false);
+    }
+  }, [frequency, onError]);
+
+  // The microphone is released when the screen closes or the app goes to the background
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextAppState) => {
+      if (nextAppState.match(/inactive|background/)) {
+        stopListening();
+      }
+    });
+
+    return () => {
+      subscription.remove();
+      MicrophoneService.stopListening();
+    };
+  }, [stopListening]);
+
+  // Decode a WAV recording picked by the user; the pitch is found automatically
+  const handleOpenFile = useCallback(async () => {
+    setIsDecodingFile(true);
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({ type: WAV_TYPES, copyToCacheDirectory: true });
+      if (picked.canceled || picked.assets.length === 0) return;
+
+      const [asset] = picked.assets;
+      setFileDecode({ name: asset.name, result: await AudioDecoderService.decodeFile(asset.uri) });
+    } catch (error) {
+      onFileError(error);
+    } finally {
+      setIsDecodingFile(false);
+    }
+  }, [onFileError]);
+
+  const handleClear = () => {
+    MicrophoneService.clear();
+    setDecodeState(prev => ({ ...prev, text: '' }));
+  };
+
+  const handleFrequencyStep = (direction: 1 | -1) => {
+    setFrequency(prev => Math.min(MAX_FREQUENCY, Math.max(MIN_FREQUENCY, prev + direction * FREQUENCY_STEP)));
+  };
+
+  const canFilterTone = MicrophoneService.canFilterTone();
+  const isPitchLocked = isListening || isStarting;
+
+  return (
+    <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.label}>Receive</Text>
+          <Text style={styles.wpm}>
+            {decodeState.wpm > 0 ? `${Math.round(decodeState.wpm)} WPM` : '-- WPM'}
+          </Text>
+        </View>
+
+        <View style={styles.textBox}>
+          <ScrollView
+            ref={scrollView}
+            onContentSizeChange={() => scrollView.current?.scrollToEnd({ animated: false })}
+          >
+            <Text style={[styles.decodedText, !decodeState.text && styles.placeholderText]}>
+              {decodeState.text || (isListening ? 'Listening...' : 'Decoded text appears here')}
+            </Text>
+          </ScrollView>
+        </View>
+
+        <AbbreviationMeanings text={decodeState.text} style={styles.liveMeanings} />
+
+        {/* Signal level, with a tick where the key counts as down */}
+        <View style={styles.meterTrack}>
+          <View
+            style={[
+              styles.meterFill,
+              decodeState.isKeyDown && styles.meterFillKeyed,
+              { width: `${meterPosition(decodeState.level) * 100}%` },
+            ]}
+          />
+          {decodeState.threshold !== null && (
+            <View style={[styles.meterThreshold, { left: `${meterPosition(decodeState.threshold) * 100}%` }]} />
+          )}
+        </View>
+
+        {canFilterTone ? (
+          <View style={styles.pitchRow}>
+            <Text style={styles.pitchLabel}>Tone</Text>
+            <TouchableOpacity
+              onPress={() => handleFrequencyStep(-1)}
+              style={[styles.stepButton, (isPitchLocked || frequency <= MIN_FREQUENCY) && styles.buttonDisabled]}
+              activeOpacity={0.7}
+              disabled={isPitchLocked || frequency <= MIN_FREQUENCY}
+            >
+              <Text style={styles.stepButtonText}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.pitchValue}>{frequency} Hz</Text>
+            <TouchableOpacity
+              onPress={() => handleFrequencyStep(1)}
+              style={[styles.stepButton, (isPitchLocked || frequency >= MAX_FREQUENCY) && styles.buttonDisabled]}
+              activeOpacity={0.7}
+              disabled={isPitchLocked || frequency >= MAX_FREQUENCY}
+            >
+              <Text style={styles.stepButtonText}>+</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <View style={styles.levelOnlyNotice}>
+            <Text style={styles.levelOnlyTitle}>Level only</Text>
+            <Text style={styles.levelOnlyText}>
+              This browser records compressed audio, so the decoder follows the overall microphone
+              level instead of the tone's pitch. Other sounds are decoded too; keep them down.
+            </Text>
+          </View>
+        )}
+
+        <View style={styles.actionRow}>
+          <TouchableOpacity
+            style={[styles.listenButton, isListening && styles.listenButtonActive, isStarting && styles.buttonDisabled]}
+            onPress={isListening ? stopListening : startListening}
+            disabled={isStarting}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.icon}>{isListening ? '⏹' : '🎙'}</Text>
+            <Text style={styles.listenButtonText}>{isListening ? 'Stop' : 'Listen'}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.clearButton, !decodeState.text && styles.buttonDisabled]}
+            onPress={handleClear}
+            disabled={!decodeState.text}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.clearButtonText}>Clear</Text>
+          </TouchableOpacity>
+        </View>
+
+        {canFilterTone && (
+          <Text style={styles.hint}>Set the tone to the pitch you hear; change it while stopped</Text>
+        )}
+      </View>
+
+      <View style={[styles.container, styles.fileContainer]}>
+        <View style={styles.header}>
+          <Text style={styles.label}>Recording</Text>
+          <TouchableOpacity
+            style={[styles.clearButton, isDecodingFile && styles.buttonDisabled]}
+            onPress={handleOpenFile}
+            disabled={isDecodingFile}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.clearButtonText}>{isDecodingFile ? 'Decoding...' : 'Open WAV'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {fileDecode ? (
+          <>
+            <Text style={styles.fileInfo} numberOfLines={1}>
+              {fileDecode.name} · {Math.round(fileDecode.result.wpm)} WPM · {Math.round(fileDecode.result.frequency)} Hz
+              {' · '}{Math.round(meanConfidence(fileDecode.result.characters) * 100)}% confidence
+            </Text>
+            <Text style={styles.decodedText}>
+              {fileDecode.result.characters.map(({ character, confidence }, index) => (
+                <Text
+                  key={index}
+                  style={[
+                    confidence < DOUBTFUL_CONFIDENCE
+                      ? styles.doubtfulCharacter
+                      : confidence < UNSURE_CONFIDENCE && styles.unsureCharacter,
+                  ]}
+                >
+                  {character}
+                </Text>
+              ))}
+            </Text>
+            <AbbreviationMeanings text={fileDecode.result.text} style={styles.fileMeanings} />
+            <Text style={styles.hint}>Amber and red characters were harder to time and may be wrong</Text>
+          </>
+        ) : (
+          <Text style={styles.hint}>Decode Morse from a 16-bit PCM WAV recording</Text>
+        )}
+      </View>
+    </ScrollView>
+  );
+});
+
+ReceiveScreen.displayName = 'ReceiveScreen';
+
+export default ReceiveScreen;
+
+const styles = StyleSheet.create({
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingVertical: 24,
+    paddingHorizontal: 16,
+  },
+  container: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    padding: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#f8fafc',
+  },
+  wpm: {
+    fontSize: 18,
+    fontWeight: '800',
+    color: '#f8fafc',
+    fontVariant: ['tabular-nums'],
+  },
+  textBox: {
+    height: 180,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    padding: 12,
+    marginBottom: 16,
+  },
+  liveMeanings: {
+    marginTop: -4,
+    marginBottom: 16,
+  },
+  decodedText: {
+    color: '#f8fafc',
+    fontSize: 20,
+    fontFamily: 'monospace',
+    lineHeight: 28,
+  },
+  fileContainer: {
+    marginTop: 16,
+  },
+  fileInfo: {
+    color: '#94a3b8',
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  fileMeanings: {
+    marginTop: 8,
+  },
+  unsureCharacter: {
+    color: '#fbbf24',
+  },
+  doubtfulCharacter: {
+    color: '#f87171',
+  },
+  placeholderText: {
+    color: '#64748b',
+    fontSize: 16,
+  },
+  meterTrack: {
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    overflow: 'hidden',
+    marginBottom: 20,
+  },
+  meterFill: {
+    height: '100%',
+    backgroundColor: '#475569',
+  },
+  meterFillKeyed: {
+    backgroundColor: '#22c55e',
+  },
+  meterThreshold: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+    backgroundColor: '#f8fafc',
+  },
+  pitchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 16,
+  },
+  pitchLabel: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#94a3b8',
+  },
+  pitchValue: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#f8fafc',
+    minWidth: 80,
+    textAlign: 'center',
+    fontVariant: ['tabular-nums'],
+  },
+  levelOnlyNotice: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(251, 191, 36, 0.4)',
+    backgroundColor: 'rgba(251, 191, 36, 0.08)',
+    padding: 12,
+    marginBottom: 16,
+  },
+  levelOnlyTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#fbbf24',
+    marginBottom: 4,
+  },
+  levelOnlyText: {
+    fontSize: 12,
+    color: '#cbd5e1',
+    lineHeight: 17,
+  },
+  stepButton: {
+    minWidth: 56,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    borderWidth: 1.5,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepButtonText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: '#94a3b8',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  listenButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#3b82f6',
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 16,
+    gap: 8,
+  },
+  listenButtonActive: {
+    backgroundColor: '#ef4444',
+  },
+  listenButtonText: {
+    color: '#f8fafc',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  icon: {
+    fontSize: 20,
+  },
+  clearButton: {
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  clearButtonText: {
+    color: '#cbd5e1',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  hint: {
+    marginTop: 12,
+    color: '#64748b',
+    fontSize: 12,
+    textAlign: 'center',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   View,
   TextInput,
@@ -6,28 +6,149 @@ import {
   TouchableOpacity,
   StyleSheet,
   Animated,
+  ScrollView,
+  Alert,
+  Share,
 } from 'react-native';
 import MorseConverterService from '../services/MorseConverterService';
+import IncrementalConverterService from '../services/IncrementalConverterService';
+import CustomCodeTableService from '../services/CustomCodeTableService';
+import MorseSegmentationService from '../services/MorseSegmentationService';
+import AbbreviationService from '../services/AbbreviationService';
+import { CompressionResult, CustomCodeTable, MorseAlphabetId, MorseCodeStandard, SegmentationCandidate, TimingConfig } from '../types/morse';
+import AbbreviationMeanings from './AbbreviationMeanings';
+
+const ALPHABET_OPTIONS = MorseConverterService.getAlphabets();
+
+const STANDARD_OPTIONS: { id: MorseCodeStandard; name: string }[] = [
+  { id: 'international', name: 'International' },
+  { id: 'american', name: 'American (railroad)' },
+];
+
+type InputMode = 'text' | 'morse';
+
+// Groups that do not decode are guessed at, up to this many per input
+const MAX_GUESSED_GROUPS = 3;
+
+const INPUT_MODE_OPTIONS: { id: InputMode; name: string }[] = [
+  { id: 'text', name: 'Text' },
+  { id: 'morse', name: 'Morse' },
+];
 
 interface TextInputCardProps {
   onMorseCodeChange: (morseCode: string) => void;
+  timingOptions?: Partial<TimingConfig>;
+  codeTableName: string | null;                       // Custom code table to use, null for the standard table
+  onCodeTableChange: (name: string | null) => void;   // Called when the user picks, imports or deletes a table
+  codeStandard: MorseCodeStandard;
+  onCodeStandardChange: (standard: MorseCodeStandard) => void;
 }
 
-export default function TextInputCard({ onMorseCodeChange }: TextInputCardProps) {
+export default function TextInputCard({
+  onMorseCodeChange,
+  timingOptions,
+  codeTableName,
+  onCodeTableChange,
+  codeStandard,
+  onCodeStandardChange,
+}: TextInputCardProps) {
   const [inputText, setInputText] = useState('');
+  const [inputMode, setInputMode] = useState<InputMode>('text');
+  const [treatAsText, setTreatAsText] = useState(false);
+  const [abbreviate, setAbbreviate] = useState(false);
   const [charCount, setCharCount] = useState(0);
   const [wordCount, setWordCount] = useState(0);
   const [clearButtonOpacity] = useState(new Animated.Value(0));
+  const [alphabetId, setAlphabetId] = useState<MorseAlphabetId>(
+    MorseConverterService.getAlphabet().id
+  );
+  // null until the saved tables have been read
+  const [customTables, setCustomTables] = useState<CustomCodeTable[] | null>(null);
+  const [customTableName, setCustomTableName] = useState<string | null>(
+    MorseConverterService.getCustomCodeTable()?.name ?? null
+  );
+  const [showImport, setShowImport] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const [tableError, setTableError] = useState<string | null>(null);
+  const [compression, setCompression] = useState<CompressionResult | null>(null);
+  const [segmentGuesses, setSegmentGuesses] = useState<{ sequence: string; guesses: SegmentationCandidate[] }[]>([]);
 
-  // Debounced conversion with 50ms delay
+  // Load saved custom code tables
+  useEffect(() => {
+    CustomCodeTableService.loadTables()
+      .then(setCustomTables)
+      .catch((error) => {
+        console.error('[TextInputCard] Failed to load code tables:', error);
+        setCustomTables([]);
+      });
+  }, []);
+
+  // Apply the chosen table once the saved tables are loaded; a deleted table falls back to the standard one
+  useEffect(() => {
+    if (!customTables) return;
+    const table = customTables.find(saved => saved.name === codeTableName) ?? null;
+    MorseConverterService.setCustomCodeTable(table);
+    setCustomTableName(table ? table.name : null);
+  }, [codeTableName, customTables]);
+
+  // Morse pasted into the text box is taken as Morse unless the user asks to encode it as text
+  const detectedMorse = useMemo(
+    () => inputMode === 'text' && !treatAsText && MorseConverterService.looksLikeMorse(inputText),
+    [inputText, inputMode, treatAsText]
+  );
+  const isMorseInput = inputMode === 'morse' || detectedMorse;
+
+  // Live check of Morse input against the current code table
+  const morseCheck = useMemo(
+    () => (isMorseInput ? MorseConverterService.validateMorse(inputText) : null),
+    [inputText, isMorseInput, alphabetId, codeStandard, customTableName]
+  );
+
+  // Debounced conversion with 50ms delay; only words changed since the last pass are re-encoded
   useEffect(() => {
     const timeoutId = setTimeout(() => {
-      const morseCode = MorseConverterService.textToMorse(inputText);
+      // Optional pass replacing long words with standard abbreviations before encoding
+      const compressed = abbreviate && !isMorseInput
+        ? AbbreviationService.compress(inputText, timingOptions)
+        : null;
+      setCompression(compressed);
+
+      // Morse entered directly is played as written, without decoding and re-encoding
+      const morseCode = isMorseInput
+        ? MorseConverterService.normalizeMorse(inputText)
+        : IncrementalConverterService.textToMorse(compressed ? compressed.text : inputText);
       onMorseCodeChange(morseCode);
+
+      // Groups that do not decode usually mean lost letter gaps; offer the best guesses for each
+      setSegmentGuesses((morseCheck?.unknownSequences ?? [])
+        .slice(0, MAX_GUESSED_GROUPS)
+        .map(({ sequence }) => ({
+          sequence,
+          guesses: MorseSegmentationService.segment(MorseConverterService.normalizeMorse(sequence), 3),
+        }))
+        .filter(({ guesses }) => guesses.length > 0));
     }, 50);
 
     return () => clearTimeout(timeoutId);
-  }, [inputText, onMorseCodeChange]);
+  }, [
+    inputText,
+    isMorseInput,
+    abbreviate,
+    timingOptions,
+    morseCheck,
+    alphabetId,
+    codeStandard,
+    customTableName,
+    onMorseCodeChange,
+  ]);
+
+  // Offer detection again once the text box has been emptied
+  useEffect(() => {
+    if (inputText.length === 0) {
+      setTreatAsText(false);
+    }
+  }, [inputText]);
 
   // Update character and word counts
   useEffect(() => {
@@ -53,6 +174,109 @@ export default function TextInputCard({ onMorseCodeChange }: TextInputCardProps)
     setInputText(text);
   }, []);
 
+  const handleInputModeChange = useCallback((mode: InputMode) => {
+    if (mode === inputMode) return;
+
+    // Carry the current message over to the other mode; detected Morse already is Morse
+    if (mode === 'morse' && !detectedMorse) {
+      setInputText(MorseConverterService.textToMorse(inputText));
+    } else if (mode === 'text') {
+      setInputText(MorseConverterService.validateMorse(inputText).text);
+    }
+    setInputMode(mode);
+  }, [inputMode, inputText, detectedMorse]);
+
+  const handleDecodeDetected = useCallback(() => {
+    if (!morseCheck) return;
+    setInputText(morseCheck.text);
+  }, [morseCheck]);
+
+  const handleEncodeDetectedAsText = useCallback(() => {
+    setTreatAsText(true);
+  }, []);
+
+  const renderSegmentGuesses = () => {
+    if (segmentGuesses.length === 0) return null;
+
+    return segmentGuesses.map(({ sequence, guesses }, index) => (
+      <Text key={index} style={styles.decodedText} numberOfLines={2}>
+        {sequence} may read: {guesses.map(guess => guess.text).join('  ·  ')}
+      </Text>
+    ));
+  };
+
+  const renderHighlightedMorse = () => {
+    if (!morseCheck) return null;
+
+    const segments: React.ReactNode[] = [];
+    let offset = 0;
+    morseCheck.unknownSequences.forEach(({ sequence, position }, index) => {
+      segments.push(inputText.slice(offset, position));
+      segments.push(
+        <Text key={index} style={styles.invalidSequence}>{sequence}</Text>
+      );
+      offset = position + sequence.length;
+    });
+    segments.push(inputText.slice(offset));
+    return segments;
+  };
+
+  const handleAlphabetChange = useCallback((id: MorseAlphabetId) => {
+    MorseConverterService.setAlphabet(id);
+    setAlphabetId(id);
+  }, []);
+
+  const handleCustomTableChange = useCallback((table: CustomCodeTable | null) => {
+    setTableError(null);
+    onCodeTableChange(table ? table.name : null);
+  }, [onCodeTableChange]);
+
+  const handleImport = useCallback(async () => {
+    try {
+      const table = CustomCodeTableService.parseTable(importText);
+      await CustomCodeTableService.saveTable(table);
+      setCustomTables(await CustomCodeTableService.loadTables());
+      handleCustomTableChange(table);
+      setImportText('');
+      setImportError(null);
+      setShowImport(false);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Could not import code table');
+    }
+  }, [importText, handleCustomTableChange]);
+
+  const activeTable = customTables?.find(table => table.name === customTableName) ?? null;
+
+  // Shared as JSON text, which can be pasted into Import on another device
+  const handleShareTable = useCallback(async () => {
+    if (!activeTable) return;
+    try {
+      await Share.share({ title: activeTable.name, message: CustomCodeTableService.serializeTable(activeTable) });
+    } catch (error) {
+      setTableError(error instanceof Error ? error.message : 'Could not share code table');
+    }
+  }, [activeTable]);
+
+  const handleDeleteTable = useCallback(() => {
+    if (!activeTable) return;
+    Alert.alert('Delete code table', `Delete "${activeTable.name}" from this device?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await CustomCodeTableService.deleteTable(activeTable.name);
+            setCustomTables(await CustomCodeTableService.loadTables());
+            handleCustomTableChange(null);
+          } catch (error) {
+            setTableError(error instanceof Error ? error.message : 'Could not delete code table');
+          }
+        },
+      },
+    ]);
+  }, [activeTable, handleCustomTableChange]);
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
@@ -70,19 +294,240 @@ export default function TextInputCard({ onMorseCodeChange }: TextInputCardProps)
         )}
       </View>
 
+      <View style={[styles.alphabetOptions, styles.standardOptions]}>
+        {INPUT_MODE_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.id}
+            onPress={() => handleInputModeChange(option.id)}
+            style={[
+              styles.alphabetButton,
+              inputMode === option.id && styles.alphabetButtonActive,
+            ]}
+            activeOpacity={0.7}
+          >
+            <Text
+              style={[
+                styles.alphabetButtonText,
+                inputMode === option.id && styles.alphabetButtonTextActive,
+              ]}
+            >
+              {option.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        {inputMode === 'text' && (
+          <TouchableOpacity
+            onPress={() => setAbbreviate(prev => !prev)}
+            style={[styles.alphabetButton, abbreviate && styles.alphabetButtonActive]}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.alphabetButtonText, abbreviate && styles.alphabetButtonTextActive]}>
+              Abbreviate
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={[styles.alphabetOptions, styles.standardOptions]}>
+        {STANDARD_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.id}
+            onPress={() => onCodeStandardChange(option.id)}
+            style={[
+              styles.alphabetButton,
+              codeStandard === option.id && styles.alphabetButtonActive,
+            ]}
+            activeOpacity={0.7}
+          >
+            <Text
+              style={[
+                styles.alphabetButtonText,
+                codeStandard === option.id && styles.alphabetButtonTextActive,
+              ]}
+            >
+              {option.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {codeStandard === 'international' && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.alphabetOptions}
+          style={styles.alphabetScroll}
+        >
+          {ALPHABET_OPTIONS.map((alphabet) => (
+            <TouchableOpacity
+              key={alphabet.id}
+              onPress={() => handleAlphabetChange(alphabet.id)}
+              style={[
+                styles.alphabetButton,
+                alphabetId === alphabet.id && styles.alphabetButtonActive,
+              ]}
+              activeOpacity={0.7}
+            >
+              <Text
+                style={[
+                  styles.alphabetButtonText,
+                  alphabetId === alphabet.id && styles.alphabetButtonTextActive,
+                ]}
+              >
+                {alphabet.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
+      {codeStandard === 'international' && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.alphabetOptions}
+          style={styles.alphabetScroll}
+        >
+          {[null, ...(customTables ?? [])].map((table) => {
+            const isActive = (table ? table.name : null) === customTableName;
+            return (
+              <TouchableOpacity
+                key={table ? table.name : 'standard'}
+                onPress={() => handleCustomTableChange(table)}
+                style={[styles.alphabetButton, isActive && styles.alphabetButtonActive]}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.alphabetButtonText, isActive && styles.alphabetButtonTextActive]}>
+                  {table ? table.name : 'Standard table'}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+          <TouchableOpacity
+            onPress={() => setShowImport(prev => !prev)}
+            style={[styles.alphabetButton, showImport && styles.alphabetButtonActive]}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.alphabetButtonText, showImport && styles.alphabetButtonTextActive]}>
+              + Import table
+            </Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+
+      {codeStandard === 'international' && activeTable && (
+        <View style={styles.tableActions}>
+          <TouchableOpacity onPress={handleShareTable} style={styles.alphabetButton} activeOpacity={0.7}>
+            <Text style={styles.alphabetButtonText}>Share table</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleDeleteTable} style={styles.alphabetButton} activeOpacity={0.7}>
+            <Text style={[styles.alphabetButtonText, styles.deleteButtonText]}>Delete table</Text>
+          </TouchableOpacity>
+          {tableError && <Text style={styles.importError}>{tableError}</Text>}
+        </View>
+      )}
+
+      {codeStandard === 'international' && showImport && (
+        <View style={styles.importContainer}>
+          <TextInput
+            style={styles.importInput}
+            value={importText}
+            onChangeText={setImportText}
+            placeholder="Paste a shared code table (JSON)..."
+            placeholderTextColor="#64748b"
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {importError && <Text style={styles.importError}>{importError}</Text>}
+          <TouchableOpacity
+            onPress={handleImport}
+            style={[styles.alphabetButton, styles.alphabetButtonActive, styles.importButton]}
+            activeOpacity={0.7}
+            disabled={importText.trim().length === 0}
+          >
+            <Text style={[styles.alphabetButtonText, styles.alphabetButtonTextActive]}>Import</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       <View style={styles.inputContainer}>
         <TextInput
-          style={styles.textInput}
+          style={[styles.textInput, inputMode === 'morse' && styles.morseInput]}
           value={inputText}
           onChangeText={handleTextChange}
-          placeholder="Type text to convert to morse code..."
+          placeholder={inputMode === 'morse'
+            ? 'Type or paste morse code, e.g. .... .. / - .... . .-. .'
+            : 'Type text to convert to morse code...'}
           placeholderTextColor="#64748b"
           multiline
           numberOfLines={4}
           textAlignVertical="top"
+          autoCapitalize={inputMode === 'morse' ? 'none' : 'sentences'}
+          autoCorrect={inputMode !== 'morse'}
         />
       </View>
 
+      {compression && compression.replacements.length > 0 && (
+        <View style={styles.morseCheck}>
+          <Text style={styles.decodedText} numberOfLines={3}>
+            Sent as: {compression.text}
+          </Text>
+          <Text style={styles.savedText}>
+            Saves {(compression.timeSaved / 1000).toFixed(1)} s of {(compression.originalDuration / 1000).toFixed(1)} s
+          </Text>
+        </View>
+      )}
+
+      {detectedMorse && morseCheck && (
+        <View style={styles.detectedBanner}>
+          <Text style={styles.detectedTitle}>This looks like Morse code</Text>
+          <Text style={styles.detectedText} numberOfLines={3}>
+            Reads as: {morseCheck.text}
+          </Text>
+          {renderSegmentGuesses()}
+          <AbbreviationMeanings text={morseCheck.text} />
+          <View style={styles.detectedActions}>
+            <TouchableOpacity
+              onPress={handleDecodeDetected}
+              style={[styles.alphabetButton, styles.alphabetButtonActive]}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.alphabetButtonText, styles.alphabetButtonTextActive]}>
+                Decode to text
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={handleEncodeDetectedAsText}
+              style={styles.alphabetButton}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.alphabetButtonText}>Encode as text</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      {inputMode === 'morse' && morseCheck && inputText.trim().length > 0 && (
+        <View style={styles.morseCheck}>
+          {morseCheck.unknownSequences.length > 0 && (
+            <>
+              <Text style={styles.morseCheckError}>
+                {morseCheck.unknownSequences.length === 1
+                  ? '1 sequence is not in the code table'
+                  : `${morseCheck.unknownSequences.length} sequences are not in the code table`}
+              </Text>
+              <Text style={styles.morsePreview}>{renderHighlightedMorse()}</Text>
+            </>
+          )}
+          <Text style={styles.decodedText} numberOfLines={2}>
+            Reads as: {morseCheck.text}
+          </Text>
+          {renderSegmentGuesses()}
+          <AbbreviationMeanings text={morseCheck.text} />
+        </View>
+      )}
+
       <View style={styles.footer}>
         <Text style={styles.countText}>{charCount} characters</Text>
         {wordCount > 0 && (
@@ -122,6 +567,69 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#cbd5e1',
   },
+  alphabetScroll: {
+    marginBottom: 12,
+  },
+  alphabetOptions: {
+    gap: 8,
+  },
+  standardOptions: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  alphabetButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  alphabetButtonActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  alphabetButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#94a3b8',
+  },
+  alphabetButtonTextActive: {
+    color: '#ffffff',
+  },
+  tableActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  deleteButtonText: {
+    color: '#f87171',
+  },
+  importContainer: {
+    marginBottom: 12,
+    gap: 8,
+  },
+  importInput: {
+    color: '#f8fafc',
+    fontSize: 13,
+    fontFamily: 'monospace',
+    padding: 12,
+    minHeight: 80,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+    textAlignVertical: 'top',
+  },
+  importError: {
+    fontSize: 12,
+    color: '#f87171',
+  },
+  importButton: {
+    alignSelf: 'flex-end',
+  },
   inputContainer: {
     backgroundColor: 'rgba(0, 0, 0, 0.2)',
     borderRadius: 16,
@@ -135,6 +643,60 @@ const styles = StyleSheet.create({
     padding: 16,
     minHeight: 120,
   },
+  morseInput: {
+    fontFamily: 'monospace',
+    letterSpacing: 2,
+  },
+  detectedBanner: {
+    marginBottom: 12,
+    padding: 12,
+    gap: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(59, 130, 246, 0.3)',
+    backgroundColor: 'rgba(59, 130, 246, 0.1)',
+  },
+  detectedTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#f8fafc',
+  },
+  detectedText: {
+    fontSize: 14,
+    color: '#cbd5e1',
+  },
+  detectedActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  morseCheck: {
+    marginBottom: 12,
+    gap: 6,
+  },
+  morseCheckError: {
+    fontSize: 12,
+    color: '#f87171',
+  },
+  morsePreview: {
+    fontSize: 14,
+    fontFamily: 'monospace',
+    letterSpacing: 2,
+    color: '#cbd5e1',
+  },
+  invalidSequence: {
+    color: '#f87171',
+    backgroundColor: 'rgba(248, 113, 113, 0.15)',
+    textDecorationLine: 'underline',
+  },
+  decodedText: {
+    fontSize: 12,
+    color: '#94a3b8',
+  },
+  savedText: {
+    fontSize: 12,
+    color: '#10b981',
+    fontWeight: '500',
+  },
   footer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,104 @@
+import {
+  AbbreviationMatch,
+  AbbreviationReplacement,
+  CompressionResult,
+  TimingConfig,
+} from '../types/morse';
+import IncrementalConverterService from './IncrementalConverterService';
+import { ABBREVIATION_FOR, HAM_ABBREVIATIONS } from './HamAbbreviations';
+
+// Longest phrase in ABBREVIATION_FOR, in words
+const MAX_PHRASE_WORDS = Math.max(...Object.keys(ABBREVIATION_FOR).map(phrase => phrase.split(' ').length));
+
+class AbbreviationService {
+  /**
+   * Look up the meaning of a Q-code or abbreviation
+   * @param abbreviation - e.g. "QTH" or "73", any case
+   * @returns Plain-English meaning, or undefined if unknown
+   */
+  getMeaning(abbreviation: string): string | undefined {
+    return HAM_ABBREVIATIONS[abbreviation.toUpperCase()];
+  }
+
+  /**
+   * Find the Q-codes and abbreviations in a text, such as decoded copy
+   * @param text - Text to scan
+   * @returns Each known abbreviation with its meaning, in text order
+   */
+  findAbbreviations(text: string): AbbreviationMatch[] {
+    const matches: AbbreviationMatch[] = [];
+    for (const { word, index } of this.tokenize(text)) {
+      const meaning = this.getMeaning(word);
+      if (meaning) {
+        matches.push({ abbreviation: word.toUpperCase(), meaning, index });
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Replace words and phrases with their standard abbreviations where that shortens sending time
+   * @param text - Text to compress
+   * @param timing - Base time unit in milliseconds (default: 120), or timing options
+   * @returns Compressed text, what was replaced and the time saved according to morseToTiming
+   */
+  compress(text: string, timing: number | Partial<TimingConfig> = 120): CompressionResult {
+    const words = this.tokenize(text);
+    const replacements: AbbreviationReplacement[] = [];
+    let compressed = '';
+    let copiedUpTo = 0;
+
+    for (let i = 0; i < words.length; i++) {
+      // Try the longest phrase first, so "SEE YOU LATER" wins over "SEE YOU"
+      for (let length = Math.min(MAX_PHRASE_WORDS, words.length - i); length > 0; length--) {
+        const phraseWords = words.slice(i, i + length);
+        const start = phraseWords[0].index;
+        const end = phraseWords[length - 1].index + phraseWords[length - 1].word.length;
+        const original = text.slice(start, end);
+        if (length > 1 && !/^[A-Za-z0-9]+(\s+[A-Za-z0-9]+)*$/.test(original)) {
+          continue;
+        }
+
+        const abbreviation = ABBREVIATION_FOR[phraseWords.map(({ word }) => word.toUpperCase()).join(' ')];
+        if (!abbreviation || this.getDuration(abbreviation, timing) >= this.getDuration(original, timing)) {
+          continue;
+        }
+
+        compressed += text.slice(copiedUpTo, start) + abbreviation;
+        copiedUpTo = end;
+        replacements.push({ original, abbreviation, index: start });
+        i += length - 1;
+        break;
+      }
+    }
+    compressed += text.slice(copiedUpTo);
+
+    const originalDuration = this.getDuration(text, timing);
+    const compressedDuration = this.getDuration(compressed, timing);
+    return {
+      text: compressed,
+      replacements,
+      originalDuration,
+      compressedDuration,
+      timeSaved: originalDuration - compressedDuration,
+    };
+  }
+
+  /**
+   * Sending time of a text in milliseconds
+   * Goes through the incremental converter, so words already timed on an earlier keystroke cost a lookup
+   */
+  private getDuration(text: string, timing: number | Partial<TimingConfig>): number {
+    return IncrementalConverterService.getDuration(IncrementalConverterService.textToMorse(text), timing);
+  }
+
+  /**
+   * Split text into words of letters and digits with their offsets
+   */
+  private tokenize(text: string): { word: string; index: number }[] {
+    return Array.from(text.matchAll(/[A-Za-z0-9]+/g), match => ({ word: match[0], index: match.index ?? 0 }));
+  }
+}
+
+// Export singleton instance
+export default new AbbreviationService();
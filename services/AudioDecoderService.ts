@@ -0,0 +1,553 @@
+import { File } from 'expo-file-system/next';
+import { AudioDecodeOptions, AudioDecodeResult, DecodedCharacter, KeyingRun, LiveDecodeState } from '../types/morse';
+import { createToneMeter, detectToneFrequency } from '../utils/ToneDetector';
+import { pcmToSamples, readWavHeader, WavAudio } from '../utils/WavReader';
+import MorseConverterService, { UNKNOWN_CHARACTER } from './MorseConverterService';
+
+// Message of the error thrown when no keyed tone can be told apart from the background
+export const NO_SIGNAL = 'No Morse signal found';
+
+// Start of a file read to find the WAV header, in bytes
+const MAX_HEADER_SIZE = 65536;
+
+// Audio read from a file at a time, in seconds
+const READ_BLOCK_SECONDS = 1;
+
+// Weakest tone level treated as a signal (about -60 dB below full scale)
+const MIN_SIGNAL_LEVEL = 0.001;
+
+// Keyed tone must be at least this many times the background level
+const MIN_SIGNAL_RATIO = 3;
+
+// Hysteresis around the midpoint between background and tone, as a fraction of the gap
+// between them, so noise on the level does not chop one element into several
+const KEY_DOWN_LEVEL = 0.6;
+const KEY_UP_LEVEL = 0.4;
+
+// Marks and spaces shorter than this are noise, in milliseconds
+const GLITCH_DURATION = 6;
+
+// Two groups of durations must be this far apart to count as different elements or gaps
+const MIN_CLUSTER_RATIO = 1.6;
+
+// Letter and word gaps are told apart at this many units when all gaps look alike
+const WORD_GAP_UNITS = 5;
+
+// Lengths of a dah and of a word gap in units
+const DAH_UNITS = 3;
+const WORD_GAP_LENGTH = 7;
+
+// PARIS is 50 units long, so the unit is 1200 / WPM milliseconds
+const PARIS_UNIT_TIME = 1200;
+
+// Recent audio the live threshold is picked from, in milliseconds
+const LIVE_HISTORY = 10000;
+
+// Runs kept for timing the live signal; older characters are fixed in the text
+const MAX_LIVE_RUNS = 300;
+
+// Pauses are cut to this many units so they do not stretch the word gap statistics;
+// long enough to keep Farnsworth word gaps apart from letter gaps
+const PAUSE_UNITS = 20;
+
+interface KeyingThreshold {
+  keyDown: number;  // Level at which a mark starts
+  keyUp: number;    // Level at which it ends
+}
+
+// Live decoder fed with tone levels, such as a microphone's metering
+export interface LevelDecoder {
+  push: (levels: ArrayLike<number>) => LiveDecodeState;  // Takes the next levels, returns what has been heard so far
+  clear: () => void;                                      // Forgets the text heard so far
+}
+
+// Live decoder fed with audio as it arrives
+export interface LiveDecoder {
+  interval: number;                                       // Time between tone levels in milliseconds
+  push: (samples: Float32Array) => LiveDecodeState;       // Takes the next samples, returns what has been heard so far
+  clear: () => void;                                      // Forgets the text heard so far
+}
+
+interface DurationClusters {
+  low: number;      // Mean of the shorter group
+  high: number;     // Mean of the longer group
+  split: number;    // Boundary between the groups
+}
+
+class AudioDecoderService {
+  /**
+   * Decode Morse from a 16-bit PCM WAV file
+   * @param uri - Location of the file
+   * @param options - Pitch to decode, found automatically if left out
+   * @returns Decoded text with a confidence for each character, the speed and the pitch
+   */
+  async decodeFile(uri: string, options: AudioDecodeOptions = {}): Promise<AudioDecodeResult> {
+    const audio = await this.readWavFile(uri);
+    return this.decodeSamples(audio.samples, audio.sampleRate, options);
+  }
+
+  /**
+   * Decode Morse from mono samples
+   * The level of the tone is followed with a Goertzel filter, split into marks and spaces at
+   * a threshold between the background and the tone, and the marks and spaces are sorted
+   * into dits, dahs and gaps by their lengths
+   * @param samples - Samples from -1 to 1
+   * @param sampleRate - Sample rate in Hz
+   * @param options - Pitch to decode, found automatically if left out
+   * @returns Decoded text with a confidence for each character, the speed and the pitch
+   */
+  decodeSamples(samples: Float32Array, sampleRate: number, options: AudioDecodeOptions = {}): AudioDecodeResult {
+    const frequency = options.frequency ?? detectToneFrequency(samples, sampleRate);
+    if (frequency === null) {
+      throw new Error(NO_SIGNAL);
+    }
+
+    const meter = createToneMeter(frequency, sampleRate);
+    const levels = meter.push(samples);
+    const threshold = this.findThreshold(levels);
+    if (!threshold) {
+      throw new Error(NO_SIGNAL);
+    }
+
+    const runs = this.levelsToRuns(levels, meter.interval, threshold);
+    return { ...this.decodeRuns(runs), frequency };
+  }
+
+  /**
+   * Pick the levels at which the key is taken to go down and up
+   * The levels are split into a background group and a tone group; the thresholds sit
+   * either side of the midpoint between them
+   * @param levels - Tone levels over time
+   * @returns Thresholds, or null if no keyed tone stands out from the background
+   */
+  findThreshold(levels: ArrayLike<number>): KeyingThreshold | null {
+    if (levels.length === 0) {
+      return null;
+    }
+
+    let background = Infinity;
+    let tone = 0;
+    for (let i = 0; i < levels.length; i++) {
+      background = Math.min(background, levels[i]);
+      tone = Math.max(tone, levels[i]);
+    }
+
+    // Two-means on the levels: each group's mean moves until the split settles
+    for (let iteration = 0; iteration < 20; iteration++) {
+      const split = (background + tone) / 2;
+      let lowSum = 0;
+      let lowCount = 0;
+      let highSum = 0;
+      let highCount = 0;
+      for (let i = 0; i < levels.length; i++) {
+        if (levels[i] < split) {
+          lowSum += levels[i];
+          lowCount++;
+        } else {
+          highSum += levels[i];
+          highCount++;
+        }
+      }
+      if (lowCount === 0 || highCount === 0) break;
+      background = lowSum / lowCount;
+      tone = highSum / highCount;
+    }
+
+    if (tone < MIN_SIGNAL_LEVEL || tone < background * MIN_SIGNAL_RATIO) {
+      return null;
+    }
+    return {
+      keyDown: background + (tone - background) * KEY_DOWN_LEVEL,
+      keyUp: background + (tone - background) * KEY_UP_LEVEL,
+    };
+  }
+
+  /**
+   * Turn tone levels into marks and spaces
+   * Silence before the first mark and after the last is dropped, and glitches shorter than
+   * a few milliseconds are absorbed into their neighbours
+   * @param levels - Tone levels over time
+   * @param interval - Time between levels in milliseconds
+   * @param threshold - Levels at which the key goes down and up
+   * @returns Alternating marks and spaces, starting and ending with a mark
+   */
+  levelsToRuns(levels: ArrayLike<number>, interval: number, threshold: KeyingThreshold): KeyingRun[] {
+    const runs: KeyingRun[] = [];
+    let isMark = false;
+    let count = 0;
+    for (let i = 0; i < levels.length; i++) {
+      const keyed: boolean = isMark ? levels[i] >= threshold.keyUp : levels[i] >= threshold.keyDown;
+      if (keyed !== isMark && count > 0) {
+        runs.push({ isMark, duration: count * interval });
+        count = 0;
+      }
+      isMark = keyed;
+      count++;
+    }
+    if (count > 0) {
+      runs.push({ isMark, duration: count * interval });
+    }
+
+    while (runs.length > 0 && !runs[0].isMark) runs.shift();
+    while (runs.length > 0 && !runs[runs.length - 1].isMark) runs.pop();
+
+    // A glitch joins the runs either side of it, which are of the other kind
+    for (let i = 1; i < runs.length - 1;) {
+      if (runs[i].duration < GLITCH_DURATION) {
+        runs[i - 1].duration += runs[i].duration + runs[i + 1].duration;
+        runs.splice(i, 2);
+      } else {
+        i++;
+      }
+    }
+
+    return runs;
+  }
+
+  /**
+   * Decode alternating marks and spaces
+   * Marks are sorted into dits and dahs, and spaces into element, letter and word gaps, by
+   * splitting their lengths into groups; each character's confidence is how far its closest
+   * call was from the boundary between groups. Runs may end with the space being heard: it
+   * ends the last character once it is longer than an element gap, and until then that
+   * character is left out
+   * @param runs - Marks and spaces with their lengths, starting with a mark
+   * @returns Decoded text with a confidence for each character, and the speed
+   */
+  decodeRuns(runs: KeyingRun[]): Omit<AudioDecodeResult, 'frequency'> {
+    const marks = runs.filter(run => run.isMark).map(run => run.duration);
+    const gaps = runs.filter(run => !run.isMark).map(run => run.duration);
+    if (marks.length === 0) {
+      return { text: '', morse: '', characters: [], wpm: 0 };
+    }
+
+    // Dits and dahs; when all marks are alike, the shortest gaps tell which they are
+    let ditMean: number;
+    let dahMean: number;
+    const markClusters = this.splitDurations(marks);
+    if (markClusters) {
+      ditMean = markClusters.low;
+      dahMean = markClusters.high;
+    } else {
+      const markMean = this.mean(marks);
+      const shortestGap = gaps.length > 0 ? gaps.reduce((min, gap) => Math.min(min, gap)) : markMean;
+      const areDahs = markMean > 2 * shortestGap;
+      ditMean = areDahs ? markMean / DAH_UNITS : markMean;
+      dahMean = areDahs ? markMean : markMean * DAH_UNITS;
+    }
+    const markSplit = Math.sqrt(ditMean * dahMean);
+
+    // Weighting and the tone's ramps lengthen marks by what they take from the gaps, so a mark
+    // and an element gap always add up to whole units; without element gaps, averaging the dit
+    // and dah estimates keeps the unit close
+    const elementGaps = gaps.filter(gap => gap < markSplit);
+    const elementGapMean = elementGaps.length > 0 ? this.mean(elementGaps) : null;
+    const unit = elementGapMean !== null
+      ? ((ditMean + elementGapMean) / 2 + (dahMean + elementGapMean) / (DAH_UNITS + 1)) / 2
+      : (ditMean + dahMean / DAH_UNITS) / 2;
+    const wpm = Math.round((PARIS_UNIT_TIME / unit) * 10) / 10;
+
+    // Letter and word gaps, told apart among the gaps longer than an element gap
+    const longGaps = gaps.filter(gap => gap >= markSplit);
+    const gapClusters = this.splitDurations(longGaps);
+    const wordSplit = gapClusters ? gapClusters.split : WORD_GAP_UNITS * unit;
+
+    const typical = (values: number[], fallback: number) => (values.length > 0 ? this.mean(values) : fallback);
+    const letterGapMean = typical(longGaps.filter(gap => gap < wordSplit), DAH_UNITS * unit);
+    const wordGapMean = typical(longGaps.filter(gap => gap >= wordSplit), WORD_GAP_LENGTH * unit);
+
+    const decodingTable = MorseConverterService.getDecodingTable();
+    const characters: DecodedCharacter[] = [];
+    const letters: string[][] = [[]];
+    let code = '';
+    let confidence = 1;
+
+    const endCharacter = () => {
+      const character = decodingTable[code];
+      characters.push({
+        character: character ?? UNKNOWN_CHARACTER,
+        morse: code,
+        confidence: character ? Math.round(confidence * 100) / 100 : 0,
+      });
+      letters[letters.length - 1].push(code);
+      code = '';
+      confidence = 1;
+    };
+
+    for (const run of runs) {
+      if (run.isMark) {
+        const isDah = run.duration >= markSplit;
+        code += isDah ? '-' : '.';
+        confidence = Math.min(confidence, this.margin(run.duration, markSplit, isDah ? dahMean : ditMean));
+        continue;
+      }
+
+      if (run.duration < markSplit) {
+        confidence = Math.min(confidence, this.margin(run.duration, markSplit, elementGapMean ?? unit));
+      } else if (run.duration < wordSplit) {
+        confidence = Math.min(confidence, this.margin(run.duration, markSplit, letterGapMean));
+        endCharacter();
+      } else {
+        const wordConfidence = this.margin(run.duration, wordSplit, wordGapMean);
+        confidence = Math.min(confidence, this.margin(run.duration, markSplit, letterGapMean));
+        endCharacter();
+        characters.push({ character: ' ', morse: '/', confidence: Math.round(wordConfidence * 100) / 100 });
+        letters.push([]);
+      }
+    }
+    if (runs[runs.length - 1].isMark) {
+      endCharacter();
+    }
+
+    return {
+      text: characters.map(entry => entry.character).join(''),
+      morse: letters.map(word => word.join(' ')).join(' / '),
+      characters,
+      wpm,
+    };
+  }
+
+  /**
+   * Create a decoder following one tone through audio that arrives in pieces
+   * @param frequency - Pitch to decode in Hz
+   * @param sampleRate - Sample rate in Hz
+   * @returns Decoder taking mono samples in order
+   */
+  createLiveDecoder(frequency: number, sampleRate: number): LiveDecoder {
+    const meter = createToneMeter(frequency, sampleRate);
+    const decoder = this.createLevelDecoder(meter.interval);
+    return {
+      interval: meter.interval,
+      push: (samples) => decoder.push(meter.push(samples)),
+      clear: decoder.clear,
+    };
+  }
+
+  /**
+   * Create a decoder turning tone levels into text as they arrive
+   * The threshold follows the last few seconds of levels, so the decoder settles on a new
+   * signal and copes with fading; characters appear once the gap after them is long enough
+   * to end them, and a space once it has grown into a word gap
+   * @param interval - Time between levels in milliseconds
+   * @returns Decoder taking levels in order
+   */
+  createLevelDecoder(interval: number): LevelDecoder {
+    const history = new Float64Array(Math.max(1, Math.round(LIVE_HISTORY / interval)));
+    let historyLength = 0;
+    let historyIndex = 0;
+
+    let text = '';
+    let runs: KeyingRun[] = [];
+    let current: KeyingRun = { isMark: false, duration: 0 };
+    let state: LiveDecodeState = { text: '', wpm: 0, level: 0, threshold: null, isKeyDown: false };
+
+    // A pause counts as at most PAUSE_UNITS once the speed is known
+    const clampGap = (run: KeyingRun): KeyingRun =>
+      !run.isMark && state.wpm > 0
+        ? { isMark: false, duration: Math.min(run.duration, (PAUSE_UNITS * PARIS_UNIT_TIME) / state.wpm) }
+        : run;
+
+    // Close the run being heard; a glitch instead goes back into the run before it
+    const endRun = () => {
+      if (current.duration < GLITCH_DURATION) {
+        const previous = runs.pop();
+        current = previous
+          ? { isMark: previous.isMark, duration: previous.duration + current.duration }
+          : { isMark: !current.isMark, duration: 0 };
+        return;
+      }
+      // Silence before the first mark is not part of the text
+      if (current.isMark || runs.length > 0) {
+        runs.push(clampGap(current));
+      }
+      current = { isMark: !current.isMark, duration: 0 };
+    };
+
+    // Fix the oldest character in the text once enough runs are kept to time the signal
+    const settle = () => {
+      while (runs.length > MAX_LIVE_RUNS) {
+        const { characters } = this.decodeRuns(runs);
+        // Keying that never pauses for a letter gap is dropped one element at a time
+        if (characters.length === 0) {
+          runs = runs.slice(2);
+          continue;
+        }
+        text += characters[0].character;
+        if (characters[1]?.character === ' ') {
+          text += ' ';
+        }
+        runs = runs.slice(characters[0].morse.length * 2);
+      }
+    };
+
+    const push = (levels: ArrayLike<number>): LiveDecodeState => {
+      if (levels.length === 0) {
+        return state;
+      }
+
+      for (let i = 0; i < levels.length; i++) {
+        history[historyIndex] = levels[i];
+        historyIndex = (historyIndex + 1) % history.length;
+        historyLength = Math.min(historyLength + 1, history.length);
+      }
+      const threshold = this.findThreshold(history.subarray(0, historyLength));
+
+      // When a signal first stands out, the levels already heard are keyed again so the
+      // elements sent before the threshold was known are not lost
+      let keying: ArrayLike<number> = levels;
+      if (threshold && !state.threshold && runs.length === 0) {
+        const heardSoFar = new Float64Array(historyLength);
+        heardSoFar.set(history.subarray(historyIndex, historyLength));
+        heardSoFar.set(history.subarray(0, historyIndex), historyLength - historyIndex);
+        keying = heardSoFar;
+        current = { isMark: false, duration: 0 };
+      }
+
+      for (let i = 0; i < keying.length; i++) {
+        const keyed = threshold !== null && keying[i] >= (current.isMark ? threshold.keyUp : threshold.keyDown);
+        if (keyed !== current.isMark) {
+          endRun();
+        }
+        current.duration += interval;
+      }
+      settle();
+
+      // The space being heard can end the last character or word
+      const heard = current.isMark || runs.length === 0 ? runs : [...runs, clampGap(current)];
+      const decoded = heard.length > 0 ? this.decodeRuns(heard) : null;
+      state = {
+        text: text + (decoded?.text ?? ''),
+        wpm: decoded?.wpm || state.wpm,
+        level: levels[levels.length - 1],
+        threshold: threshold?.keyDown ?? null,
+        isKeyDown: current.isMark,
+      };
+      return state;
+    };
+
+    const clear = () => {
+      text = '';
+      runs = [];
+      state = { ...state, text: '' };
+    };
+
+    return { push, clear };
+  }
+
+  /**
+   * Read a 16-bit PCM WAV file a block at a time, so a long recording does not hold up the UI
+   * @param uri - Location of the file
+   * @returns Sample rate and mono samples
+   */
+  private async readWavFile(uri: string): Promise<WavAudio> {
+    let handle: ReturnType<File['open']>;
+    try {
+      handle = new File(uri).open();
+    } catch (error) {
+      console.error('[AudioDecoderService] Failed to open audio file:', error);
+      throw new Error('Could not read audio file');
+    }
+
+    try {
+      const size = handle.size ?? 0;
+      const format = readWavHeader(this.readBlock(handle, 0, Math.min(size, MAX_HEADER_SIZE)));
+
+      const frameSize = 2 * format.channels;
+      // Recorders stopped mid-write leave a size larger than the file
+      const frames = Math.floor(Math.min(format.dataSize, size - format.dataOffset) / frameSize);
+      const blockSize = Math.max(1, Math.round(format.sampleRate * READ_BLOCK_SECONDS)) * frameSize;
+      const samples = new Float32Array(frames);
+
+      for (let from = 0; from < frames * frameSize; from += blockSize) {
+        const bytes = this.readBlock(handle, format.dataOffset + from, Math.min(blockSize, frames * frameSize - from));
+        samples.set(pcmToSamples(bytes, format.channels), from / frameSize);
+
+        // Let the UI update before the next block
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+
+      return { sampleRate: format.sampleRate, channels: format.channels, samples };
+    } finally {
+      handle.close();
+    }
+  }
+
+  /**
+   * Read bytes from an open file
+   * @param handle - Open file
+   * @param offset - Byte to start at
+   * @param length - Bytes to read
+   * @returns The bytes, fewer if the file ends first
+   */
+  private readBlock(handle: ReturnType<File['open']>, offset: number, length: number): Uint8Array {
+    try {
+      handle.offset = offset;
+      return handle.readBytes(length);
+    } catch (error) {
+      console.error('[AudioDecoderService] Failed to read audio file:', error);
+      throw new Error('Could not read audio file');
+    }
+  }
+
+  /**
+   * Split durations into a shorter and a longer group (two-means on a log scale)
+   * Every split of the sorted durations is tried, so a few outliers such as long pauses
+   * cannot drag the boundary away from the gap between the main groups
+   * @param durations - Durations in milliseconds
+   * @returns The groups, or null if the durations are all alike
+   */
+  private splitDurations(durations: number[]): DurationClusters | null {
+    if (durations.length < 2) {
+      return null;
+    }
+
+    const logs = durations.map(duration => Math.log(duration)).sort((a, b) => a - b);
+    const totalSum = logs.reduce((sum, value) => sum + value, 0);
+    const totalSquares = logs.reduce((sum, value) => sum + value * value, 0);
+
+    let low = logs[0];
+    let high = logs[logs.length - 1];
+    let bestSpread = Infinity;
+    let lowSum = 0;
+    let lowSquares = 0;
+    for (let count = 1; count < logs.length; count++) {
+      lowSum += logs[count - 1];
+      lowSquares += logs[count - 1] * logs[count - 1];
+      const highCount = logs.length - count;
+      const highSum = totalSum - lowSum;
+      const spread = lowSquares - (lowSum * lowSum) / count + (totalSquares - lowSquares) - (highSum * highSum) / highCount;
+      if (spread < bestSpread) {
+        bestSpread = spread;
+        low = lowSum / count;
+        high = highSum / highCount;
+      }
+    }
+
+    if (high - low < Math.log(MIN_CLUSTER_RATIO)) {
+      return null;
+    }
+    return { low: Math.exp(low), high: Math.exp(high), split: Math.exp((low + high) / 2) };
+  }
+
+  /**
+   * How clearly a duration falls on its side of a boundary
+   * @returns 0 on the boundary, 1 at or beyond the typical duration of its group
+   */
+  private margin(duration: number, split: number, typical: number): number {
+    const range = Math.abs(Math.log(typical / split));
+    if (range < 1e-6) {
+      return 1;
+    }
+    return Math.min(1, Math.abs(Math.log(duration / split)) / range);
+  }
+
+  /**
+   * Average of a list of numbers
+   */
+  private mean(values: number[]): number {
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+  }
+}
+
+// Export singleton instance
+export default new AudioDecoderService();
@@ -1,35 +1,165 @@
-import { Audio } from 'expo-av';
+import { Audio, AVPlaybackStatus } from 'expo-av';
 import * as FileSystem from 'expo-file-system';
-import { MorseTiming } from '../types/morse';
+import { File } from 'expo-file-system/next';
+import { AudioExportOptions, ChannelSettings, MixTrack, MorseTiming, ToneEnvelope, ToneSettings } from '../types/morse';
+import { ChannelProcessor, createChannel, validateChannelSettings } from '../utils/ChannelSimulator';
+import { formatWpm, isMarkTiming, isValidWpm, MAX_WPM, MIN_WPM } from '../utils/TimingUtils';
+import {
+  DEFAULT_TONE_ENVELOPE,
+  envelopeGain,
+  isValidRampTime,
+  MAX_RAMP_TIME,
+  MIN_RAMP_TIME,
+} from '../utils/ToneEnvelope';
+import {
+  buildWavetable,
+  DEFAULT_TONE_SETTINGS,
+  isValidFrequency,
+  isValidVolume,
+  MAX_FREQUENCY,
+  MAX_VOLUME,
+  MIN_FREQUENCY,
+  MIN_VOLUME,
+  sampleWavetable,
+  TONE_WAVEFORMS,
+} from '../utils/ToneWaveform';
+
+// Sample rate of exported WAV files
+const FILE_SAMPLE_RATE = 44100;
+
+// Sample rate of the buffers played in the app; plenty for a single tone and half the memory
+const PLAYBACK_SAMPLE_RATE = 22050;
+
+// Peak level at full volume, leaving headroom to avoid clipping
+const FULL_SCALE_AMPLITUDE = 0.6;
+
+// Playback buffers are cut at the first gap after this much audio, so long texts never
+// need one huge buffer; the next buffer is loaded while the current one plays
+const CHUNK_DURATION = 30000;
+
+// Samples rendered and written per step of a file export (about one second)
+const EXPORT_BLOCK_SAMPLES = FILE_SAMPLE_RATE;
+
+// Message of the error thrown when an export is cancelled
+export const EXPORT_CANCELLED = 'Audio export cancelled';
+
+// How often the player reports its position while playing, in milliseconds
+const STATUS_UPDATE_INTERVAL = 50;
+
+// The finish report can arrive a status interval late, so once a chunk is this close to
+// its end the next one is started from a timer, in milliseconds
+const HANDOFF_LEAD = 2 * STATUS_UPDATE_INTERVAL;
 
 interface PlaybackState {
   isPlaying: boolean;
   isPaused: boolean;
-  currentIndex: number;
-  startTime: number;
-  pausedTime: number;
+  position: number;     // Position in the message in milliseconds, measured at anchorTime
+  anchorTime: number;   // Clock time at which position was measured
   totalDuration: number;
 }
 
+interface SampleRenderer {
+  totalSamples: number;   // Samples per channel
+  render: (from: number, to: number) => Int16Array;  // Ranges must be requested in order; stereo is interleaved
+}
+
+interface AudioChunk {
+  startTime: number;    // Offset of the chunk in the message in milliseconds
+  duration: number;
+  timings: MorseTiming[];
+}
+
 class AudioService {
   private sound: Audio.Sound | null = null;
+  private nextSound: Promise<Audio.Sound | null> | null = null;
   private playbackState: PlaybackState = {
     isPlaying: false,
     isPaused: false,
-    currentIndex: 0,
-    startTime: 0,
-    pausedTime: 0,
+    position: 0,
+    anchorTime: 0,
     totalDuration: 0,
   };
-  private accumulatedDuration: number = 0;
-  private currentItemStartTime: number = 0;
+  private chunks: AudioChunk[] = [];
+  private chunkIndex = 0;
+  private handoffTimer: ReturnType<typeof setTimeout> | null = null;
+  // Chunk whose successor has been started, so the timer and the finish report start it only once
+  private handedOffFrom = -1;
+  // Bumped on every new playback and cleanup so late callbacks from old sounds are ignored
+  private session = 0;
   private progressInterval: NodeJS.Timeout | null = null;
-  private playbackTimeout: NodeJS.Timeout | null = null;
   private onProgressCallback: ((progress: number) => void) | null = null;
   private onCompleteCallback: (() => void) | null = null;
-  private currentTimings: MorseTiming[] = [];
-  private currentSpeed: number = 1;
-  private readonly FREQUENCY = 600; // Hz
+  private tone: ToneSettings = { ...DEFAULT_TONE_SETTINGS };
+  private envelope: ToneEnvelope = { ...DEFAULT_TONE_ENVELOPE };
+  private channel: ChannelSettings | null = null;
+
+  /**
+   * Set the simulated band conditions, used by playback and export
+   * Applies from the next playback or file
+   * @param channel - Noise, fading, static and interference to add, or null for a clean tone
+   */
+  setChannelSettings(channel: ChannelSettings | null): void {
+    if (channel) {
+      const problems = validateChannelSettings(channel);
+      if (problems.length > 0) {
+        throw new Error(problems[0]);
+      }
+    }
+    this.channel = channel ? { ...channel } : null;
+  }
+
+  /**
+   * Get the simulated band conditions, or null for a clean tone
+   */
+  getChannelSettings(): ChannelSettings | null {
+    return this.channel ? { ...this.channel } : null;
+  }
+
+  /**
+   * Set the rise and fall shaping of each element, used by playback and export
+   * Applies from the next playback or file
+   * @param envelope - Shape and ramp time to change
+   */
+  setToneEnvelope(envelope: Partial<ToneEnvelope>): void {
+    const next = { ...this.envelope, ...envelope };
+    if (!isValidRampTime(next.rampTime)) {
+      throw new Error(`Ramp time must be between ${MIN_RAMP_TIME} and ${MAX_RAMP_TIME} ms`);
+    }
+    this.envelope = next;
+  }
+
+  /**
+   * Get the current rise and fall shaping
+   */
+  getToneEnvelope(): ToneEnvelope {
+    return { ...this.envelope };
+  }
+
+  /**
+   * Set the sidetone pitch, volume and waveform, used by playback and export
+   * Applies from the next playback or file
+   * @param tone - Settings to change
+   */
+  setToneSettings(tone: Partial<ToneSettings>): void {
+    const next = { ...this.tone, ...tone };
+    if (!isValidFrequency(next.frequency)) {
+      throw new Error(`Frequency must be between ${MIN_FREQUENCY} and ${MAX_FREQUENCY} Hz`);
+    }
+    if (!isValidVolume(next.volume)) {
+      throw new Error(`Volume must be between ${MIN_VOLUME * 100}% and ${MAX_VOLUME * 100}%`);
+    }
+    if (!TONE_WAVEFORMS.some(waveform => waveform.id === next.waveform)) {
+      throw new Error(`Unknown waveform: ${next.waveform}`);
+    }
+    this.tone = next;
+  }
+
+  /**
+   * Get the current sidetone pitch, volume and waveform
+   */
+  getToneSettings(): ToneSettings {
+    return { ...this.tone };
+  }
 
   /**
    * Initialize audio mode for playback
@@ -51,50 +181,188 @@ class AudioService {
   }
 
   /**
-   * Generate a WAV file data URI with a sine wave beep tone
-   * @param frequency - Frequency in Hz (default: 600)
-   * @param duration - Duration in milliseconds
-   * @returns Data URI string for WAV audio
+   * Render timings into one continuous PCM buffer
+   * @param timings - Array of timing objects
+   * @param sampleRate - Sample rate in Hz
+   * @param startSample - Position of the first sample in the whole message
+   * @returns 16-bit mono samples
    */
-  private generateBeepDataUri(frequency: number, duration: number): string {
-    const sampleRate = 44100;
-    const numSamples = Math.floor((duration / 1000) * sampleRate);
-    const amplitude = 0.3; // 30% volume to avoid clipping
-
-    // Create WAV file header
-    const wavHeader = this.createWavHeader(numSamples, sampleRate);
+  private renderSamples(timings: MorseTiming[], sampleRate: number, startSample: number = 0): Int16Array {
+    const renderer = this.createRenderer(timings, sampleRate, startSample);
+    return renderer.render(0, renderer.totalSamples);
+  }
 
-    // Generate sine wave samples
-    const samples = new Int16Array(numSamples);
-    for (let i = 0; i < numSamples; i++) {
-      const t = i / sampleRate;
-      const sample = Math.sin(2 * Math.PI * frequency * t) * amplitude;
-      samples[i] = Math.floor(sample * 32767); // Convert to 16-bit PCM
+  /**
+   * Prepare timings for rendering one block of samples at a time
+   * Element boundaries are placed from the running total, so rounding never accumulates
+   * Each element rises and falls along the tone envelope to avoid key clicks
+   * Band conditions, if set, are added on top and the result is clipped to 16 bits
+   * The tone, envelope and band conditions are fixed when the renderer is created
+   * @param timings - Array of timing objects
+   * @param sampleRate - Sample rate in Hz
+   * @param startSample - Position of the first sample in the whole message, so band
+   *   conditions line up across playback chunks
+   * @param tone - Pitch, volume and waveform, the sidetone settings unless given
+   * @param channelSettings - Band conditions, the current ones unless given
+   * @returns Total sample count and a function rendering consecutive sample ranges
+   */
+  private createRenderer(
+    timings: MorseTiming[],
+    sampleRate: number,
+    startSample: number = 0,
+    tone: ToneSettings = this.tone,
+    channelSettings: ChannelSettings | null = this.channel
+  ): SampleRenderer {
+    const marks: { start: number; end: number }[] = [];
+    let elapsed = 0;
+    for (const timing of timings) {
+      const start = Math.round((elapsed / 1000) * sampleRate);
+      elapsed += timing.duration;
+      // Gaps are left as silence
+      if (isMarkTiming(timing)) {
+        marks.push({ start, end: Math.round((elapsed / 1000) * sampleRate) });
+      }
     }
 
-    // Combine header and samples
-    const wavData = new Uint8Array(wavHeader.length + samples.length * 2);
-    wavData.set(wavHeader, 0);
+    const totalSamples = Math.floor((elapsed / 1000) * sampleRate);
+    const { frequency, volume, waveform } = tone;
+    const { shape, rampTime } = this.envelope;
+    const wavetable = buildWavetable(waveform, frequency, sampleRate);
+    const amplitude = volume * FULL_SCALE_AMPLITUDE;
+    const rampTimeSamples = Math.round((rampTime / 1000) * sampleRate);
+    const channel: ChannelProcessor | null = channelSettings
+      ? createChannel(channelSettings, { sampleRate, frequency, signalLevel: amplitude, startSample })
+      : null;
+    let firstMark = 0;
+
+    const render = (from: number, to: number): Int16Array => {
+      const signal = new Float64Array(to - from);
+
+      // Marks that ended before this range are never needed again
+      while (firstMark < marks.length && marks[firstMark].end <= from) {
+        firstMark++;
+      }
+
+      for (let m = firstMark; m < marks.length && marks[m].start < to; m++) {
+        const start = marks[m].start;
+        const end = Math.min(marks[m].end, totalSamples);
+        // Short elements at high speed get shorter ramps so they still reach full level
+        const rampSamples = Math.min(rampTimeSamples, Math.floor((end - start) / 2));
+
+        for (let i = Math.max(start, from); i < Math.min(end, to); i++) {
+          const t = (i - start) / sampleRate;
+          const fromEdge = Math.min(i - start, end - 1 - i);
+          const gain = fromEdge < rampSamples ? envelopeGain(shape, fromEdge / rampSamples) : 1;
+          signal[i - from] = sampleWavetable(wavetable, frequency, t) * amplitude * gain;
+        }
+      }
+
+      channel?.(signal, from);
+
+      return this.toPcm(signal, 32767);
+    };
 
-    // Copy samples as bytes
-    const dataView = new DataView(wavData.buffer);
+    return { totalSamples, render };
+  }
+
+  /**
+   * Prepare several transmissions for mixing into stereo, one block at a time
+   * Each track is rendered like a single message at its own pitch, without band conditions,
+   * then delayed, scaled and panned; the mix is scaled down so all tracks keyed at once
+   * never clip
+   * @param tracks - Transmissions to mix
+   * @param sampleRate - Sample rate in Hz
+   * @returns Frame count and a function rendering consecutive ranges as interleaved stereo
+   */
+  private createMixRenderer(tracks: MixTrack[], sampleRate: number): SampleRenderer {
+    const totalLevel = tracks.reduce((sum, track) => sum + track.level, 0);
+    const mixScale = 1 / Math.max(1, totalLevel);
+
+    const sources = tracks.map((track) => {
+      const renderer = this.createRenderer(track.timings, sampleRate, 0, { ...this.tone, frequency: track.frequency }, null);
+      // Equal-power panning: a centred track is 3 dB down in each channel
+      const angle = ((track.pan + 1) * Math.PI) / 4;
+      return {
+        renderer,
+        offset: Math.round((track.startTime / 1000) * sampleRate),
+        left: Math.cos(angle) * track.level * mixScale,
+        right: Math.sin(angle) * track.level * mixScale,
+      };
+    });
+    const totalSamples = Math.max(...sources.map(source => source.offset + source.renderer.totalSamples));
+
+    const render = (from: number, to: number): Int16Array => {
+      const mix = new Float64Array((to - from) * 2);
+
+      for (const source of sources) {
+        const start = Math.max(from, source.offset);
+        const end = Math.min(to, source.offset + source.renderer.totalSamples);
+        if (start >= end) continue;
+
+        const samples = source.renderer.render(start - source.offset, end - source.offset);
+        for (let i = 0; i < samples.length; i++) {
+          const frame = start - from + i;
+          mix[frame * 2] += samples[i] * source.left;
+          mix[frame * 2 + 1] += samples[i] * source.right;
+        }
+      }
+
+      return this.toPcm(mix, 1);
+    };
+
+    return { totalSamples, render };
+  }
+
+  /**
+   * Scale samples to 16 bits, clipping anything beyond full scale
+   * @param signal - Samples to convert
+   * @param scale - Factor bringing the samples to 16-bit range
+   * @returns 16-bit samples
+   */
+  private toPcm(signal: Float64Array, scale: number): Int16Array {
+    const samples = new Int16Array(signal.length);
+    for (let i = 0; i < signal.length; i++) {
+      samples[i] = Math.max(-32768, Math.min(32767, Math.floor(signal[i] * scale)));
+    }
+    return samples;
+  }
+
+  /**
+   * Write samples as little-endian 16-bit PCM bytes
+   * @param samples - 16-bit mono samples
+   * @returns Sample bytes as stored in a WAV file
+   */
+  private samplesToBytes(samples: Int16Array): Uint8Array {
+    const bytes = new Uint8Array(samples.length * 2);
+    const dataView = new DataView(bytes.buffer);
     for (let i = 0; i < samples.length; i++) {
-      dataView.setInt16(wavHeader.length + i * 2, samples[i], true);
+      dataView.setInt16(i * 2, samples[i], true);
     }
+    return bytes;
+  }
 
-    // Convert to base64
-    const base64 = this.arrayBufferToBase64(wavData);
-    return `data:audio/wav;base64,${base64}`;
+  /**
+   * Wrap PCM samples in a WAV file
+   * @param samples - 16-bit mono samples
+   * @param sampleRate - Sample rate in Hz
+   * @returns Complete WAV file bytes
+   */
+  private encodeWav(samples: Int16Array, sampleRate: number): Uint8Array {
+    const wavHeader = this.createWavHeader(samples.length, sampleRate);
+    const wavData = new Uint8Array(wavHeader.length + samples.length * 2);
+    wavData.set(wavHeader, 0);
+    wavData.set(this.samplesToBytes(samples), wavHeader.length);
+    return wavData;
   }
 
   /**
    * Create WAV file header
-   * @param numSamples - Number of audio samples
+   * @param numSamples - Number of audio samples per channel
    * @param sampleRate - Sample rate in Hz
+   * @param numChannels - 1 for mono, 2 for stereo
    * @returns Uint8Array containing WAV header
    */
-  private createWavHeader(numSamples: number, sampleRate: number): Uint8Array {
-    const numChannels = 1; // Mono
+  private createWavHeader(numSamples: number, sampleRate: number, numChannels: number = 1): Uint8Array {
     const bitsPerSample = 16;
     const byteRate = sampleRate * numChannels * (bitsPerSample / 8);
     const blockAlign = numChannels * (bitsPerSample / 8);
@@ -143,10 +411,11 @@ class AudioService {
    * @returns Base64 encoded string
    */
   private arrayBufferToBase64(buffer: Uint8Array): string {
+    // Convert in slices; one character at a time is slow for buffers of several megabytes
+    const sliceSize = 0x8000;
     let binary = '';
-    const len = buffer.byteLength;
-    for (let i = 0; i < len; i++) {
-      binary += String.fromCharCode(buffer[i]);
+    for (let i = 0; i < buffer.byteLength; i += sliceSize) {
+      binary += String.fromCharCode(...Array.from(buffer.subarray(i, i + sliceSize)));
     }
     return btoa(binary);
   }
@@ -154,23 +423,46 @@ class AudioService {
   /**
    * Calculate total duration of Morse code sequence
    * @param timings - Array of timing objects
-   * @param speed - Speed multiplier
    * @returns Total duration in milliseconds
    */
-  private calculateTotalDuration(timings: MorseTiming[], speed: number): number {
-    return timings.reduce((total, timing) => total + timing.duration / speed, 0);
+  private calculateTotalDuration(timings: MorseTiming[]): number {
+    return timings.reduce((total, timing) => total + timing.duration, 0);
   }
 
   /**
-   * Play Morse code sequence with timing-based playback
+   * Split timings into playback chunks, cutting only after a gap so a switch between
+   * buffers never falls inside a tone
    * @param timings - Array of timing objects
-   * @param speed - Speed multiplier (0.5 to 2.0)
+   * @returns Chunks covering the whole message in order
+   */
+  private splitIntoChunks(timings: MorseTiming[]): AudioChunk[] {
+    const chunks: AudioChunk[] = [];
+    let current: AudioChunk = { startTime: 0, duration: 0, timings: [] };
+
+    for (const timing of timings) {
+      current.timings.push(timing);
+      current.duration += timing.duration;
+
+      if (current.duration >= CHUNK_DURATION && !isMarkTiming(timing)) {
+        chunks.push(current);
+        current = { startTime: current.startTime + current.duration, duration: 0, timings: [] };
+      }
+    }
+
+    if (current.timings.length > 0) {
+      chunks.push(current);
+    }
+    return chunks;
+  }
+
+  /**
+   * Play Morse code sequence from rendered audio buffers
+   * @param timings - Array of timing objects, already resolved for the chosen speed
    * @param onProgress - Progress callback function
    * @param onComplete - Completion callback function
    */
   async playMorse(
     timings: MorseTiming[],
-    speed: number = 1,
     onProgress: (progress: number) => void,
     onComplete?: () => void
   ): Promise<void> {
@@ -178,41 +470,32 @@ class AudioService {
       throw new Error('No timings provided');
     }
 
-    if (speed < 0.5 || speed > 2.0) {
-      throw new Error('Speed must be between 0.5 and 2.0');
-    }
-
     try {
+      this.cleanup();
+      const session = this.session;
+
       // Initialize audio if not already done
       await this.initializeAudio();
 
       // Store current playback parameters
-      this.currentTimings = timings;
-      this.currentSpeed = speed;
+      this.chunks = this.splitIntoChunks(timings);
+      this.chunkIndex = 0;
       this.onProgressCallback = onProgress;
       this.onCompleteCallback = onComplete || null;
 
-      // Calculate total duration
-      const totalDuration = this.calculateTotalDuration(timings, speed);
-
       // Initialize playback state
       this.playbackState = {
         isPlaying: true,
         isPaused: false,
-        currentIndex: 0,
-        startTime: Date.now(),
-        pausedTime: 0,
-        totalDuration,
+        position: 0,
+        anchorTime: Date.now(),
+        totalDuration: this.calculateTotalDuration(timings),
       };
 
-      this.accumulatedDuration = 0;
-      this.currentItemStartTime = 0;
-
       // Start progress tracking
       this.startProgressTracking();
 
-      // Start playback sequence
-      await this.playSequence(timings, speed, 0);
+      await this.startChunk(0, 0, session);
     } catch (error) {
       console.error('[AudioService] Failed to play Morse code:', error);
       if (error instanceof Error) {
@@ -224,116 +507,172 @@ class AudioService {
   }
 
   /**
-   * Play the timing sequence recursively
-   * @param timings - Array of timing objects
-   * @param speed - Speed multiplier
-   * @param index - Current index in the sequence
+   * Load a chunk as a sound, without starting it
+   * @param index - Chunk index
+   * @param session - Playback session the sound belongs to
+   * @returns The loaded sound, or null if playback moved on while it was loading
    */
-  private async playSequence(
-    timings: MorseTiming[],
-    speed: number,
-    index: number
-  ): Promise<void> {
-    // Check if playback was stopped or paused
-    if (!this.playbackState.isPlaying || this.playbackState.isPaused) {
-      return;
+  private async loadChunk(index: number, session: number): Promise<Audio.Sound | null> {
+    const chunk = this.chunks[index];
+    const startSample = Math.round((chunk.startTime / 1000) * PLAYBACK_SAMPLE_RATE);
+    const samples = this.renderSamples(chunk.timings, PLAYBACK_SAMPLE_RATE, startSample);
+    const base64 = this.arrayBufferToBase64(this.encodeWav(samples, PLAYBACK_SAMPLE_RATE));
+
+    const { sound } = await Audio.Sound.createAsync(
+      { uri: `data:audio/wav;base64,${base64}` },
+      { shouldPlay: false, volume: 1.0, progressUpdateIntervalMillis: STATUS_UPDATE_INTERVAL },
+      (status) => this.handlePlaybackStatus(status, index, session)
+    );
+
+    if (session !== this.session) {
+      this.releaseSound(sound);
+      return null;
     }
+    return sound;
+  }
 
-    // Check if we've reached the end
-    if (index >= timings.length) {
-      if (this.onProgressCallback) {
-        this.onProgressCallback(1); // 100% complete
-      }
-      if (this.onCompleteCallback) {
-        this.onCompleteCallback();
-      }
-      this.cleanup();
+  /**
+   * Make a chunk the current sound and play it from an offset, unless playback is paused
+   * @param index - Chunk index
+   * @param offset - Position inside the chunk in milliseconds
+   * @param session - Playback session
+   */
+  private async startChunk(index: number, offset: number, session: number): Promise<void> {
+    const pending = index === this.chunkIndex + 1 ? this.nextSound : null;
+    this.nextSound = null;
+    const sound = await (pending ?? this.loadChunk(index, session));
+    if (!sound || session !== this.session) {
       return;
     }
 
-    const timing = timings[index];
-    const adjustedDuration = timing.duration / speed;
+    const previous = this.sound;
+    this.sound = sound;
+    this.chunkIndex = index;
+    this.handedOffFrom = -1;
+    if (previous && previous !== sound) {
+      this.releaseSound(previous);
+    }
 
-    // Update current index and timing info for progress tracking
-    this.playbackState.currentIndex = index;
-    this.currentItemStartTime = Date.now();
+    if (offset > 0) {
+      await sound.setPositionAsync(offset);
+    }
+    this.playbackState.position = this.chunks[index].startTime + offset;
+    this.playbackState.anchorTime = Date.now();
+    if (!this.playbackState.isPaused) {
+      await sound.playAsync();
+    }
 
-    // Play sound for dit or dah
-    if (timing.type === 'dit' || timing.type === 'dah') {
-      await this.playBeep(adjustedDuration);
-    } else {
-      // For gaps, just wait
-      await this.wait(adjustedDuration);
+    // Get the next buffer ready so the switch happens without a pause
+    if (index + 1 < this.chunks.length) {
+      this.nextSound = this.loadChunk(index + 1, session);
+    }
+  }
+
+  /**
+   * Follow the player's position and move on when a chunk ends
+   * @param status - Status reported by the sound
+   * @param index - Chunk the sound plays
+   * @param session - Playback session the sound belongs to
+   */
+  private handlePlaybackStatus(status: AVPlaybackStatus, index: number, session: number): void {
+    if (session !== this.session || index !== this.chunkIndex || !status.isLoaded) {
+      return;
     }
 
-    // Update accumulated duration after item completes
-    this.accumulatedDuration += adjustedDuration;
+    if (status.isPlaying) {
+      // Re-anchor the clock to where the player actually is
+      this.playbackState.position = this.chunks[index].startTime + status.positionMillis;
+      this.playbackState.anchorTime = Date.now();
+
+      const remaining = this.chunks[index].duration - status.positionMillis;
+      if (index + 1 < this.chunks.length && remaining <= HANDOFF_LEAD && !this.handoffTimer) {
+        this.handoffTimer = setTimeout(() => {
+          this.handoffTimer = null;
+          this.continuePlayback(index, session);
+        }, Math.max(0, remaining));
+      }
+    }
 
-    // Schedule next timing
-    this.playbackTimeout = setTimeout(() => {
-      this.playSequence(timings, speed, index + 1);
-    }, 0);
+    if (status.didJustFinish) {
+      this.continuePlayback(index, session);
+    }
   }
 
   /**
-   * Play a beep tone for the specified duration
-   * @param duration - Duration in milliseconds
+   * Start the chunk after the one that is ending, or finish if it was the last
+   * @param index - Chunk that is ending
+   * @param session - Playback session the chunk belongs to
    */
-  private async playBeep(duration: number): Promise<void> {
-    try {
-      // Generate beep tone data URI
-      const dataUri = this.generateBeepDataUri(this.FREQUENCY, duration);
+  private continuePlayback(index: number, session: number): void {
+    if (session !== this.session || index !== this.chunkIndex || this.handedOffFrom === index) {
+      return;
+    }
+    this.clearHandoffTimer();
 
-      // Create and play the sound
-      const { sound } = await Audio.Sound.createAsync(
-        { uri: dataUri },
-        { shouldPlay: true, volume: 1.0 }
-      );
+    if (index + 1 < this.chunks.length) {
+      this.handedOffFrom = index;
+      this.startChunk(index + 1, 0, session).catch((error) => {
+        console.error('[AudioService] Failed to continue playback:', error);
+        this.cleanup();
+      });
+    } else {
+      this.finishPlayback();
+    }
+  }
+
+  /**
+   * Cancel a pending start of the next chunk
+   */
+  private clearHandoffTimer(): void {
+    if (this.handoffTimer) {
+      clearTimeout(this.handoffTimer);
+      this.handoffTimer = null;
+    }
+  }
 
-      this.sound = sound;
+  /**
+   * Report completion and release the player
+   */
+  private finishPlayback(): void {
+    const onComplete = this.onCompleteCallback;
+    this.onProgressCallback?.(1); // 100% complete
+    this.cleanup();
+    onComplete?.();
+  }
 
-      // Wait for the duration
-      await this.wait(duration);
+  /**
+   * Stop and unload a sound, ignoring errors from sounds that are already gone
+   * @param sound - Sound to release
+   */
+  private releaseSound(sound: Audio.Sound): void {
+    sound.stopAsync()
+      .then(() => sound.unloadAsync())
+      .catch((e) => {
+        console.error('[AudioService] Error releasing sound:', e);
+      });
+  }
 
-      // Stop and unload the sound immediately
-      try {
-        await sound.stopAsync();
-      } catch (e) {
-        // Ignore stop errors
-      }
-      try {
-        await sound.unloadAsync();
-      } catch (e) {
-        // Ignore unload errors
-      }
-      this.sound = null;
-    } catch (error) {
-      console.error('[AudioService] Failed to play beep:', error);
-      if (error instanceof Error) {
-        console.error('[AudioService] Beep error details:', error.message);
-      }
-      // Ensure sound is cleaned up even on error
-      if (this.sound) {
-        try {
-          await this.sound.stopAsync();
-          await this.sound.unloadAsync();
-        } catch (e) {
-          // Ignore cleanup errors
-        }
-        this.sound = null;
-      }
-      // Continue playback even if one beep fails
+  /**
+   * Release the preloaded next chunk once it has finished loading
+   */
+  private discardNextSound(): void {
+    if (this.nextSound) {
+      this.nextSound
+        .then((sound) => sound && this.releaseSound(sound))
+        .catch(() => {
+          // Preloading already failed; nothing to release
+        });
+      this.nextSound = null;
     }
   }
 
   /**
-   * Wait for specified duration
-   * @param duration - Duration in milliseconds
+   * Current position in the message in milliseconds
    */
-  private wait(duration: number): Promise<void> {
-    return new Promise((resolve) => {
-      setTimeout(resolve, duration);
-    });
+  private getPosition(): number {
+    const { position, anchorTime, isPaused, totalDuration } = this.playbackState;
+    const elapsed = isPaused ? 0 : Date.now() - anchorTime;
+    return Math.min(position + elapsed, totalDuration);
   }
 
   /**
@@ -342,70 +681,34 @@ class AudioService {
   private startProgressTracking(): void {
     // Update progress at 30fps (every 33ms) for smoother, less jittery updates
     this.progressInterval = setInterval(() => {
-      if (this.playbackState.isPlaying && !this.playbackState.isPaused) {
-        let currentProgress = 0;
-
-        if (this.playbackState.totalDuration > 0) {
-          // Simple calculation: elapsed time since start / total duration
-          const elapsedTime = Date.now() - this.playbackState.startTime;
-          currentProgress = elapsedTime / this.playbackState.totalDuration;
-        }
-
-        const progress = Math.min(Math.max(currentProgress, 0), 1);
-
-        if (this.onProgressCallback) {
-          this.onProgressCallback(progress);
-        }
+      if (this.playbackState.isPlaying && !this.playbackState.isPaused && this.onProgressCallback) {
+        this.onProgressCallback(this.getProgress());
       }
     }, 33);
   }
 
   /**
-   * Pause playback
+   * Pause playback, keeping the position in the buffer
    */
   pausePlayback(): void {
     if (this.playbackState.isPlaying && !this.playbackState.isPaused) {
+      this.playbackState.position = this.getPosition();
       this.playbackState.isPaused = true;
-      this.playbackState.pausedTime = Date.now();
-
-      // Stop current sound if playing
-      if (this.sound) {
-        this.sound.stopAsync()
-          .then(() => this.sound?.unloadAsync())
-          .catch(console.error)
-          .finally(() => {
-            this.sound = null;
-          });
-      }
 
-      // Clear timeout
-      if (this.playbackTimeout) {
-        clearTimeout(this.playbackTimeout);
-        this.playbackTimeout = null;
-      }
+      this.clearHandoffTimer();
+      this.sound?.pauseAsync().catch(console.error);
     }
   }
 
   /**
-   * Resume playback from paused state
+   * Resume playback from the paused position
    */
   async resumePlayback(): Promise<void> {
     if (this.playbackState.isPlaying && this.playbackState.isPaused) {
-      // Adjust start time to account for pause duration
-      // For index-based tracking, we just need to reset the current item start time
-      // effectively restarting the current item or continuing from where we left off?
-      // Since we stop the sound on pause, we will likely restart the current item.
-      // But playSequence will be called with currentIndex.
-
       this.playbackState.isPaused = false;
-      this.currentItemStartTime = Date.now(); // Reset for the resumed item
+      this.playbackState.anchorTime = Date.now();
 
-      // Resume from current index
-      await this.playSequence(
-        this.currentTimings,
-        this.currentSpeed,
-        this.playbackState.currentIndex
-      );
+      await this.sound?.playAsync();
     }
   }
 
@@ -418,39 +721,31 @@ class AudioService {
       throw new Error('Position must be between 0 and 1');
     }
 
-    const wasPlaying = this.playbackState.isPlaying && !this.playbackState.isPaused;
-
-    // Stop current playback
-    this.pausePlayback();
+    if (!this.playbackState.isPlaying || this.chunks.length === 0) {
+      return;
+    }
 
-    // Calculate which timing index corresponds to this position
+    // Find the chunk holding the target time; the end of the message maps into the last chunk
     const targetTime = position * this.playbackState.totalDuration;
-    let accumulatedTime = 0;
-    let targetIndex = 0;
-
-    for (let i = 0; i < this.currentTimings.length; i++) {
-      const timingDuration = this.currentTimings[i].duration / this.currentSpeed;
-      if (accumulatedTime + timingDuration >= targetTime) {
-        targetIndex = i;
-        break;
-      }
-      accumulatedTime += timingDuration;
+    let index = this.chunks.findIndex(chunk => targetTime < chunk.startTime + chunk.duration);
+    if (index === -1) {
+      index = this.chunks.length - 1;
     }
+    const offset = targetTime - this.chunks[index].startTime;
 
-    // Update playback state
-    this.playbackState.currentIndex = targetIndex;
-    this.accumulatedDuration = accumulatedTime; // Set accumulated to start of this item
-    this.currentItemStartTime = Date.now(); // Will be reset on play
-
-    // Resume if was playing
-    if (wasPlaying) {
-      this.playbackState.isPaused = false;
-      await this.playSequence(
-        this.currentTimings,
-        this.currentSpeed,
-        targetIndex
-      );
+    this.clearHandoffTimer();
+    if (index === this.chunkIndex && this.sound) {
+      await this.sound.setPositionAsync(offset);
+      this.playbackState.position = targetTime;
+      this.playbackState.anchorTime = Date.now();
+      return;
     }
+
+    // Moving to another chunk: drop the loaded buffers and load the one that holds the target
+    const session = ++this.session;
+    this.sound?.pauseAsync().catch(console.error);
+    this.discardNextSound();
+    await this.startChunk(index, offset, session);
   }
 
   /**
@@ -464,40 +759,33 @@ class AudioService {
    * Clean up resources
    */
   private cleanup(): void {
-    // Clear intervals and timeouts
+    // Ignore callbacks from sounds of the finished session
+    this.session++;
+
     if (this.progressInterval) {
       clearInterval(this.progressInterval);
       this.progressInterval = null;
     }
+    this.clearHandoffTimer();
 
-    if (this.playbackTimeout) {
-      clearTimeout(this.playbackTimeout);
-      this.playbackTimeout = null;
-    }
-
-    // Stop and unload sound with proper error handling
+    // Stop and unload the current and preloaded sounds
     if (this.sound) {
-      this.sound.stopAsync()
-        .then(() => this.sound?.unloadAsync())
-        .catch((e) => {
-          console.error('[AudioService] Error during cleanup:', e);
-        })
-        .finally(() => {
-          this.sound = null;
-        });
+      this.releaseSound(this.sound);
+      this.sound = null;
     }
+    this.discardNextSound();
 
     // Reset playback state
     this.playbackState = {
       isPlaying: false,
       isPaused: false,
-      currentIndex: 0,
-      startTime: 0,
-      pausedTime: 0,
+      position: 0,
+      anchorTime: 0,
       totalDuration: 0,
     };
-    this.accumulatedDuration = 0;
-    this.currentItemStartTime = 0;
+    this.chunks = [];
+    this.chunkIndex = 0;
+    this.handedOffFrom = -1;
 
     // Clear callbacks
     this.onProgressCallback = null;
@@ -529,93 +817,127 @@ class AudioService {
    * Get current playback progress (0 to 1)
    */
   getProgress(): number {
-    if (!this.playbackState.isPlaying) {
+    if (!this.playbackState.isPlaying || this.playbackState.totalDuration <= 0) {
       return 0;
     }
 
-    let currentProgress = 0;
-    if (this.playbackState.totalDuration > 0) {
-      const elapsedTime = this.playbackState.isPaused
-        ? this.playbackState.pausedTime - this.playbackState.startTime
-        : Date.now() - this.playbackState.startTime;
+    return Math.min(Math.max(this.getPosition() / this.playbackState.totalDuration, 0), 1);
+  }
+
+  /**
+   * Generate a complete WAV audio file from Morse code timings, written a block at a time
+   * @param timings - Array of timing objects, already resolved for the chosen speed
+   * @param wpm - Speed the timings were generated at (5 to 60 WPM), shown in the filename
+   * @param options - Progress callback and abort signal
+   * @returns File URI of the generated audio file
+   */
+  async generateAudioFile(
+    timings: MorseTiming[],
+    wpm: number = 20,
+    options: AudioExportOptions = {}
+  ): Promise<string> {
+    if (timings.length === 0) {
+      throw new Error('No timings provided');
+    }
 
-      currentProgress = elapsedTime / this.playbackState.totalDuration;
+    if (!isValidWpm(wpm)) {
+      throw new Error(`Speed must be between ${MIN_WPM} and ${MAX_WPM} WPM`);
     }
 
-    return Math.min(Math.max(currentProgress, 0), 1);
+    // Render the whole message the same way it is played
+    const renderer = this.createRenderer(timings, FILE_SAMPLE_RATE);
+    return this.writeWavFile(this.createExportUri(`morse_${formatWpm(wpm)}wpm`), renderer, 1, options);
   }
 
   /**
-   * Generate a complete WAV audio file from Morse code timings
-   * @param timings - Array of timing objects
-   * @param speed - Speed multiplier (0.5 to 2.0)
+   * Generate a stereo WAV file mixing several Morse transmissions
+   * Each track is synthesized like generateAudioFile, at its own pitch, start time, level
+   * and stereo position
+   * @param tracks - Transmissions to mix
+   * @param name - Start of the filename, followed by a timestamp
+   * @param options - Progress callback and abort signal
    * @returns File URI of the generated audio file
    */
-  async generateAudioFile(timings: MorseTiming[], speed: number = 1): Promise<string> {
-    if (timings.length === 0) {
+  async generateMixFile(tracks: MixTrack[], name: string, options: AudioExportOptions = {}): Promise<string> {
+    if (tracks.length === 0 || tracks.some(track => track.timings.length === 0)) {
       throw new Error('No timings provided');
     }
 
-    if (speed < 0.5 || speed > 2.0) {
-      throw new Error('Speed must be between 0.5 and 2.0');
-    }
+    return this.writeWavFile(this.createExportUri(name), this.createMixRenderer(tracks, FILE_SAMPLE_RATE), 2, options);
+  }
 
-    try {
-      const sampleRate = 44100;
-      const amplitude = 0.3;
-
-      // Calculate total duration and number of samples
-      const totalDuration = this.calculateTotalDuration(timings, speed);
-      const totalSamples = Math.floor((totalDuration / 1000) * sampleRate);
-
-      // Create sample buffer
-      const samples = new Int16Array(totalSamples);
-      let currentSampleIndex = 0;
-
-      // Generate samples for each timing
-      for (const timing of timings) {
-        const adjustedDuration = timing.duration / speed;
-        const numSamples = Math.floor((adjustedDuration / 1000) * sampleRate);
-
-        if (timing.type === 'dit' || timing.type === 'dah') {
-          // Generate sine wave for beep
-          for (let i = 0; i < numSamples && currentSampleIndex < totalSamples; i++) {
-            const t = i / sampleRate;
-            const sample = Math.sin(2 * Math.PI * this.FREQUENCY * t) * amplitude;
-            samples[currentSampleIndex++] = Math.floor(sample * 32767);
-          }
-        } else {
-          // Silence for gaps
-          for (let i = 0; i < numSamples && currentSampleIndex < totalSamples; i++) {
-            samples[currentSampleIndex++] = 0;
-          }
-        }
-      }
+  /**
+   * Build the location of an exported file
+   * @param name - Start of the filename
+   * @returns File URI in the documents folder, with a timestamp so exports never collide
+   */
+  private createExportUri(name: string): string {
+    const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..+/, '').replace('T', '_');
+    return `${FileSystem.documentDirectory}${name}_${timestamp}.wav`;
+  }
 
-      // Create WAV file
-      const wavHeader = this.createWavHeader(totalSamples, sampleRate);
-      const wavData = new Uint8Array(wavHeader.length + samples.length * 2);
-      wavData.set(wavHeader, 0);
+  /**
+   * Stream rendered audio into a WAV file
+   * The file is rendered and written a block at a time, so memory use stays flat and the
+   * UI keeps running between blocks
+   * @param fileUri - Location of the file, replaced if it exists
+   * @param renderer - Source of the samples
+   * @param numChannels - 1 for mono, 2 for interleaved stereo
+   * @param options - Progress callback and abort signal
+   * @returns File URI of the written file
+   */
+  private async writeWavFile(
+    fileUri: string,
+    renderer: SampleRenderer,
+    numChannels: number,
+    options: AudioExportOptions
+  ): Promise<string> {
+    const { onProgress, signal } = options;
+    let file: File | null = null;
+    let handle: ReturnType<File['open']> | null = null;
 
-      // Copy samples as bytes
-      const dataView = new DataView(wavData.buffer);
-      for (let i = 0; i < samples.length; i++) {
-        dataView.setInt16(wavHeader.length + i * 2, samples[i], true);
+    try {
+      file = new File(fileUri);
+      if (file.exists) {
+        file.delete();
       }
+      file.create();
+      handle = file.open();
+      handle.writeBytes(this.createWavHeader(renderer.totalSamples, FILE_SAMPLE_RATE, numChannels));
 
-      // Generate filename with timestamp
-      const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..+/, '').replace('T', '_');
-      const filename = `morse_${timestamp}.wav`;
-      const fileUri = `${FileSystem.documentDirectory}${filename}`;
+      for (let from = 0; from < renderer.totalSamples; from += EXPORT_BLOCK_SAMPLES) {
+        if (signal?.aborted) {
+          throw new Error(EXPORT_CANCELLED);
+        }
 
-      // Convert to base64 and save
-      const base64 = this.arrayBufferToBase64(wavData);
-      await FileSystem.writeAsStringAsync(fileUri, base64, {
-        encoding: FileSystem.EncodingType.Base64,
-      });
+        const to = Math.min(from + EXPORT_BLOCK_SAMPLES, renderer.totalSamples);
+        handle.writeBytes(this.samplesToBytes(renderer.render(from, to)));
+        onProgress?.(to / renderer.totalSamples);
+
+        // Let the UI update and handle a cancel tap before the next block
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
 
+      handle.close();
+      handle = null;
+      onProgress?.(1);
       return fileUri;
     } catch (error) {
+      // Leave no partial file behind
+      try {
+        handle?.close();
+        handle = null;
+        if (file?.exists) {
+          file.delete();
+        }
+      } catch (cleanupError) {
+        console.warn('[AudioService] Failed to remove partial audio file:', cleanupError);
+      }
+
+      if (signal?.aborted) {
+        throw new Error(EXPORT_CANCELLED);
+      }
+
       console.error('[AudioService] Failed to generate audio file:', error);
       if (error instanceof Error) {
         console.error('[AudioService] Generation error details:', error.message, error.stack);
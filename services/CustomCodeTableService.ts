@@ -0,0 +1,234 @@
+import * as FileSystem from 'expo-file-system';
+import { CodeTableFile, CustomCodeTable } from '../types/morse';
+import MorseConverterService from './MorseConverterService';
+
+// Marks a JSON file as a Morse Torch code table
+const CODE_TABLE_FORMAT = 'morse-torch-code-table';
+
+// Current file format version; files from newer versions are rejected
+export const CODE_TABLE_VERSION = 1;
+
+// Longest code accepted for a single character or sign
+const MAX_CODE_LENGTH = 12;
+
+// Table keys: one character, or a sign written as <NAME>
+const SIGN_KEY_PATTERN = /^<[A-Z0-9]+>$/;
+
+class CustomCodeTableService {
+  private readonly directory = `${FileSystem.documentDirectory}code-tables/`;
+
+  /**
+   * Check a table for malformed entries and ambiguous codes
+   * @param table - Table to check
+   * @returns Problems found, empty if the table can be used
+   */
+  validateTable(table: CustomCodeTable): string[] {
+    const problems: string[] = [];
+
+    if (!table.name || table.name.trim().length === 0) {
+      problems.push('Table name is required');
+    }
+
+    const entries = Object.entries(table.codes ?? {});
+    if (entries.length === 0) {
+      problems.push('Table has no codes');
+    }
+
+    for (const [key, code] of entries) {
+      if (!this.isValidKey(key)) {
+        problems.push(`"${key}" must be a single character or a sign such as <ZZ>`);
+      }
+      if (typeof code !== 'string' || !/^[.-]+$/.test(code) || code.length > MAX_CODE_LENGTH) {
+        problems.push(`Code for "${key}" must be 1-${MAX_CODE_LENGTH} dots and dashes`);
+      }
+    }
+
+    for (const conflict of MorseConverterService.findAmbiguousCodes(table.codes ?? {})) {
+      problems.push(`${conflict.code} is ambiguous: ${conflict.characters.join(', ')}`);
+    }
+
+    return problems;
+  }
+
+  /**
+   * Write a table as a versioned JSON document
+   * @param table - Table to serialize
+   * @returns JSON text suitable for sharing
+   */
+  serializeTable(table: CustomCodeTable): string {
+    const file: CodeTableFile = {
+      format: CODE_TABLE_FORMAT,
+      version: CODE_TABLE_VERSION,
+      name: table.name,
+      codes: table.codes,
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  /**
+   * Read a table from a shared JSON document
+   * Letter keys are upper-cased to match how text is encoded
+   * @param json - JSON text produced by serializeTable
+   * @returns Validated table
+   */
+  parseTable(json: string): CustomCodeTable {
+    let file: Partial<CodeTableFile>;
+    try {
+      file = JSON.parse(json);
+    } catch {
+      throw new Error('Code table is not valid JSON');
+    }
+
+    if (!file || typeof file !== 'object' || file.format !== CODE_TABLE_FORMAT) {
+      throw new Error('File is not a Morse code table');
+    }
+    if (typeof file.version !== 'number' || file.version > CODE_TABLE_VERSION) {
+      throw new Error(`Code table version ${file.version} is not supported`);
+    }
+    if (!file.codes || typeof file.codes !== 'object') {
+      throw new Error('Table has no codes');
+    }
+
+    const codes: Record<string, string> = {};
+    for (const [key, code] of Object.entries(file.codes)) {
+      const normalizedKey = this.normalizeKey(key);
+      if (normalizedKey in codes) {
+        throw new Error(`"${key}" is defined more than once`);
+      }
+      codes[normalizedKey] = code;
+    }
+
+    const table: CustomCodeTable = { name: String(file.name ?? '').trim(), codes };
+    const problems = this.validateTable(table);
+    if (problems.length > 0) {
+      throw new Error(problems[0]);
+    }
+
+    return table;
+  }
+
+  /**
+   * Save a table to the app's code table folder
+   * @param table - Table to save, replacing any saved table with the same name
+   * @returns URI of the saved file, which can be shared as-is
+   */
+  async saveTable(table: CustomCodeTable): Promise<string> {
+    const problems = this.validateTable(table);
+    if (problems.length > 0) {
+      throw new Error(problems[0]);
+    }
+
+    await this.ensureDirectory();
+    const fileUri = (await this.getTableUri(table.name)) ?? (await this.newTableUri(table.name));
+    await FileSystem.writeAsStringAsync(fileUri, this.serializeTable(table));
+    return fileUri;
+  }
+
+  /**
+   * Import a table from a JSON file and save it
+   * @param uri - Location of the shared file
+   * @returns The imported table
+   */
+  async importTable(uri: string): Promise<CustomCodeTable> {
+    const table = this.parseTable(await FileSystem.readAsStringAsync(uri));
+    await this.saveTable(table);
+    return table;
+  }
+
+  /**
+   * Load every saved table, skipping files that no longer validate
+   * @returns Saved tables sorted by name
+   */
+  async loadTables(): Promise<CustomCodeTable[]> {
+    const saved = await this.readSavedTables();
+    return saved.map(({ table }) => table).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Delete a saved table
+   * @param name - Name of the table
+   */
+  async deleteTable(name: string): Promise<void> {
+    const fileUri = await this.getTableUri(name);
+    if (fileUri) {
+      await FileSystem.deleteAsync(fileUri, { idempotent: true });
+    }
+  }
+
+  /**
+   * Find the file a table is saved to
+   * File names only loosely follow table names, so the name inside each file decides
+   * @param name - Name of the table
+   * @returns File URI, or null if no table has that name
+   */
+  async getTableUri(name: string): Promise<string | null> {
+    const saved = await this.readSavedTables();
+    return saved.find(({ table }) => table.name === name.trim())?.uri ?? null;
+  }
+
+  /**
+   * Read every table file in the code table folder, skipping files that no longer validate
+   */
+  private async readSavedTables(): Promise<{ uri: string; table: CustomCodeTable }[]> {
+    const info = await FileSystem.getInfoAsync(this.directory);
+    if (!info.exists) {
+      return [];
+    }
+
+    const saved: { uri: string; table: CustomCodeTable }[] = [];
+    const files = await FileSystem.readDirectoryAsync(this.directory);
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      const uri = `${this.directory}${file}`;
+      try {
+        saved.push({ uri, table: this.parseTable(await FileSystem.readAsStringAsync(uri)) });
+      } catch (error) {
+        console.warn(`[CustomCodeTableService] Skipping ${file}:`, error);
+      }
+    }
+
+    return saved;
+  }
+
+  /**
+   * Pick an unused file for a new table, named after it where the name allows
+   * Names that slug the same, such as "My Table" and "my-table", get numbered files
+   */
+  private async newTableUri(name: string): Promise<string> {
+    const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'table';
+    const files = new Set(await FileSystem.readDirectoryAsync(this.directory));
+
+    let file = `${slug}.json`;
+    for (let suffix = 2; files.has(file); suffix++) {
+      file = `${slug}-${suffix}.json`;
+    }
+    return `${this.directory}${file}`;
+  }
+
+  /**
+   * Create the code table folder if it does not exist yet
+   */
+  private async ensureDirectory(): Promise<void> {
+    const info = await FileSystem.getInfoAsync(this.directory);
+    if (!info.exists) {
+      await FileSystem.makeDirectoryAsync(this.directory, { intermediates: true });
+    }
+  }
+
+  /**
+   * Upper-case letter keys and sign names the way input text is upper-cased
+   */
+  private normalizeKey(key: string): string {
+    const upper = key.toUpperCase();
+    return Array.from(upper).length === 1 || SIGN_KEY_PATTERN.test(upper) ? upper : key;
+  }
+
+  /**
+   * Check whether a key is one character or a <NAME> sign
+   */
+  private isValidKey(key: string): boolean {
+    return SIGN_KEY_PATTERN.test(key) || (Array.from(key).length === 1 && !/\s/.test(key));
+  }
+}
+
+// Export singleton instance
+export default new CustomCodeTableService();
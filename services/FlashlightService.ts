@@ -1,4 +1,5 @@
 import { MorseTiming } from '../types/morse';
+import { isMarkTiming } from '../utils/TimingUtils';
 
 // Note: expo-camera v16+ requires using hooks and CameraView component
 // For flashlight control, we need to manage torch state through the component
@@ -118,7 +119,7 @@ class FlashlightService {
         }
 
         const timing = timings[currentIndex];
-        const shouldTurnOn = timing.type === 'dit' || timing.type === 'dah';
+        const shouldTurnOn = isMarkTiming(timing);
 
         // Turn flashlight on or off based on timing type
         if (shouldTurnOn) {
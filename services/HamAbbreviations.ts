@@ -0,0 +1,146 @@
+// Q-codes and CW operating abbreviations with their plain-English meanings
+export const HAM_ABBREVIATIONS: Record<string, string> = {
+  // Procedure
+  'CQ': 'Calling any station',
+  'DE': 'From (this is)',
+  'K': 'Over, go ahead',
+  'KN': 'Over, named station only',
+  'AR': 'End of message',
+  'SK': 'End of contact',
+  'BK': 'Break, back to you',
+  'R': 'Received, roger',
+  'TEST': 'Contest call',
+  'SOS': 'Distress call',
+
+  // Q-codes
+  'QRG': 'Your exact frequency is',
+  'QRK': 'The readability of your signals is',
+  'QRL': 'This frequency is in use',
+  'QRM': 'Interference from other stations',
+  'QRN': 'Static or atmospheric noise',
+  'QRO': 'Increase power',
+  'QRP': 'Reduce power, low power',
+  'QRQ': 'Send faster',
+  'QRS': 'Send more slowly',
+  'QRT': 'Stop sending, closing down',
+  'QRU': 'I have nothing for you',
+  'QRV': 'I am ready',
+  'QRX': 'Wait, stand by',
+  'QRZ': 'Who is calling me?',
+  'QSB': 'Your signals are fading',
+  'QSK': 'Full break-in',
+  'QSL': 'I confirm receipt',
+  'QSO': 'A contact',
+  'QSP': 'I will relay',
+  'QSY': 'Change frequency',
+  'QTC': 'I have messages for you',
+  'QTH': 'My location is',
+  'QTR': 'The correct time is',
+
+  // Signal reports and numbers
+  'RST': 'Readability, strength and tone report',
+  '599': 'Perfect signal report',
+  '5NN': 'Perfect signal report (599 with cut numbers)',
+  '73': 'Best regards',
+  '88': 'Love and kisses',
+
+  // Abbreviations
+  'ABT': 'About',
+  'AGN': 'Again',
+  'ANT': 'Antenna',
+  'BCNU': 'Be seeing you',
+  'BFR': 'Before',
+  'CFM': 'Confirm',
+  'CONDX': 'Conditions',
+  'CU': 'See you',
+  'CUL': 'See you later',
+  'DX': 'Distance, a far-away station',
+  'ES': 'And',
+  'FB': 'Fine business, excellent',
+  'FER': 'For',
+  'GA': 'Good afternoon, go ahead',
+  'GE': 'Good evening',
+  'GL': 'Good luck',
+  'GM': 'Good morning',
+  'GN': 'Good night',
+  'GUD': 'Good',
+  'HI': 'Laughter',
+  'HPE': 'Hope',
+  'HR': 'Here, hear',
+  'HW': 'How (do you copy?)',
+  'MSG': 'Message',
+  'NIL': 'Nothing',
+  'NR': 'Number',
+  'OM': 'Old man, any male operator',
+  'OP': 'Operator',
+  'PSE': 'Please',
+  'PWR': 'Power',
+  'RCVR': 'Receiver',
+  'RIG': 'Station equipment',
+  'RPT': 'Report, repeat',
+  'SIG': 'Signal',
+  'SRI': 'Sorry',
+  'TNX': 'Thanks',
+  'TU': 'Thank you',
+  'U': 'You',
+  'UR': 'Your, you are',
+  'VY': 'Very',
+  'W': 'Watts',
+  'WDS': 'Words',
+  'WID': 'With',
+  'WKD': 'Worked',
+  'WX': 'Weather',
+  'XMTR': 'Transmitter',
+  'XYL': 'Wife',
+  'YL': 'Young lady, any female operator',
+};
+
+// Words and phrases that have a standard abbreviation, used by the compress pass
+export const ABBREVIATION_FOR: Record<string, string> = {
+  'ABOUT': 'ABT',
+  'AGAIN': 'AGN',
+  'AND': 'ES',
+  'ANTENNA': 'ANT',
+  'ARE': 'R',
+  'BE SEEING YOU': 'BCNU',
+  'BEFORE': 'BFR',
+  'BEST REGARDS': '73',
+  'CONDITIONS': 'CONDX',
+  'CONFIRM': 'CFM',
+  'FINE BUSINESS': 'FB',
+  'FOR': 'FER',
+  'GOOD': 'GUD',
+  'GOOD AFTERNOON': 'GA',
+  'GOOD EVENING': 'GE',
+  'GOOD LUCK': 'GL',
+  'GOOD MORNING': 'GM',
+  'GOOD NIGHT': 'GN',
+  'HERE': 'HR',
+  'HOPE': 'HPE',
+  'HOW': 'HW',
+  'LOVE AND KISSES': '88',
+  'MESSAGE': 'MSG',
+  'NOTHING': 'NIL',
+  'NUMBER': 'NR',
+  'OPERATOR': 'OP',
+  'PLEASE': 'PSE',
+  'POWER': 'PWR',
+  'RECEIVED': 'R',
+  'RECEIVER': 'RCVR',
+  'REPORT': 'RPT',
+  'SEE YOU': 'CU',
+  'SEE YOU LATER': 'CUL',
+  'SIGNAL': 'SIG',
+  'SORRY': 'SRI',
+  'THANK YOU': 'TU',
+  'THANKS': 'TNX',
+  'TRANSMITTER': 'XMTR',
+  'VERY': 'VY',
+  'WEATHER': 'WX',
+  'WIFE': 'XYL',
+  'WITH': 'WID',
+  'WORDS': 'WDS',
+  'WORKED': 'WKD',
+  'YOU': 'U',
+  'YOUR': 'UR',
+};
@@ -0,0 +1,178 @@
+import { MorseTiming, TimingConfig } from '../types/morse';
+import MorseConverterService from './MorseConverterService';
+
+// Separator between words in converter output
+const WORD_SEPARATOR = ' / ';
+
+// Cached entries kept before a cache is cleared and refilled from the current text
+const MAX_CACHED_WORDS = 20000;
+
+interface CachedTiming {
+  timings: MorseTiming[];
+  duration: number;
+}
+
+/**
+ * Converts long texts word by word, re-encoding and re-timing only words that changed
+ * Results match MorseConverterService exactly; caches are dropped when its settings change
+ */
+class IncrementalConverterService {
+  private morseCache = new Map<string, string>();
+  private timingCache = new Map<string, CachedTiming>();
+  private revision = -1;
+  private timingKey = '';
+
+  /**
+   * Convert text to Morse code, reusing the Morse of words seen before
+   * @param text - Input text to convert
+   * @returns Same result as MorseConverterService.textToMorse
+   */
+  textToMorse(text: string): string {
+    if (!text || text.trim().length === 0) {
+      return '';
+    }
+
+    // Wabun switches between kana and Latin with signals that depend on earlier words
+    if (MorseConverterService.getAlphabet().id === 'wabun') {
+      return MorseConverterService.textToMorse(text);
+    }
+
+    this.checkRevision();
+    const words: string[] = [];
+    for (const word of text.split(' ')) {
+      let morse = this.morseCache.get(word);
+      if (morse === undefined) {
+        morse = MorseConverterService.textToMorse(word);
+        this.remember(this.morseCache, word, morse);
+      }
+      // Words that produce no letters leave no trace, as in the full conversion
+      if (morse.length > 0) {
+        words.push(morse);
+      }
+    }
+
+    return words.join(WORD_SEPARATOR);
+  }
+
+  /**
+   * Convert Morse code to timings, reusing the timings of words seen before
+   * @param morse - Morse code string
+   * @param timing - Base time unit in milliseconds, or timing options
+   * @returns Same result as MorseConverterService.morseToTiming
+   */
+  morseToTiming(morse: string, timing: number | Partial<TimingConfig> = 120): MorseTiming[] {
+    const segments = this.splitWords(morse);
+    if (!segments) {
+      return MorseConverterService.morseToTiming(morse, timing);
+    }
+
+    const wordGap = this.prepareTiming(timing);
+    const timings: MorseTiming[] = [];
+    let offset = 0;
+    segments.forEach((segment, index) => {
+      if (index > 0) {
+        timings.push({ type: 'wordGap', duration: wordGap });
+      }
+      for (const entry of this.getWordTiming(segment, timing).timings) {
+        timings.push(entry.charIndex === undefined ? entry : { ...entry, charIndex: entry.charIndex + offset });
+      }
+      offset += segment.length + WORD_SEPARATOR.length;
+    });
+
+    return timings;
+  }
+
+  /**
+   * Get the total length of Morse code without building its full timing list
+   * @param morse - Morse code string
+   * @param timing - Base time unit in milliseconds, or timing options
+   * @returns Duration in milliseconds
+   */
+  getDuration(morse: string, timing: number | Partial<TimingConfig> = 120): number {
+    const segments = this.splitWords(morse);
+    if (!segments) {
+      return MorseConverterService.morseToTiming(morse, timing).reduce((sum, entry) => sum + entry.duration, 0);
+    }
+
+    const wordGap = this.prepareTiming(timing);
+    return segments.reduce(
+      (sum, segment) => sum + this.getWordTiming(segment, timing).duration,
+      wordGap * (segments.length - 1)
+    );
+  }
+
+  /**
+   * Drop all cached words
+   */
+  clear(): void {
+    this.morseCache.clear();
+    this.timingCache.clear();
+  }
+
+  /**
+   * Split Morse into words that can be timed on their own
+   * @returns Words, or null when the separators are irregular and the whole string must be timed
+   */
+  private splitWords(morse: string): string[] | null {
+    if (!morse || morse.trim().length === 0) {
+      return null;
+    }
+
+    const segments = morse.split(WORD_SEPARATOR);
+    const isRegular = segments.every(
+      segment => segment.length > 0 && !/^[\s\/]|[\s\/]$/.test(segment)
+    );
+    return isRegular ? segments : null;
+  }
+
+  /**
+   * Start over when converter settings or timing options change
+   * @returns Length of the gap between words for these options
+   */
+  private prepareTiming(timing: number | Partial<TimingConfig>): number {
+    this.checkRevision();
+    const key = JSON.stringify(timing);
+    if (key !== this.timingKey) {
+      this.timingCache.clear();
+      this.timingKey = key;
+    }
+    return MorseConverterService.resolveTimingConfig(timing).wordGap;
+  }
+
+  /**
+   * Get the timings of one word, timing it if it has not been seen with these options
+   */
+  private getWordTiming(segment: string, timing: number | Partial<TimingConfig>): CachedTiming {
+    let cached = this.timingCache.get(segment);
+    if (!cached) {
+      const timings = MorseConverterService.morseToTiming(segment, timing);
+      cached = { timings, duration: timings.reduce((sum, entry) => sum + entry.duration, 0) };
+      this.remember(this.timingCache, segment, cached);
+    }
+    return cached;
+  }
+
+  /**
+   * Clear the caches if the converter's tables or policies changed since they were filled
+   */
+  private checkRevision(): void {
+    const revision = MorseConverterService.getRevision();
+    if (revision !== this.revision) {
+      this.clear();
+      this.revision = revision;
+    }
+  }
+
+  /**
+   * Store a cache entry, clearing the cache first once it grows too large
+   */
+  private remember<T>(cache: Map<string, T>, key: string, value: T): void {
+    if (cache.size >= MAX_CACHED_WORDS) {
+      cache.clear();
+    }
+    cache.set(key, value);
+  }
+}
+
+// Export singleton instance
+export default new IncrementalConverterService();
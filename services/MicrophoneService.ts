@@ -0,0 +1,334 @@
+import { Audio } from 'expo-av';
+import { File } from 'expo-file-system/next';
+import { Platform } from 'react-native';
+import LiveAudioStream from 'react-native-live-audio-stream';
+import { LiveDecodeState } from '../types/morse';
+import { pcmToSamples, readWavHeader, WavFormat } from '../utils/WavReader';
+import AudioDecoderService, { LevelDecoder, LiveDecoder } from './AudioDecoderService';
+
+// Message of the error thrown when the user has not allowed the microphone
+export const MICROPHONE_DENIED = 'Microphone permission not granted';
+
+// Sample rate of PCM recordings; well above twice the highest sidetone pitch
+const RECORDING_SAMPLE_RATE = 16000;
+
+// How often a PCM recording is read while it grows, in milliseconds
+const READ_INTERVAL = 100;
+
+// How often the microphone level is reported where only the level is available, in milliseconds
+const METERING_INTERVAL = 20;
+
+// Android's VOICE_RECOGNITION input, which skips the gain control and noise suppression
+// that would pump the level between elements
+const ANDROID_VOICE_RECOGNITION = 6;
+
+// Bytes of PCM Android delivers at a time; 64 ms at the recording sample rate
+const STREAM_BUFFER_SIZE = 2048;
+
+// Start of a recording searched for its WAV header; iOS pads the header to 4 KB
+const MAX_HEADER_SIZE = 65536;
+
+// iOS records 16-bit PCM WAV, written as it records. Android's MediaRecorder only writes
+// compressed audio, so Android streams PCM through LiveAudioStream and these Android options
+// go unused. Web's MediaRecorder is compressed too, so there the decoder follows the metering
+// level and cannot filter on the tone's pitch
+const RECORDING_OPTIONS: Audio.RecordingOptions = {
+  isMeteringEnabled: true,
+  android: {
+    extension: '.3gp',
+    outputFormat: Audio.AndroidOutputFormat.THREE_GPP,
+    audioEncoder: Audio.AndroidAudioEncoder.AMR_NB,
+    sampleRate: 8000,
+    numberOfChannels: 1,
+    bitRate: 12200,
+  },
+  ios: {
+    extension: '.wav',
+    outputFormat: Audio.IOSOutputFormat.LINEARPCM,
+    audioQuality: Audio.IOSAudioQuality.MAX,
+    sampleRate: RECORDING_SAMPLE_RATE,
+    numberOfChannels: 1,
+    bitRate: RECORDING_SAMPLE_RATE * 16,
+    linearPCMBitDepth: 16,
+    linearPCMIsBigEndian: false,
+    linearPCMIsFloat: false,
+  },
+  web: {
+    mimeType: 'audio/webm',
+    bitsPerSecond: 32000,
+  },
+};
+
+// Receives what the decoder has heard after each piece of audio
+type LiveDecodeCallback = (state: LiveDecodeState) => void;
+
+class MicrophoneService {
+  private recording: Audio.Recording | null = null;
+  private isStreaming = false;
+  private readTimer: ReturnType<typeof setInterval> | null = null;
+  private decoder: LiveDecoder | LevelDecoder | null = null;
+  // Bumped by every start and stop, so a start that was stopped while it waited gives up
+  private session = 0;
+
+  /**
+   * Whether the decoder can filter on the tone's pitch on this platform
+   * Elsewhere it follows the overall microphone level, so other sounds get through
+   */
+  canFilterTone(): boolean {
+    return Platform.OS !== 'web';
+  }
+
+  /**
+   * Check whether the microphone is being decoded
+   */
+  isListening(): boolean {
+    return this.recording !== null || this.isStreaming;
+  }
+
+  /**
+   * Start decoding Morse from the microphone
+   * Resolves without listening if stopListening is called before the recording has started
+   * @param frequency - Pitch to filter on in Hz, where the platform allows it
+   * @param onUpdate - Called with the decoded text, speed and signal level as audio arrives
+   * @param onError - Called if the recording cannot be read; listening stops first
+   */
+  async startListening(
+    frequency: number,
+    onUpdate: LiveDecodeCallback,
+    onError: (error: Error) => void
+  ): Promise<void> {
+    if (this.isListening()) {
+      throw new Error('Already listening');
+    }
+    const session = ++this.session;
+
+    const permission = await Audio.requestPermissionsAsync();
+    if (!permission.granted) {
+      throw new Error(MICROPHONE_DENIED);
+    }
+    if (session !== this.session) return;
+
+    if (Platform.OS === 'android') {
+      this.streamMicrophone(session, frequency, onUpdate, onError);
+      return;
+    }
+
+    await Audio.setAudioModeAsync({
+      allowsRecordingIOS: true,
+      playsInSilentModeIOS: true,
+    });
+    if (session !== this.session) {
+      await this.resetAudioMode();
+      return;
+    }
+
+    let recording: Audio.Recording;
+    try {
+      ({ recording } = await Audio.Recording.createAsync(RECORDING_OPTIONS));
+    } catch (error) {
+      await this.resetAudioMode();
+      throw error;
+    }
+    if (session !== this.session) {
+      await this.releaseRecording(recording);
+      return;
+    }
+    this.recording = recording;
+
+    const uri = recording.getURI();
+    if (this.canFilterTone() && uri) {
+      this.readRecording(uri, frequency, onUpdate, onError);
+    } else {
+      this.followMetering(recording, onUpdate);
+    }
+  }
+
+  /**
+   * Stop decoding and delete the recording, which is only kept while listening
+   */
+  async stopListening(): Promise<void> {
+    this.session++;
+    if (this.readTimer) {
+      clearInterval(this.readTimer);
+      this.readTimer = null;
+    }
+    if (this.isStreaming) {
+      // Android's stop never settles its promise, so it is not awaited
+      LiveAudioStream.stop();
+      this.isStreaming = false;
+      this.decoder = null;
+    }
+
+    const recording = this.recording;
+    if (!recording) {
+      return;
+    }
+    this.recording = null;
+    this.decoder = null;
+    await this.releaseRecording(recording);
+  }
+
+  /**
+   * Forget the text heard so far and keep listening
+   */
+  clear(): void {
+    this.decoder?.clear();
+  }
+
+  /**
+   * Stop a recording, give the audio session back to playback and delete the file
+   */
+  private async releaseRecording(recording: Audio.Recording): Promise<void> {
+    recording.setOnRecordingStatusUpdate(null);
+    try {
+      await recording.stopAndUnloadAsync();
+    } catch (error) {
+      console.error('[MicrophoneService] Failed to stop recording:', error);
+    }
+    await this.resetAudioMode();
+
+    const uri = recording.getURI();
+    try {
+      const file = uri ? new File(uri) : null;
+      if (file?.exists) {
+        file.delete();
+      }
+    } catch (error) {
+      console.warn('[MicrophoneService] Failed to delete recording:', error);
+    }
+  }
+
+  /**
+   * Turn recording off in the audio session so playback uses the speaker again
+   */
+  private async resetAudioMode(): Promise<void> {
+    try {
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: false });
+    } catch (error) {
+      console.error('[MicrophoneService] Failed to reset audio mode:', error);
+    }
+  }
+
+  /**
+   * Decode 16-bit PCM from the microphone as Android delivers it
+   */
+  private streamMicrophone(session: number, frequency: number, onUpdate: LiveDecodeCallback, onError: (error: Error) => void): void {
+    const decoder = AudioDecoderService.createLiveDecoder(frequency, RECORDING_SAMPLE_RATE);
+    this.decoder = decoder;
+    this.isStreaming = true;
+
+    LiveAudioStream.init({
+      sampleRate: RECORDING_SAMPLE_RATE,
+      channels: 1,
+      bitsPerSample: 16,
+      audioSource: ANDROID_VOICE_RECOGNITION,
+      bufferSize: STREAM_BUFFER_SIZE,
+      wavFile: '',
+    });
+    LiveAudioStream.on('data', (data) => {
+      // Buffers already on their way when listening stopped are dropped
+      if (session !== this.session) return;
+      try {
+        onUpdate(decoder.push(pcmToSamples(this.base64ToBytes(data), 1)));
+      } catch (error) {
+        console.error('[MicrophoneService] Failed to read microphone stream:', error);
+        this.stopListening();
+        onError(new Error('Could not read the microphone recording'));
+      }
+    });
+    LiveAudioStream.start();
+  }
+
+  /**
+   * Convert a base64 string to bytes
+   * @param base64 - Base64 encoded data
+   * @returns Decoded bytes
+   */
+  private base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  /**
+   * Read new samples from the PCM recording as it grows and decode them
+   */
+  private readRecording(uri: string, frequency: number, onUpdate: LiveDecodeCallback, onError: (error: Error) => void): void {
+    const file = new File(uri);
+    let format: WavFormat | null = null;
+    let decoder: LiveDecoder | null = null;
+    let offset = 0;
+
+    const read = () => {
+      const handle = file.open();
+      try {
+        const size = handle.size ?? 0;
+
+        // The header is read once enough of the file has been written
+        if (!format) {
+          handle.offset = 0;
+          try {
+            format = readWavHeader(handle.readBytes(Math.min(size, MAX_HEADER_SIZE)));
+          } catch (error) {
+            if (size < MAX_HEADER_SIZE) return;
+            throw error;
+          }
+          offset = format.dataOffset;
+          decoder = AudioDecoderService.createLiveDecoder(frequency, format.sampleRate);
+          this.decoder = decoder;
+        }
+
+        // Whole frames only; the rest is read next time
+        const frameSize = 2 * format.channels;
+        const length = Math.floor((size - offset) / frameSize) * frameSize;
+        if (length <= 0 || !decoder) return;
+
+        handle.offset = offset;
+        const bytes = handle.readBytes(length);
+        offset += length;
+        onUpdate(decoder.push(pcmToSamples(bytes, format.channels)));
+      } finally {
+        handle.close();
+      }
+    };
+
+    this.readTimer = setInterval(() => {
+      try {
+        read();
+      } catch (error) {
+        console.error('[MicrophoneService] Failed to read recording:', error);
+        this.stopListening();
+        onError(new Error('Could not read the microphone recording'));
+      }
+    }, READ_INTERVAL);
+  }
+
+  /**
+   * Decode the microphone's metering level, one level for every METERING_INTERVAL recorded
+   */
+  private followMetering(recording: Audio.Recording, onUpdate: LiveDecodeCallback): void {
+    const decoder = AudioDecoderService.createLevelDecoder(METERING_INTERVAL);
+    this.decoder = decoder;
+    let heard = 0;
+
+    recording.setProgressUpdateInterval(METERING_INTERVAL);
+    recording.setOnRecordingStatusUpdate((status) => {
+      if (!status.isRecording || status.metering === undefined) return;
+
+      // Status updates can arrive late, so the recorded time says how long the level lasted
+      const count = Math.round((status.durationMillis - heard) / METERING_INTERVAL);
+      if (count <= 0) return;
+      heard += count * METERING_INTERVAL;
+
+      // Metering is in dBFS
+      const level = Math.pow(10, status.metering / 20);
+      onUpdate(decoder.push(new Array(count).fill(level)));
+    });
+  }
+}
+
+// Export singleton instance
+export default new MicrophoneService();
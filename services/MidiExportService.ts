@@ -0,0 +1,157 @@
+import * as FileSystem from 'expo-file-system';
+import { File } from 'expo-file-system/next';
+import { MidiExportOptions, MorseTiming } from '../types/morse';
+import { formatWpm, isMarkTiming, isValidWpm, MAX_WPM, MIN_WPM } from '../utils/TimingUtils';
+import AudioService from './AudioService';
+
+// Ticks per quarter note
+const TICKS_PER_QUARTER = 480;
+
+// One dit is a sixteenth note
+const TICKS_PER_UNIT = TICKS_PER_QUARTER / 4;
+
+// Supported tempo range in quarter notes per minute
+export const MIN_TEMPO = 20;
+export const MAX_TEMPO = 300;
+
+const NOTE_VELOCITY = 100;
+const CHANNEL = 0;
+
+class MidiExportService {
+  /**
+   * Build a Standard MIDI File (format 0) in which every mark is one note and gaps are rests
+   * Note positions come from the running total, so rounding never accumulates
+   * @param timings - Array of timing objects, already resolved for the chosen speed
+   * @param options - Dit length, tempo and note
+   * @returns File bytes
+   */
+  encodeMidi(timings: MorseTiming[], options: MidiExportOptions): Uint8Array {
+    const { timeUnit } = options;
+    const note = options.note ?? this.frequencyToNote(AudioService.getToneSettings().frequency);
+    // A quarter note is four dits, so at the default tempo the file plays at the sending speed
+    const tempo = options.tempo ?? 60000 / (4 * timeUnit);
+
+    if (!Number.isInteger(note) || note < 0 || note > 127) {
+      throw new Error('Note must be a MIDI note number from 0 to 127');
+    }
+    // Only a chosen tempo is limited; real time at high speeds is faster than any score would be
+    if (options.tempo !== undefined && !(tempo >= MIN_TEMPO && tempo <= MAX_TEMPO)) {
+      throw new Error(`Tempo must be between ${MIN_TEMPO} and ${MAX_TEMPO} BPM`);
+    }
+
+    const events: number[] = [];
+    let lastTick = 0;
+    const addEvent = (tick: number, bytes: number[]) => {
+      events.push(...this.variableLength(tick - lastTick), ...bytes);
+      lastTick = tick;
+    };
+
+    // Tempo in microseconds per quarter note, then the track name
+    const microsecondsPerQuarter = Math.round(60000000 / tempo);
+    addEvent(0, [0xff, 0x51, 0x03, (microsecondsPerQuarter >> 16) & 0xff, (microsecondsPerQuarter >> 8) & 0xff, microsecondsPerQuarter & 0xff]);
+    const name = this.ascii('Morse code');
+    addEvent(0, [0xff, 0x03, name.length, ...name]);
+
+    let elapsed = 0;
+    for (const timing of timings) {
+      const start = Math.round((elapsed / timeUnit) * TICKS_PER_UNIT);
+      elapsed += timing.duration;
+      const end = Math.round((elapsed / timeUnit) * TICKS_PER_UNIT);
+
+      // Gaps only move time forward, leaving a rest before the next note
+      if (isMarkTiming(timing) && end > start) {
+        addEvent(start, [0x90 | CHANNEL, note, NOTE_VELOCITY]);
+        addEvent(end, [0x80 | CHANNEL, note, 0]);
+      }
+    }
+
+    // End of track after the last gap, so trailing rests are kept
+    addEvent(Math.max(lastTick, Math.round((elapsed / timeUnit) * TICKS_PER_UNIT)), [0xff, 0x2f, 0x00]);
+
+    const header = [
+      ...this.ascii('MThd'), ...this.uint32(6),
+      0x00, 0x00,           // Format 0: a single track
+      0x00, 0x01,           // One track
+      (TICKS_PER_QUARTER >> 8) & 0xff, TICKS_PER_QUARTER & 0xff,
+    ];
+    const track = [...this.ascii('MTrk'), ...this.uint32(events.length), ...events];
+
+    return Uint8Array.from([...header, ...track]);
+  }
+
+  /**
+   * Write Morse code timings to a MIDI file in the documents folder
+   * @param timings - Array of timing objects, already resolved for the chosen speed
+   * @param wpm - Speed the timings were generated at (5 to 60 WPM), shown in the filename
+   * @param options - Dit length, tempo and note
+   * @returns File URI of the generated MIDI file
+   */
+  async generateMidiFile(timings: MorseTiming[], wpm: number, options: MidiExportOptions): Promise<string> {
+    if (timings.length === 0) {
+      throw new Error('No timings provided');
+    }
+
+    if (!isValidWpm(wpm)) {
+      throw new Error(`Speed must be between ${MIN_WPM} and ${MAX_WPM} WPM`);
+    }
+
+    const bytes = this.encodeMidi(timings, options);
+
+    try {
+      // Generate filename with speed and timestamp
+      const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\..+/, '').replace('T', '_');
+      const fileUri = `${FileSystem.documentDirectory}morse_${formatWpm(wpm)}wpm_${timestamp}.mid`;
+
+      const file = new File(fileUri);
+      if (file.exists) {
+        file.delete();
+      }
+      file.create();
+      file.write(bytes);
+
+      return fileUri;
+    } catch (error) {
+      console.error('[MidiExportService] Failed to write MIDI file:', error);
+      throw new Error('MIDI file generation failed');
+    }
+  }
+
+  /**
+   * Nearest MIDI note to a frequency (A4 = 440 Hz = note 69)
+   * @param frequency - Frequency in Hz
+   * @returns MIDI note number
+   */
+  frequencyToNote(frequency: number): number {
+    return Math.min(127, Math.max(0, Math.round(69 + 12 * Math.log2(frequency / 440))));
+  }
+
+  /**
+   * Encode a delta time as a MIDI variable-length quantity
+   */
+  private variableLength(value: number): number[] {
+    const bytes = [value & 0x7f];
+    let rest = value >> 7;
+    while (rest > 0) {
+      bytes.unshift((rest & 0x7f) | 0x80);
+      rest >>= 7;
+    }
+    return bytes;
+  }
+
+  /**
+   * Encode a big-endian 32-bit length
+   */
+  private uint32(value: number): number[] {
+    return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+  }
+
+  /**
+   * Encode a chunk ID
+   */
+  private ascii(text: string): number[] {
+    return Array.from(text, c => c.charCodeAt(0));
+  }
+}
+
+// Export singleton instance
+export default new MidiExportService();
@@ -0,0 +1,429 @@
+import { MorseAlphabet, MorseAlphabetId } from '../types/morse';
+
+// Strips combining diacritics (accents, breathings, niqqud, harakat) after canonical decomposition
+export const stripMarks = (char: string): string =>
+  char.normalize('NFD').replace(/[\u0300-\u036f\u0591-\u05c7\u064b-\u065f\u0670]/g, '');
+
+// Russian Cyrillic
+const CYRILLIC_LETTERS: Record<string, string> = {
+  'А': '.-',
+  'Б': '-...',
+  'В': '.--',
+  'Г': '--.',
+  'Д': '-..',
+  'Е': '.',
+  'Ж': '...-',
+  'З': '--..',
+  'И': '..',
+  'Й': '.---',
+  'К': '-.-',
+  'Л': '.-..',
+  'М': '--',
+  'Н': '-.',
+  'О': '---',
+  'П': '.--.',
+  'Р': '.-.',
+  'С': '...',
+  'Т': '-',
+  'У': '..-',
+  'Ф': '..-.',
+  'Х': '....',
+  'Ц': '-.-.',
+  'Ч': '---.',
+  'Ш': '----',
+  'Щ': '--.-',
+  'Ъ': '--.--',
+  'Ы': '-.--',
+  'Ь': '-..-',
+  'Э': '..-..',
+  'Ю': '..--',
+  'Я': '.-.-',
+};
+
+// Greek
+const GREEK_LETTERS: Record<string, string> = {
+  'Α': '.-',
+  'Β': '-...',
+  'Γ': '--.',
+  'Δ': '-..',
+  'Ε': '.',
+  'Ζ': '--..',
+  'Η': '....',
+  'Θ': '-.-.',
+  'Ι': '..',
+  'Κ': '-.-',
+  'Λ': '.-..',
+  'Μ': '--',
+  'Ν': '-.',
+  'Ξ': '-..-',
+  'Ο': '---',
+  'Π': '.--.',
+  'Ρ': '.-.',
+  'Σ': '...',
+  'Τ': '-',
+  'Υ': '-.--',
+  'Φ': '..-.',
+  'Χ': '----',
+  'Ψ': '--.-',
+  'Ω': '.--',
+};
+
+// Hebrew (final forms are folded onto their base letters)
+const HEBREW_LETTERS: Record<string, string> = {
+  'א': '.-',
+  'ב': '-...',
+  'ג': '--.',
+  'ד': '-..',
+  'ה': '---',
+  'ו': '.',
+  'ז': '--..',
+  'ח': '....',
+  'ט': '..-',
+  'י': '..',
+  'כ': '-.-',
+  'ל': '.-..',
+  'מ': '--',
+  'נ': '-.',
+  'ס': '-.-.',
+  'ע': '.---',
+  'פ': '.--.',
+  'צ': '.--',
+  'ק': '--.-',
+  'ר': '.-.',
+  'ש': '...',
+  'ת': '-',
+};
+
+const HEBREW_FINAL_FORMS: Record<string, string> = {
+  'ך': 'כ',
+  'ם': 'מ',
+  'ן': 'נ',
+  'ף': 'פ',
+  'ץ': 'צ',
+};
+
+// Arabic
+const ARABIC_LETTERS: Record<string, string> = {
+  'ا': '.-',
+  'ب': '-...',
+  'ت': '-',
+  'ث': '-.-.',
+  'ج': '.---',
+  'ح': '....',
+  'خ': '---',
+  'د': '-..',
+  'ذ': '--..',
+  'ر': '.-.',
+  'ز': '---.',
+  'س': '...',
+  'ش': '----',
+  'ص': '-..-',
+  'ض': '...-',
+  'ط': '..-',
+  'ظ': '-.--',
+  'ع': '.-.-',
+  'غ': '--.',
+  'ف': '..-.',
+  'ق': '--.-',
+  'ك': '-.-',
+  'ل': '.-..',
+  'م': '--',
+  'ن': '-.',
+  'ه': '..-..',
+  'و': '.--',
+  'ي': '..',
+  'ء': '.',
+};
+
+// Letter variants left after stripping hamza and harakat
+const ARABIC_VARIANTS: Record<string, string> = {
+  'ٱ': 'ا',
+  'ة': 'ه',
+  'ى': 'ي',
+};
+
+// Japanese Wabun code, keyed by katakana
+const WABUN_LETTERS: Record<string, string> = {
+  'ア': '--.--',
+  'イ': '.-',
+  'ウ': '..-',
+  'エ': '-.---',
+  'オ': '.-...',
+  'カ': '.-..',
+  'キ': '-.-..',
+  'ク': '...-',
+  'ケ': '-.--',
+  'コ': '----',
+  'サ': '-.-.-',
+  'シ': '--.-.',
+  'ス': '---.-',
+  'セ': '.---.',
+  'ソ': '---.',
+  'タ': '-.',
+  'チ': '..-.',
+  'ツ': '.--.',
+  'テ': '.-.--',
+  'ト': '..-..',
+  'ナ': '.-.',
+  'ニ': '-.-.',
+  'ヌ': '....',
+  'ネ': '--.-',
+  'ノ': '..--',
+  'ハ': '-...',
+  'ヒ': '--..-',
+  'フ': '--..',
+  'ヘ': '.',
+  'ホ': '-..',
+  'マ': '-..-',
+  'ミ': '..-.-',
+  'ム': '-',
+  'メ': '-...-',
+  'モ': '-..-.',
+  'ヤ': '.--',
+  'ユ': '-..--',
+  'ヨ': '--',
+  'ラ': '...',
+  'リ': '--.',
+  'ル': '-.--.',
+  'レ': '---',
+  'ロ': '.-.-',
+  'ワ': '-.-',
+  'ヰ': '.-..-',
+  'ヱ': '.--..',
+  'ヲ': '.---',
+  'ン': '.-.-.',
+  '゛': '..',      // Dakuten, sent after the base kana
+  '゜': '..--.',   // Handakuten, sent after the base kana
+  'ー': '.--.-',   // Long vowel mark
+  '、': '.-.-.-',
+  '。': '.-.-..',
+  '（': '-.--.-',
+  '）': '.-..-.',
+};
+
+const SMALL_KANA: Record<string, string> = {
+  'ァ': 'ア',
+  'ィ': 'イ',
+  'ゥ': 'ウ',
+  'ェ': 'エ',
+  'ォ': 'オ',
+  'ッ': 'ツ',
+  'ャ': 'ヤ',
+  'ュ': 'ユ',
+  'ョ': 'ヨ',
+  'ヮ': 'ワ',
+};
+
+// Korean SKATS, keyed by compatibility jamo
+const SKATS_LETTERS: Record<string, string> = {
+  'ㄱ': '.-..',
+  'ㄴ': '..-.',
+  'ㄷ': '-...',
+  'ㄹ': '...-',
+  'ㅁ': '--',
+  'ㅂ': '.--',
+  'ㅅ': '--.',
+  'ㅇ': '-.-',
+  'ㅈ': '.--.',
+  'ㅊ': '-.-.',
+  'ㅋ': '-..-',
+  'ㅌ': '--..',
+  'ㅍ': '---',
+  'ㅎ': '.---',
+  'ㅏ': '.',
+  'ㅑ': '..',
+  'ㅓ': '-',
+  'ㅕ': '...',
+  'ㅗ': '.-',
+  'ㅛ': '-.',
+  'ㅜ': '....',
+  'ㅠ': '.-.',
+  'ㅡ': '-..',
+  'ㅣ': '..-',
+  'ㅐ': '--.-',
+  'ㅔ': '-.--',
+};
+
+// Hangul syllable components, in Unicode composition order
+const HANGUL_INITIALS = 'ㄱㄲㄴㄷㄸㄹㅁㅂㅃㅅㅆㅇㅈㅉㅊㅋㅌㅍㅎ';
+const HANGUL_MEDIALS = 'ㅏㅐㅑㅒㅓㅔㅕㅖㅗㅘㅙㅚㅛㅜㅝㅞㅟㅠㅡㅢㅣ';
+const HANGUL_FINALS = ['', 'ㄱ', 'ㄲ', 'ㄳ', 'ㄴ', 'ㄵ', 'ㄶ', 'ㄷ', 'ㄹ', 'ㄺ', 'ㄻ', 'ㄼ', 'ㄽ', 'ㄾ', 'ㄿ', 'ㅀ', 'ㅁ', 'ㅂ', 'ㅄ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'];
+const HANGUL_SYLLABLE_START = 0xac00;
+const HANGUL_SYLLABLE_END = 0xd7a3;
+
+// Double consonants, consonant clusters and compound vowels, sent as their parts
+const COMPOUND_JAMO: Record<string, string> = {
+  'ㄲ': 'ㄱㄱ',
+  'ㄸ': 'ㄷㄷ',
+  'ㅃ': 'ㅂㅂ',
+  'ㅆ': 'ㅅㅅ',
+  'ㅉ': 'ㅈㅈ',
+  'ㄳ': 'ㄱㅅ',
+  'ㄵ': 'ㄴㅈ',
+  'ㄶ': 'ㄴㅎ',
+  'ㄺ': 'ㄹㄱ',
+  'ㄻ': 'ㄹㅁ',
+  'ㄼ': 'ㄹㅂ',
+  'ㄽ': 'ㄹㅅ',
+  'ㄾ': 'ㄹㅌ',
+  'ㄿ': 'ㄹㅍ',
+  'ㅀ': 'ㄹㅎ',
+  'ㅄ': 'ㅂㅅ',
+  'ㅒ': 'ㅑㅣ',
+  'ㅖ': 'ㅕㅣ',
+  'ㅘ': 'ㅗㅏ',
+  'ㅙ': 'ㅗㅐ',
+  'ㅚ': 'ㅗㅣ',
+  'ㅝ': 'ㅜㅓ',
+  'ㅞ': 'ㅜㅔ',
+  'ㅟ': 'ㅜㅣ',
+  'ㅢ': 'ㅡㅣ',
+};
+
+/**
+ * Split a precomposed Hangul syllable into SKATS jamo
+ * @param char - Upper-cased input character
+ * @returns Jamo sequence, or the character unchanged if it is not Hangul
+ */
+const decomposeHangul = (char: string): string => {
+  const code = char.charCodeAt(0);
+  let jamo = char;
+
+  if (code >= HANGUL_SYLLABLE_START && code <= HANGUL_SYLLABLE_END) {
+    const offset = code - HANGUL_SYLLABLE_START;
+    const initial = Math.floor(offset / (21 * 28));
+    const medial = Math.floor((offset % (21 * 28)) / 28);
+    const final = offset % 28;
+    jamo = HANGUL_INITIALS[initial] + HANGUL_MEDIALS[medial] + HANGUL_FINALS[final];
+  }
+
+  return jamo.split('').map(part => COMPOUND_JAMO[part] || part).join('');
+};
+
+/**
+ * Fold hiragana, small kana and voicing marks onto Wabun katakana
+ * @param char - Upper-cased input character
+ * @returns Katakana followed by any dakuten/handakuten
+ */
+const normalizeKana = (char: string): string =>
+  char
+    .normalize('NFD')
+    .split('')
+    .map(part => {
+      const code = part.charCodeAt(0);
+      if (code >= 0x3041 && code <= 0x3096) {
+        part = String.fromCharCode(code + 0x60); // Hiragana to katakana
+      }
+      if (part === '\u3099') return '゛';
+      if (part === '\u309a') return '゜';
+      return SMALL_KANA[part] || part;
+    })
+    .join('');
+
+// Prosign sent before switching into Wabun, and the one that switches back (SN)
+export const WABUN_START_SIGNAL = '-..---';
+export const WABUN_END_SIGNAL = '...-.';
+
+// American Morse symbols beyond dot and dash
+export const INTRA_CHAR_SPACE = '\u2009';  // Thin space inside C, O, R, Y, Z and &
+export const LONG_DAH = '\u2E3A';          // Two-em dash for L
+export const EXTRA_LONG_DAH = '\u2E3B';    // Three-em dash for zero
+
+// American (railroad) Morse code
+export const AMERICAN_MORSE_CODE_MAP: Record<string, string> = {
+  'A': '.-',
+  'B': '-...',
+  'C': `..${INTRA_CHAR_SPACE}.`,
+  'D': '-..',
+  'E': '.',
+  'F': '.-.',
+  'G': '--.',
+  'H': '....',
+  'I': '..',
+  'J': '-.-.',
+  'K': '-.-',
+  'L': LONG_DAH,
+  'M': '--',
+  'N': '-.',
+  'O': `.${INTRA_CHAR_SPACE}.`,
+  'P': '.....',
+  'Q': '..-.',
+  'R': `.${INTRA_CHAR_SPACE}..`,
+  'S': '...',
+  'T': '-',
+  'U': '..-',
+  'V': '...-',
+  'W': '.--',
+  'X': '.-..',
+  'Y': `..${INTRA_CHAR_SPACE}..`,
+  'Z': `...${INTRA_CHAR_SPACE}.`,
+
+  '0': EXTRA_LONG_DAH,
+  '1': '.--.',
+  '2': '..-..',
+  '3': '...-.',
+  '4': '....-',
+  '5': '---',
+  '6': '......',
+  '7': '--..',
+  '8': '-....',
+  '9': '-..-',
+
+  '.': '..--..',
+  ',': '.-.-',
+  '?': '-..-.',
+  '&': `.${INTRA_CHAR_SPACE}...`,
+
+  ' ': '/'
+};
+
+// Selectable alphabets; Latin letters live in the main MORSE_CODE_MAP
+export const ALPHABETS: Record<MorseAlphabetId, MorseAlphabet> = {
+  latin: {
+    id: 'latin',
+    name: 'Latin',
+    letters: {},
+  },
+  cyrillic: {
+    id: 'cyrillic',
+    name: 'Русский',
+    letters: CYRILLIC_LETTERS,
+    normalize: char => (char === 'Ё' ? 'Е' : char),
+  },
+  greek: {
+    id: 'greek',
+    name: 'Ελληνικά',
+    letters: GREEK_LETTERS,
+    normalize: stripMarks,
+  },
+  hebrew: {
+    id: 'hebrew',
+    name: 'עברית',
+    letters: HEBREW_LETTERS,
+    normalize: char => {
+      const base = stripMarks(char);
+      return HEBREW_FINAL_FORMS[base] || base;
+    },
+  },
+  arabic: {
+    id: 'arabic',
+    name: 'العربية',
+    letters: ARABIC_LETTERS,
+    normalize: char => {
+      const base = stripMarks(char);
+      return ARABIC_VARIANTS[base] || base;
+    },
+  },
+  wabun: {
+    id: 'wabun',
+    name: '和文',
+    letters: WABUN_LETTERS,
+    normalize: normalizeKana,
+  },
+  skats: {
+    id: 'skats',
+    name: '한국어',
+    letters: SKATS_LETTERS,
+    normalize: decomposeHangul,
+  },
+};
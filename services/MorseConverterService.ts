@@ -1,4 +1,37 @@
-import { MorseTiming, TimingConfig } from '../types/morse';
+import {
+  CharacterFallback,
+  CodeConflict,
+  CustomCodeTable,
+  EncodedCharacter,
+  EncodeResult,
+  FallbackPolicy,
+  MorseAlphabet,
+  MorseAlphabetId,
+  MorseCodeStandard,
+  MorseDecodeResult,
+  MorseTiming,
+  TextValidationResult,
+  TimingConfig,
+  UndecodedSequence,
+} from '../types/morse';
+import {
+  ALPHABETS,
+  AMERICAN_MORSE_CODE_MAP,
+  EXTRA_LONG_DAH,
+  INTRA_CHAR_SPACE,
+  LONG_DAH,
+  stripMarks,
+  WABUN_END_SIGNAL,
+  WABUN_START_SIGNAL,
+} from './MorseAlphabets';
+import {
+  GAP_UNITS_PER_WORD,
+  MAX_WEIGHTING,
+  MIN_WEIGHTING,
+  STANDARD_WEIGHTING,
+  UNITS_PER_WORD,
+  wpmToTimeUnit,
+} from '../utils/TimingUtils';
 
 // International Morse Code lookup table
 const MORSE_CODE_MAP: Record<string, string> = {
@@ -66,20 +99,310 @@ const MORSE_CODE_MAP: Record<string, string> = {
   ' ': '/'
 };
 
+// Procedural signals, sent as one character with no letter gap between their parts
+const PROSIGNS: Record<string, string> = {
+  'AR': '.-.-.',      // End of message
+  'AS': '.-...',      // Wait
+  'BT': '-...-',      // Break / new paragraph
+  'CT': '-.-.-',      // Attention / start of transmission
+  'DO': '-..---',     // Switch to Wabun (Japanese) code
+  'HH': '........',   // Error, sent in place of characters that have no code
+  'KN': '-.--.',      // Go ahead, named station only
+  'SK': '...-.-',     // End of contact
+  'SN': '...-.',      // Understood
+  'SOS': '...---...', // Distress
+};
+
+// Accented and national Latin letters: the ITU accented E plus codes in common use across Europe.
+// Letters that share a code are listed with the one preferred when decoding first.
+const EXTENDED_LATIN_MAP: Record<string, string> = {
+  'À': '.--.-',
+  'Ä': '.-.-',
+  'Ç': '-.-..',
+  'É': '..-..',
+  'È': '.-..-',
+  'Ñ': '--.--',
+  'Ö': '---.',
+  'Ü': '..--',
+  'Å': '.--.-',
+  'Æ': '.-.-',
+  'Ą': '.-.-',
+  'Ć': '-.-..',
+  'Ĉ': '-.-..',
+  'Ð': '..--.',
+  'Ę': '..-..',
+  'Ł': '.-..-',
+  'Ĝ': '--.-.',
+  'Ĥ': '----',
+  'Ĵ': '.---.',
+  'Ń': '--.--',
+  'Ó': '---.',
+  'Ø': '---.',
+  'Ś': '...-...',
+  'Ŝ': '...-.',
+  'Þ': '.--..',
+  'Ŭ': '..--',
+  'Ź': '--..-.',
+  'Ż': '--..-',
+};
+
+// German and Czech CH, sent as one letter when the digraph option is on
+const CH_DIGRAPH = 'CH';
+const CH_DIGRAPH_CODE = '----';
+
+// Spellings for letters that do not reduce to a base letter by removing accents
+const TRANSLITERATIONS: Record<string, string> = {
+  'Œ': 'OE',
+  'Đ': 'D',
+  'Ħ': 'H',
+  'Ŋ': 'NG',
+  'Ŧ': 'T',
+  'ẞ': 'SS',
+};
+
+// Prosign written inline as <SK> or [AR]
+const PROSIGN_PATTERN = /<([A-Z0-9]+)>|\[([A-Z0-9]+)\]/iy;
+
+// Dot and dash look-alikes accepted when Morse is typed or pasted, each replaced one for one
+const MORSE_SYMBOL_ALIASES: Record<string, string> = {
+  '·': '.',
+  '•': '.',
+  '∙': '.',
+  '−': '-',
+  '–': '-',
+  '—': '-',
+  '_': '-',
+};
+
+// Text counts as Morse when at least this share of its non-space characters are dots, dashes or separators
+const MORSE_DETECTION_RATIO = 0.9;
+// ...and it has at least this many dots and dashes, so an ellipsis or a dash alone stays text
+const MIN_DETECTED_MORSE_SYMBOLS = 4;
+
+// Placeholder inserted into decoded text for groups missing from the lookup table
+export const UNKNOWN_CHARACTER = '\uFFFD';
+
+// Splits Morse input into dot/dash groups (American groups may contain thin spaces),
+// explicit word separators, whitespace runs and stray characters
+const MORSE_TOKEN_PATTERN = /[.\-\u2E3A\u2E3B]+(?:\u2009[.\-\u2E3A\u2E3B]+)*|[\/|]|\s+|[^.\-\/|\s]+/g;
+
 class MorseConverterService {
+  private alphabet: MorseAlphabet = ALPHABETS.latin;
+  private standard: MorseCodeStandard = 'international';
+  private codeTable: Record<string, string> = { ...MORSE_CODE_MAP, ...EXTENDED_LATIN_MAP };
+  private latinIndex: Record<string, string> = this.buildReverseIndex(
+    MORSE_CODE_MAP,
+    { [CH_DIGRAPH]: CH_DIGRAPH_CODE },
+    this.prosignTable(),
+    EXTENDED_LATIN_MAP
+  );
+  private reverseIndex: Record<string, string> = this.latinIndex;
+  private customTable: CustomCodeTable | null = null;
+  private fallbackPolicy: FallbackPolicy = 'transliterate';
+  private chDigraph = false;
+  // Bumped whenever a setting changes what text encodes to or how Morse is timed
+  private revision = 0;
+
   private defaultTimingConfig: TimingConfig = {
     timeUnit: 120,
     ditDuration: 120,      // 1 time unit
     dahDuration: 360,      // 3 time units
+    longDahDuration: 480,  // 4 time units
+    extraLongDahDuration: 600, // 5 time units
     symbolGap: 120,        // 1 time unit
+    intraCharSpace: 240,   // 2 time units
     letterGap: 360,        // 3 time units
     wordGap: 840,          // 7 time units
-    frequency: 600
+    characterWpm: 10,
+    effectiveWpm: 10,
+    speedStandard: 'PARIS',
+    weighting: 50,
+    dahRatio: 3,
+    symbolGapUnits: 1,
+    letterGapUnits: 3,
+    wordGapUnits: 7
   };
 
+  /**
+   * Select the alphabet used for encoding, decoding and validation
+   * @param id - Alphabet identifier
+   */
+  setAlphabet(id: MorseAlphabetId): void {
+    const alphabet = ALPHABETS[id];
+    if (!alphabet) {
+      throw new Error(`Unknown alphabet: ${id}`);
+    }
+
+    this.alphabet = alphabet;
+    this.rebuildTables();
+  }
+
+  /**
+   * Get the currently selected alphabet
+   */
+  getAlphabet(): MorseAlphabet {
+    return this.alphabet;
+  }
+
+  /**
+   * Get all selectable alphabets
+   */
+  getAlphabets(): MorseAlphabet[] {
+    return Object.values(ALPHABETS);
+  }
+
+  /**
+   * Select International or American (railroad) Morse
+   * American Morse has its own table and timing and ignores the selected alphabet
+   * @param standard - Code standard
+   */
+  setCodeStandard(standard: MorseCodeStandard): void {
+    this.standard = standard;
+    this.rebuildTables();
+  }
+
+  /**
+   * Get the currently selected code standard
+   */
+  getCodeStandard(): MorseCodeStandard {
+    return this.standard;
+  }
+
+  /**
+   * Choose what is sent for characters that have no code
+   * @param policy - 'transliterate' spells them with similar letters (é→E, ß→SS),
+   * 'error' sends the error prosign and 'drop' leaves them out
+   */
+  setFallbackPolicy(policy: FallbackPolicy): void {
+    this.fallbackPolicy = policy;
+    this.revision++;
+  }
+
+  /**
+   * Get the current fallback policy
+   */
+  getFallbackPolicy(): FallbackPolicy {
+    return this.fallbackPolicy;
+  }
+
+  /**
+   * Send CH as the single letter ---- instead of C followed by H
+   * @param enabled - Whether CH is encoded as one letter
+   */
+  setChDigraph(enabled: boolean): void {
+    this.chDigraph = enabled;
+    this.revision++;
+  }
+
+  /**
+   * Check whether CH is encoded as one letter
+   */
+  isChDigraphEnabled(): boolean {
+    return this.chDigraph;
+  }
+
+  /**
+   * Layer a user-defined table over the International table, or remove it
+   * Custom codes win over standard ones when encoding and decoding
+   * @param table - Custom table, normally checked with findAmbiguousCodes first, or null
+   */
+  setCustomCodeTable(table: CustomCodeTable | null): void {
+    this.customTable = table;
+    this.rebuildTables();
+  }
+
+  /**
+   * Get the active custom code table
+   */
+  getCustomCodeTable(): CustomCodeTable | null {
+    return this.customTable;
+  }
+
+  /**
+   * Find codes in a custom table that would decode to more than one character
+   * Codes shared only by standard characters (such as Ä and Æ) are not reported
+   * @param codes - Custom table entries keyed by character or <NAME> sign
+   * @returns Each clashing code with the characters that share it
+   */
+  findAmbiguousCodes(codes: Record<string, string>): CodeConflict[] {
+    const overridden = new Set(Object.keys(codes));
+    const standard = {
+      ...this.withoutKeys(MORSE_CODE_MAP, overridden),
+      ...this.withoutKeys(EXTENDED_LATIN_MAP, overridden),
+      ...this.withoutKeys(this.prosignTable(), overridden),
+    };
+
+    const conflicts: CodeConflict[] = [];
+    for (const [char, code] of Object.entries(codes)) {
+      if (conflicts.some(conflict => conflict.code === code)) {
+        continue;
+      }
+
+      const characters = [
+        ...Object.keys(codes).filter(key => codes[key] === code),
+        ...Object.keys(standard).filter(key => key !== ' ' && standard[key] === code),
+      ];
+      if (characters.length > 1) {
+        conflicts.push({ code, characters });
+      }
+    }
+    return conflicts;
+  }
+
+  /**
+   * Get a counter that changes whenever encoding or timing settings change
+   * Callers that cache conversions compare it to know when to start over
+   */
+  getRevision(): number {
+    return this.revision;
+  }
+
+  /**
+   * Rebuild the encoding table and decoding index after a table setting changes
+   */
+  private rebuildTables(): void {
+    this.revision++;
+    if (this.standard === 'american') {
+      this.codeTable = AMERICAN_MORSE_CODE_MAP;
+      this.reverseIndex = this.buildReverseIndex(this.codeTable);
+      return;
+    }
+
+    const customCodes = this.customTable?.codes ?? {};
+    const overridden = new Set(Object.keys(customCodes));
+    const customChars = Object.fromEntries(
+      Object.entries(customCodes).filter(([key]) => !this.isSignKey(key))
+    );
+    const baseTable = this.withoutKeys({ ...this.alphabet.letters, ...MORSE_CODE_MAP }, overridden);
+    const extendedTable = this.withoutKeys(EXTENDED_LATIN_MAP, overridden);
+
+    this.codeTable = { ...baseTable, ...extendedTable, ...customChars };
+    this.reverseIndex = this.buildReverseIndex(
+      customCodes,
+      baseTable,
+      { [CH_DIGRAPH]: CH_DIGRAPH_CODE },
+      this.withoutKeys(this.prosignTable(), overridden),
+      extendedTable
+    );
+  }
+
+  /**
+   * Check whether a table key is a <NAME> sign rather than a single character such as '<'
+   */
+  private isSignKey(key: string): boolean {
+    return key.length > 1 && key.startsWith('<');
+  }
+
+  /**
+   * Copy a table without the given keys
+   */
+  private withoutKeys(table: Record<string, string>, keys: Set<string>): Record<string, string> {
+    return Object.fromEntries(Object.entries(table).filter(([key]) => !keys.has(key)));
+  }
+
   /**
    * Convert text to Morse code
-   * @param text - Input text to convert
+   * @param text - Input text to convert, prosigns written as <SK> or [AR]
    * @returns Morse code string with dots, dashes, and forward slashes for word separation
    */
   textToMorse(text: string): string {
@@ -87,63 +410,347 @@ class MorseConverterService {
       return '';
     }
 
-    const upperText = text.toUpperCase();
-    const words = upperText.split(' ');
-    
-    const morseWords = words.map(word => {
-      const letters = word.split('');
-      const morseLetters = letters
-        .map(char => MORSE_CODE_MAP[char] || '')
-        .filter(morse => morse.length > 0);
-      
-      return morseLetters.join(' ');
-    }).filter(word => word.length > 0);
+    return this.encodeText(text).morse;
+  }
+
+  /**
+   * Convert text to Morse code and timings, recording which input character produced what
+   * @param text - Input text to convert, prosigns written as <SK> or [AR]
+   * @param timing - Base time unit in milliseconds (default: 120), or timing options
+   * @returns Morse string, timings whose charIndex is the source offset, and per-character spans
+   */
+  encode(text: string, timing: number | Partial<TimingConfig> = 120): EncodeResult {
+    const { morse, characters } = this.encodeText(text);
+    const morseTimings = this.morseToTiming(morse, timing);
+    const timings: MorseTiming[] = morseTimings.map(entry => ({
+      type: entry.type,
+      duration: entry.duration,
+    }));
+
+    // morseToTiming tags entries with Morse offsets; claim them for the character covering that span
+    let next = 0;
+    for (const character of characters) {
+      while (
+        next < morseTimings.length &&
+        (morseTimings[next].charIndex === undefined ||
+          (morseTimings[next].charIndex as number) < character.morseStart)
+      ) {
+        next++;
+      }
 
-    return morseWords.join(' / ');
+      let end = next;
+      for (let i = next; i < morseTimings.length; i++) {
+        const offset = morseTimings[i].charIndex;
+        if (offset === undefined) {
+          continue;
+        }
+        if (offset >= character.morseEnd) {
+          break;
+        }
+        end = i + 1;
+      }
+
+      character.timingStart = next;
+      character.timingEnd = end;
+      for (let i = next; i < end; i++) {
+        timings[i].charIndex = character.sourceIndex;
+      }
+      next = end;
+    }
+
+    return { morse, timings, characters };
   }
 
   /**
-   * Convert Morse code string to timing sequences for audio/flashlight
-   * @param morse - Morse code string (dots, dashes, spaces, slashes)
-   * @param timeUnit - Base time unit in milliseconds (default: 120)
-   * @returns Array of timing objects
+   * Encode text letter by letter, tracking where each character lands in the Morse string
+   * @param text - Input text
+   * @returns Morse string and per-character spans (timing ranges left for encode to fill)
    */
-  morseToTiming(morse: string, timeUnit: number = 120): MorseTiming[] {
+  private encodeText(text: string): { morse: string; characters: EncodedCharacter[] } {
+    const characters: EncodedCharacter[] = [];
+    let morse = '';
+    let wordOffset = 0;
+    let inWabun = false;
+
+    for (const word of text.split(' ')) {
+      // Words that produce no letters leave no trace, so only one separator goes between words
+      let separator = morse.length > 0 ? ' / ' : '';
+      const appendLetter = (code: string): number => {
+        morse += separator;
+        separator = ' ';
+        morse += code;
+        return morse.length - code.length;
+      };
+
+      for (const { token, offset, length } of this.tokenizeWord(word)) {
+        const { codes, fallback } = this.encodeWithFallback(token);
+
+        // Wabun traffic is bracketed by DO when kana start and SN when Latin letters resume
+        if (codes.length > 0 && this.isWabun()) {
+          const isKana = this.normalizeChar(token).charAt(0) in this.alphabet.letters;
+          if (isKana && !inWabun) {
+            appendLetter(WABUN_START_SIGNAL);
+            inWabun = true;
+          } else if (/^[A-Z]$/i.test(token) && inWabun) {
+            appendLetter(WABUN_END_SIGNAL);
+            inWabun = false;
+          }
+        }
+
+        const starts = codes.map(appendLetter);
+        const sourceIndex = wordOffset + offset;
+        characters.push({
+          source: text.slice(sourceIndex, sourceIndex + length),
+          sourceIndex,
+          morseStart: starts.length > 0 ? starts[0] : morse.length,
+          morseEnd: morse.length,
+          timingStart: 0,
+          timingEnd: 0,
+          ...(fallback ? { fallback: fallback.policy } : {}),
+        });
+      }
+
+      wordOffset += word.length + 1;
+    }
+
+    return { morse, characters };
+  }
+
+  /**
+   * Convert Morse code back to text
+   * @param morse - Morse code using spaces between letters and '/', '|' or multiple spaces between words
+   * @returns Decoded text and the groups that could not be decoded, with their offsets in the input
+   */
+  morseToText(morse: string): MorseDecodeResult {
+    const unknownSequences: UndecodedSequence[] = [];
     if (!morse || morse.trim().length === 0) {
-      return [];
+      return { text: '', unknownSequences };
     }
 
-    const timings: MorseTiming[] = [];
+    const words: string[] = [];
+    let currentWord = '';
+
+    // Wabun copy starts in international code and switches on DO / SN
+    const isWabun = this.isWabun();
+    let index = isWabun ? this.latinIndex : this.reverseIndex;
+
+    const endWord = () => {
+      if (currentWord.length > 0) {
+        words.push(currentWord);
+        currentWord = '';
+      }
+    };
+
+    for (const match of morse.matchAll(MORSE_TOKEN_PATTERN)) {
+      const token = match[0];
+      const position = match.index ?? 0;
+
+      if (token === '/' || token === '|') {
+        endWord();
+      } else if (/^\s+$/.test(token)) {
+        // A single space separates letters, anything longer separates words
+        if (token.length > 1) {
+          endWord();
+        }
+      } else if (isWabun && token === WABUN_START_SIGNAL) {
+        index = this.reverseIndex;
+      } else if (isWabun && token === WABUN_END_SIGNAL && index === this.reverseIndex) {
+        index = this.latinIndex;
+      } else {
+        const char = index[token];
+        if (char) {
+          currentWord += char;
+        } else {
+          currentWord += UNKNOWN_CHARACTER;
+          unknownSequences.push({ sequence: token, position });
+        }
+      }
+    }
+    endWord();
+
+    return { text: words.join(' '), unknownSequences };
+  }
+
+  /**
+   * Check Morse typed or pasted by the user
+   * Look-alike symbols such as · and − count as dots and dashes
+   * @param morse - Morse as entered
+   * @returns Decoded text and the groups that are not in the code table or are not Morse at all,
+   *          with offsets in the entered string
+   */
+  validateMorse(morse: string): MorseDecodeResult {
+    return this.morseToText(this.replaceSymbolAliases(morse));
+  }
+
+  /**
+   * Guess whether text entered as plain text is really Morse code, e.g. a pasted message
+   * @param text - Text as entered
+   * @returns true when nearly every character is a dot, dash, separator or whitespace
+   *          and both dots and dashes appear
+   */
+  looksLikeMorse(text: string): boolean {
+    const symbols = this.replaceSymbolAliases(text).replace(/\s+/g, '');
+    const dots = symbols.split('.').length - 1;
+    const dashes = symbols.split('-').length - 1;
+    const separators = symbols.split(/[\/|]/).length - 1;
+
+    return (
+      dots > 0 &&
+      dashes > 0 &&
+      dots + dashes >= MIN_DETECTED_MORSE_SYMBOLS &&
+      (dots + dashes + separators) / symbols.length >= MORSE_DETECTION_RATIO
+    );
+  }
+
+  /**
+   * Clean up Morse typed or pasted by the user so it can be played exactly as written
+   * Letters are kept even if they are not in the code table; anything that is not Morse is removed
+   * @param morse - Morse as entered
+   * @returns Morse with single spaces between letters and ' / ' between words
+   */
+  normalizeMorse(morse: string): string {
+    return this.replaceSymbolAliases(morse)
+      .replace(/ ?[^.\-\u2E3A\u2E3B\u2009\/|\s]+/g, '')
+      .replace(/(?:[^\S\u2009]*[\/|])+[^\S\u2009]*|[^\S\u2009]{2,}/g, ' / ')
+      .replace(/[^\S\u2009]/g, ' ')
+      .replace(/^[\s\/]+|[\s\/]+$/g, '');
+  }
+
+  /**
+   * Swap look-alike symbols for dots and dashes without changing offsets
+   */
+  private replaceSymbolAliases(morse: string): string {
+    return morse.replace(/[·•∙−–—_]/g, symbol => MORSE_SYMBOL_ALIASES[symbol]);
+  }
+
+  /**
+   * Resolve timing options into element durations
+   * Speeds are words per minute of the PARIS or CODEX reference word
+   * With effectiveWpm below characterWpm, letter and word gaps follow the ARRL Farnsworth formula
+   * Weighting, dah ratio and gap multipliers reshape the elements without changing the time unit
+   * @param timing - Base time unit in milliseconds, or partial timing options
+   * @returns Complete timing configuration
+   */
+  resolveTimingConfig(timing: number | Partial<TimingConfig> = 120): TimingConfig {
+    const options: Partial<TimingConfig> = typeof timing === 'number' ? { timeUnit: timing } : timing;
+    const speedStandard = options.speedStandard ?? this.defaultTimingConfig.speedStandard;
+    const unitsPerWord = UNITS_PER_WORD[speedStandard];
+    const timeUnit = options.characterWpm
+      ? wpmToTimeUnit(options.characterWpm, speedStandard)
+      : options.timeUnit ?? this.defaultTimingConfig.timeUnit;
+    const characterWpm = 60000 / (unitsPerWord * timeUnit);
+    const effectiveWpm = Math.min(options.effectiveWpm ?? characterWpm, characterWpm);
+    const weighting = Math.min(Math.max(options.weighting ?? STANDARD_WEIGHTING, MIN_WEIGHTING), MAX_WEIGHTING);
+    const dahRatio = options.dahRatio ?? (this.standard === 'american' ? 2 : 3);
+    const symbolGapUnits = options.symbolGapUnits ?? this.defaultTimingConfig.symbolGapUnits;
+    const letterGapUnits = options.letterGapUnits ?? this.defaultTimingConfig.letterGapUnits;
+    const wordGapUnits = options.wordGapUnits ?? this.defaultTimingConfig.wordGapUnits;
+
     const config: TimingConfig = {
       ...this.defaultTimingConfig,
+      ...options,
       timeUnit,
       ditDuration: timeUnit,
-      dahDuration: timeUnit * 3,
-      symbolGap: timeUnit,
-      letterGap: timeUnit * 3,
-      wordGap: timeUnit * 7
+      dahDuration: timeUnit * dahRatio,
+      longDahDuration: timeUnit * 4,
+      extraLongDahDuration: timeUnit * 5,
+      symbolGap: timeUnit * symbolGapUnits,
+      intraCharSpace: timeUnit * 2,
+      letterGap: timeUnit * letterGapUnits,
+      wordGap: timeUnit * wordGapUnits,
+      characterWpm,
+      effectiveWpm,
+      speedStandard,
+      weighting,
+      dahRatio,
+      symbolGapUnits,
+      letterGapUnits,
+      wordGapUnits
     };
 
+    if (effectiveWpm < characterWpm) {
+      // Time left for spacing in one reference word at the effective speed, spread over its
+      // 19 gap units (3 per letter gap, 7 per word gap); for PARIS this is (60c - 37.2s) / cs
+      const characterTime = (unitsPerWord - GAP_UNITS_PER_WORD) * timeUnit;
+      const spacingDelay = 60000 / effectiveWpm - characterTime;
+      config.letterGap = (letterGapUnits * spacingDelay) / GAP_UNITS_PER_WORD;
+      config.wordGap = (wordGapUnits * spacingDelay) / GAP_UNITS_PER_WORD;
+    }
+
+    if (weighting !== STANDARD_WEIGHTING) {
+      // Heavier weighting moves time from each gap into the mark before it, so speed is unchanged
+      const shift = ((weighting - STANDARD_WEIGHTING) / STANDARD_WEIGHTING) * timeUnit;
+      config.ditDuration += shift;
+      config.dahDuration += shift;
+      config.longDahDuration += shift;
+      config.extraLongDahDuration += shift;
+      config.symbolGap = Math.max(config.symbolGap - shift, 0);
+      config.intraCharSpace = Math.max(config.intraCharSpace - shift, 0);
+      config.letterGap = Math.max(config.letterGap - shift, 0);
+      config.wordGap = Math.max(config.wordGap - shift, 0);
+    }
+
+    return config;
+  }
+
+  /**
+   * Convert Morse code string to timing sequences for audio/flashlight
+   * @param morse - Morse code string (dots, dashes, spaces, slashes)
+   * @param timing - Base time unit in milliseconds (default: 120), or timing options such as
+   *                 characterWpm and effectiveWpm for Farnsworth spacing
+   * @returns Array of timing objects; marks and gaps inside a letter carry the letter's offset as charIndex
+   */
+  morseToTiming(morse: string, timing: number | Partial<TimingConfig> = 120): MorseTiming[] {
+    if (!morse || morse.trim().length === 0) {
+      return [];
+    }
+
+    const timings: MorseTiming[] = [];
+    const config = this.resolveTimingConfig(timing);
+    // Offset of the letter group being sent, used as charIndex for its marks and inner gaps
+    let groupStart = 0;
+    const isSymbolNext = (index: number) =>
+      index + 1 < morse.length &&
+      morse[index + 1] !== ' ' &&
+      morse[index + 1] !== '/' &&
+      morse[index + 1] !== INTRA_CHAR_SPACE;
+
     let i = 0;
     while (i < morse.length) {
       const char = morse[i];
 
+      if (
+        (char === '.' || char === '-' || char === LONG_DAH || char === EXTRA_LONG_DAH) &&
+        (i === 0 || morse[i - 1] === ' ' || morse[i - 1] === '/')
+      ) {
+        groupStart = i;
+      }
+
       if (char === '.') {
         // Dit (dot)
-        timings.push({ type: 'dit', duration: config.ditDuration });
+        timings.push({ type: 'dit', duration: config.ditDuration, charIndex: groupStart });
         
         // Add symbol gap if next character is a symbol (not space or slash)
-        if (i + 1 < morse.length && morse[i + 1] !== ' ' && morse[i + 1] !== '/') {
-          timings.push({ type: 'symbolGap', duration: config.symbolGap });
+        if (isSymbolNext(i)) {
+          timings.push({ type: 'symbolGap', duration: config.symbolGap, charIndex: groupStart });
+        }
+      } else if (char === '-' || char === LONG_DAH || char === EXTRA_LONG_DAH) {
+        // Dah (dash), or the long dashes of American Morse L and zero
+        if (char === LONG_DAH) {
+          timings.push({ type: 'longDah', duration: config.longDahDuration, charIndex: groupStart });
+        } else if (char === EXTRA_LONG_DAH) {
+          timings.push({ type: 'extraLongDah', duration: config.extraLongDahDuration, charIndex: groupStart });
+        } else {
+          timings.push({ type: 'dah', duration: config.dahDuration, charIndex: groupStart });
         }
-      } else if (char === '-') {
-        // Dah (dash)
-        timings.push({ type: 'dah', duration: config.dahDuration });
         
         // Add symbol gap if next character is a symbol (not space or slash)
-        if (i + 1 < morse.length && morse[i + 1] !== ' ' && morse[i + 1] !== '/') {
-          timings.push({ type: 'symbolGap', duration: config.symbolGap });
+        if (isSymbolNext(i)) {
+          timings.push({ type: 'symbolGap', duration: config.symbolGap, charIndex: groupStart });
         }
+      } else if (char === INTRA_CHAR_SPACE) {
+        // American Morse space inside a character
+        timings.push({ type: 'intraCharSpace', duration: config.intraCharSpace, charIndex: groupStart });
       } else if (char === ' ') {
         // Check if this is a letter gap or word gap
         if (i + 1 < morse.length && morse[i + 1] === '/') {
@@ -165,34 +772,230 @@ class MorseConverterService {
     return timings;
   }
 
+  /**
+   * Split a word into characters and prosigns
+   * @param word - Word without spaces
+   * @returns Tokens (single characters, the CH digraph, or prosigns in canonical <NAME> form)
+   *          with their offset and length in the word
+   */
+  private tokenizeWord(word: string): { token: string; offset: number; length: number }[] {
+    const tokens: { token: string; offset: number; length: number }[] = [];
+    let i = 0;
+
+    while (i < word.length) {
+      if (word[i] === '<' || word[i] === '[') {
+        PROSIGN_PATTERN.lastIndex = i;
+        const match = PROSIGN_PATTERN.exec(word);
+        const name = match ? (match[1] || match[2]).toUpperCase() : '';
+        if (match && this.encodeProsign(name)) {
+          tokens.push({ token: `<${name}>`, offset: i, length: match[0].length });
+          i += match[0].length;
+          continue;
+        }
+      }
+
+      if (this.usesChDigraph() && word.slice(i, i + 2).toUpperCase() === CH_DIGRAPH) {
+        tokens.push({ token: CH_DIGRAPH, offset: i, length: 2 });
+        i += 2;
+        continue;
+      }
+
+      const char = String.fromCodePoint(word.codePointAt(i) ?? 0);
+      tokens.push({ token: char, offset: i, length: char.length });
+      i += char.length;
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Encode a single token produced by tokenizeWord
+   * @param token - Character, CH digraph or <NAME> prosign
+   * @returns Morse letters for the token (several for decomposed characters), or none if unsupported
+   */
+  private encodeToken(token: string): string[] {
+    if (token.length > 1 && token.startsWith('<')) {
+      return [this.encodeProsign(token.slice(1, -1))];
+    }
+    if (token === CH_DIGRAPH && this.usesChDigraph()) {
+      return [CH_DIGRAPH_CODE];
+    }
+
+    // Upper-casing can expand a letter (ß→SS); only the alphabet's own folding may do that silently
+    const upper = token.toUpperCase();
+    if (Array.from(upper).length > 1 && !this.codeTable[upper] && !this.alphabet.normalize) {
+      return [];
+    }
+
+    const codes = this.normalizeChar(upper).split('').map(key => this.codeTable[key] || '');
+    return codes.length > 0 && codes.every(code => code.length > 0) ? codes : [];
+  }
+
+  /**
+   * Encode a token, applying the fallback policy when it has no code
+   * @param token - Character, CH digraph or <NAME> prosign
+   * @returns Morse letters sent for the token, and the fallback used if any
+   */
+  private encodeWithFallback(token: string): { codes: string[]; fallback?: CharacterFallback } {
+    const codes = this.encodeToken(token);
+    if (codes.length > 0) {
+      return { codes };
+    }
+
+    // Line breaks and other whitespace are never worth an error signal
+    if (this.fallbackPolicy === 'drop' || /^\s+$/.test(token)) {
+      return { codes: [], fallback: { char: token, policy: 'dropped', replacement: '' } };
+    }
+
+    if (this.fallbackPolicy === 'error') {
+      return {
+        codes: [PROSIGNS.HH],
+        fallback: { char: token, policy: 'error', replacement: '<HH>' },
+      };
+    }
+
+    const replacement = this.transliterate(token);
+    if (!replacement) {
+      return { codes: [], fallback: { char: token, policy: 'dropped', replacement: '' } };
+    }
+    return {
+      codes: Array.from(replacement).flatMap(char => this.encodeToken(char)),
+      fallback: { char: token, policy: 'transliterated', replacement },
+    };
+  }
+
+  /**
+   * Spell a character with letters that have codes, e.g. é→E, ß→SS, Œ→OE
+   * @param char - Character without a code of its own
+   * @returns Replacement letters, or an empty string if there is no sensible spelling
+   */
+  private transliterate(char: string): string {
+    const upper = TRANSLITERATIONS[char] ?? TRANSLITERATIONS[char.toUpperCase()] ?? char.toUpperCase();
+    const spelled = stripMarks(upper).normalize('NFC');
+    const letters = Array.from(spelled);
+    return letters.length > 0 && letters.every(letter => this.encodeToken(letter).length > 0)
+      ? spelled
+      : '';
+  }
+
+  /**
+   * Check whether the CH digraph applies to the current settings
+   */
+  private usesChDigraph(): boolean {
+    return this.chDigraph && this.standard === 'international';
+  }
+
+  /**
+   * Check whether Wabun mode switching applies to the current settings
+   */
+  private isWabun(): boolean {
+    return this.standard === 'international' && this.alphabet.id === 'wabun';
+  }
+
+  /**
+   * Rewrite a character into keys of the selected alphabet's table
+   * @param char - Upper-cased input character
+   * @returns One or more table keys
+   */
+  private normalizeChar(char: string): string {
+    if (this.codeTable[char] || !this.alphabet.normalize || this.standard === 'american') {
+      return char;
+    }
+    return this.alphabet.normalize(char);
+  }
+
+  /**
+   * Encode a prosign as its letters run together without letter gaps
+   * @param name - Prosign letters, e.g. "SK"
+   * @returns Morse for the prosign, or an empty string if a letter has no code
+   */
+  private encodeProsign(name: string): string {
+    const customCode = this.customTable?.codes[`<${name}>`];
+    if (this.standard === 'international' && customCode) {
+      return customCode;
+    }
+    if (this.standard === 'international' && PROSIGNS[name]) {
+      return PROSIGNS[name];
+    }
+
+    const parts = name.split('').map(char => this.codeTable[char] || '');
+    return parts.every(part => part.length > 0) ? parts.join('') : '';
+  }
+
+  /**
+   * Key the prosign table by its written <NAME> form for decoding
+   */
+  private prosignTable(): Record<string, string> {
+    return Object.fromEntries(Object.entries(PROSIGNS).map(([name, code]) => [`<${name}>`, code]));
+  }
+
+  /**
+   * Build a Morse-to-character index from character-to-Morse tables
+   * @param tables - Lookup tables keyed by character, in order of decoding preference
+   * @returns Lookup table keyed by dot/dash sequence (first character wins on duplicates)
+   */
+  private buildReverseIndex(...tables: Record<string, string>[]): Record<string, string> {
+    // No prototype, so tokens such as "toString" are not found in it
+    const index: Record<string, string> = Object.create(null);
+    for (const table of tables) {
+      for (const [char, code] of Object.entries(table)) {
+        if (char !== ' ' && !(code in index)) {
+          index[code] = char;
+        }
+      }
+    }
+    return index;
+  }
+
   /**
    * Get list of all supported characters
    * @returns String containing all supported characters
    */
   getSupportedCharacters(): string[] {
-    return Object.keys(MORSE_CODE_MAP).filter(char => char !== ' ');
+    return Object.keys(this.codeTable).filter(char => char !== ' ');
+  }
+
+  /**
+   * Get the lookup table used for decoding
+   * @returns Characters and <NAME> prosigns keyed by dot/dash sequence
+   */
+  getDecodingTable(): Record<string, string> {
+    return Object.assign(Object.create(null), this.reverseIndex);
+  }
+
+  /**
+   * Get list of named prosigns
+   * @returns Prosigns in <NAME> form
+   */
+  getSupportedProsigns(): string[] {
+    const customSigns = Object.keys(this.customTable?.codes ?? {}).filter(key => this.isSignKey(key));
+    const standardSigns = Object.keys(PROSIGNS).map(name => `<${name}>`);
+    return [...customSigns, ...standardSigns.filter(sign => !customSigns.includes(sign))];
   }
 
   /**
    * Validate if text contains only supported characters
    * @param text - Text to validate
-   * @returns Object with validation result and unsupported characters
+   * @returns Validation result, unsupported characters and the fallback applied to each
    */
-  validateText(text: string): { isValid: boolean; unsupportedChars: string[] } {
-    const upperText = text.toUpperCase();
+  validateText(text: string): TextValidationResult {
     const unsupportedChars: string[] = [];
+    const fallbacks: CharacterFallback[] = [];
     
-    for (const char of upperText) {
-      if (char !== ' ' && !MORSE_CODE_MAP[char]) {
-        if (!unsupportedChars.includes(char)) {
-          unsupportedChars.push(char);
+    for (const word of text.split(' ')) {
+      for (const { token } of this.tokenizeWord(word)) {
+        const { fallback } = this.encodeWithFallback(token);
+        if (fallback && !unsupportedChars.includes(token)) {
+          unsupportedChars.push(token);
+          fallbacks.push(fallback);
         }
       }
     }
 
     return {
       isValid: unsupportedChars.length === 0,
-      unsupportedChars
+      unsupportedChars,
+      fallbacks
     };
   }
 }
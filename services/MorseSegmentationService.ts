@@ -0,0 +1,257 @@
+import { SegmentationCandidate } from '../types/morse';
+import MorseConverterService from './MorseConverterService';
+import { ENGLISH_WORDS } from './MorseWordList';
+import { HAM_ABBREVIATIONS } from './HamAbbreviations';
+
+const ABBREVIATIONS = Object.keys(HAM_ABBREVIATIONS);
+
+// Cost of reading a span as a known word or abbreviation
+const WORD_COST = 2;
+// Added per doubling of a word's position in the frequency list
+const RANK_COST = 0.35;
+// Cost of each letter that is not part of a known word, e.g. in callsigns
+const LETTER_COST = 5;
+// Guesses kept at each position of the search
+const BEAM_WIDTH = 8;
+// Longest run of dots and dashes searched; longer input gets no guesses
+export const MAX_SEGMENT_SYMBOLS = 120;
+
+// Rolling hash of the text a reading renders to, so readings that read the same are merged
+const HASH_BASE = 31;
+const HASH_MODULUS = 2147483647;
+
+interface LexiconEntry {
+  text: string;
+  cost: number;
+  isWord: boolean;           // Whole word, abbreviation or prosign, as opposed to a loose letter
+  letterGaps: Set<number>;   // Offsets inside the run-together code where the word has letter gaps
+}
+
+interface Token {
+  text: string;
+  isWord: boolean;
+  afterWordGap: boolean;     // A word gap was received right before this token
+}
+
+// A guess at the text up to some position, linked back to the guess it extends
+interface PartialReading {
+  cost: number;
+  token: Token | null;                  // Last token read, null at the start
+  previous: PartialReading | null;
+  textKey: number;                      // Hash of the rendered text
+}
+
+interface Lexicon {
+  revision: number;                     // Converter revision the lexicon was built for
+  entries: Map<string, LexiconEntry[]>;
+  maxCodeLength: number;
+}
+
+class MorseSegmentationService {
+  private lexicon: Lexicon | null = null;
+
+  /**
+   * Guess the text of Morse whose letter gaps are partly or wholly missing
+   * Gaps that were received are trusted: single spaces as letter gaps, '/', '|' or wider gaps as word gaps
+   * @param morse - Morse code, e.g. "...---..." or "-.-.--.- -.."
+   * @param maxResults - Number of guesses to return (default: 5)
+   * @returns Guesses, most likely first; none for input over MAX_SEGMENT_SYMBOLS
+   */
+  segment(morse: string, maxResults: number = 5): SegmentationCandidate[] {
+    const { symbols, letterGaps, wordGaps } = this.parse(morse);
+    if (symbols.length === 0 || symbols.length > MAX_SEGMENT_SYMBOLS) {
+      return [];
+    }
+
+    const { entries: lexicon, maxCodeLength } = this.getLexicon();
+    const readings: PartialReading[][] = Array.from({ length: symbols.length + 1 }, () => []);
+    readings[0].push({ cost: 0, token: null, previous: null, textKey: 0 });
+
+    for (let start = 0; start < symbols.length; start++) {
+      readings[start] = this.prune(readings[start], BEAM_WIDTH);
+      if (readings[start].length === 0) {
+        continue;
+      }
+
+      const limit = Math.min(symbols.length, start + maxCodeLength);
+      for (let end = start + 1; end <= limit; end++) {
+        // A span may not run across a received word gap
+        if (end - 1 > start && wordGaps.has(end - 1)) {
+          break;
+        }
+
+        for (const entry of lexicon.get(symbols.slice(start, end)) ?? []) {
+          if (!this.respectsLetterGaps(entry, start, end, letterGaps)) {
+            continue;
+          }
+
+          const token: Token = {
+            text: entry.text,
+            isWord: entry.isWord,
+            afterWordGap: wordGaps.has(start),
+          };
+          for (const reading of readings[start]) {
+            readings[end].push(this.extend(reading, token, entry.cost));
+          }
+        }
+      }
+    }
+
+    const best = this.prune(readings[symbols.length], maxResults);
+    const total = best.reduce((sum, reading) => sum + Math.exp(-reading.cost), 0);
+    return best.map(reading => ({
+      text: this.render(reading),
+      score: Math.exp(-reading.cost) / total,
+    }));
+  }
+
+  /**
+   * Split Morse into run-together symbols and the gaps that were received
+   * @param morse - Morse code
+   * @returns Dots and dashes only, with the symbol offsets where letter and word gaps fall
+   */
+  private parse(morse: string): { symbols: string; letterGaps: Set<number>; wordGaps: Set<number> } {
+    let symbols = '';
+    const letterGaps = new Set<number>();
+    const wordGaps = new Set<number>();
+
+    for (const match of morse.matchAll(/[.-]+|[\/|]|\s+/g)) {
+      const token = match[0];
+      if (/^[.-]/.test(token)) {
+        symbols += token;
+      } else if (token === ' ') {
+        letterGaps.add(symbols.length);
+      } else {
+        wordGaps.add(symbols.length);
+      }
+    }
+
+    // Word gaps are letter gaps too
+    wordGaps.forEach(offset => letterGaps.add(offset));
+    return { symbols, letterGaps, wordGaps };
+  }
+
+  /**
+   * Get the lexicon for the current code table, building it when the table has changed
+   */
+  private getLexicon(): Lexicon {
+    const revision = MorseConverterService.getRevision();
+    if (this.lexicon?.revision !== revision) {
+      const entries = this.buildLexicon();
+      const maxCodeLength = Math.max(...Array.from(entries.keys(), code => code.length));
+      this.lexicon = { revision, entries, maxCodeLength };
+    }
+    return this.lexicon;
+  }
+
+  /**
+   * Index words, abbreviations, prosigns and single characters by their run-together code
+   * @returns Readings keyed by dot/dash sequence without gaps
+   */
+  private buildLexicon(): Map<string, LexiconEntry[]> {
+    const lexicon = new Map<string, LexiconEntry[]>();
+    const add = (code: string, entry: LexiconEntry) => {
+      const entries = lexicon.get(code) ?? [];
+      if (!entries.some(existing => existing.text === entry.text && existing.isWord === entry.isWord)) {
+        entries.push(entry);
+        lexicon.set(code, entries);
+      }
+    };
+
+    const words = [...ABBREVIATIONS, ...ENGLISH_WORDS];
+    words.forEach((word, index) => {
+      const letters = MorseConverterService.textToMorse(word).split(' ');
+      const letterGaps = new Set<number>();
+      let offset = 0;
+      letters.slice(0, -1).forEach(code => {
+        offset += code.length;
+        letterGaps.add(offset);
+      });
+      // Abbreviations and frequent words are cheapest
+      const rank = index < ABBREVIATIONS.length ? 0 : index - ABBREVIATIONS.length;
+      add(letters.join(''), {
+        text: word,
+        cost: WORD_COST + RANK_COST * Math.log2(rank + 1),
+        isWord: true,
+        letterGaps,
+      });
+    });
+
+    for (const [code, char] of Object.entries(MorseConverterService.getDecodingTable())) {
+      const isProsign = char.length > 1 && char.startsWith('<');
+      add(code, {
+        text: char,
+        cost: isProsign ? WORD_COST : LETTER_COST,
+        isWord: isProsign,
+        letterGaps: new Set(),
+      });
+    }
+
+    return lexicon;
+  }
+
+  /**
+   * Check that a reading keeps every letter gap that was received inside its span
+   */
+  private respectsLetterGaps(entry: LexiconEntry, start: number, end: number, letterGaps: Set<number>): boolean {
+    for (let offset = start + 1; offset < end; offset++) {
+      if (letterGaps.has(offset) && !entry.letterGaps.has(offset - start)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Extend a reading by one token
+   */
+  private extend(reading: PartialReading, token: Token, cost: number): PartialReading {
+    const piece = this.renderToken(reading.token, token);
+    let textKey = reading.textKey;
+    for (let i = 0; i < piece.length; i++) {
+      textKey = (textKey * HASH_BASE + piece.charCodeAt(i)) % HASH_MODULUS;
+    }
+    return { cost: reading.cost + cost, token, previous: reading, textKey };
+  }
+
+  /**
+   * Keep the cheapest readings, dropping costlier ones that render to the same text
+   */
+  private prune(readings: PartialReading[], limit: number): PartialReading[] {
+    const kept: PartialReading[] = [];
+    const seen = new Set<number>();
+    for (const reading of readings.sort((a, b) => a.cost - b.cost)) {
+      if (seen.has(reading.textKey)) {
+        continue;
+      }
+      seen.add(reading.textKey);
+      kept.push(reading);
+      if (kept.length === limit) {
+        break;
+      }
+    }
+    return kept;
+  }
+
+  /**
+   * Follow a reading back to the start and join its tokens into text
+   */
+  private render(reading: PartialReading): string {
+    const pieces: string[] = [];
+    for (let current: PartialReading | null = reading; current?.token; current = current.previous) {
+      pieces.push(this.renderToken(current.previous?.token ?? null, current.token));
+    }
+    return pieces.reverse().join('');
+  }
+
+  /**
+   * Text a token adds: words are separated by spaces, runs of loose letters are kept together
+   */
+  private renderToken(previous: Token | null, token: Token): string {
+    const joinLetters = previous && !previous.isWord && !token.isWord && !token.afterWordGap;
+    return !previous || joinLetters ? token.text : ` ${token.text}`;
+  }
+}
+
+// Export singleton instance
+export default new MorseSegmentationService();
@@ -0,0 +1,49 @@
+// Common English words, most frequent first, then words common in radio traffic;
+// used to rank guesses when letter gaps are lost
+export const ENGLISH_WORDS: string[] = [
+  'THE', 'OF', 'AND', 'TO', 'A', 'IN', 'IS', 'IT', 'YOU', 'THAT', 'HE', 'WAS', 'FOR', 'ON', 'ARE',
+  'WITH', 'AS', 'I', 'HIS', 'THEY', 'BE', 'AT', 'ONE', 'HAVE', 'THIS', 'FROM', 'OR', 'HAD', 'BY',
+  'NOT', 'WORD', 'BUT', 'WHAT', 'SOME', 'WE', 'CAN', 'OUT', 'OTHER', 'WERE', 'ALL', 'THERE', 'WHEN',
+  'UP', 'USE', 'YOUR', 'HOW', 'SAID', 'AN', 'EACH', 'SHE', 'WHICH', 'DO', 'THEIR', 'TIME', 'IF',
+  'WILL', 'WAY', 'ABOUT', 'MANY', 'THEN', 'THEM', 'WRITE', 'WOULD', 'LIKE', 'SO', 'THESE', 'HER',
+  'LONG', 'MAKE', 'THING', 'SEE', 'HIM', 'TWO', 'HAS', 'LOOK', 'MORE', 'DAY', 'COULD', 'GO', 'COME',
+  'DID', 'NUMBER', 'SOUND', 'NO', 'MOST', 'PEOPLE', 'MY', 'OVER', 'KNOW', 'WATER', 'THAN', 'CALL',
+  'FIRST', 'WHO', 'MAY', 'DOWN', 'SIDE', 'BEEN', 'NOW', 'FIND', 'ANY', 'NEW', 'WORK', 'PART', 'TAKE',
+  'GET', 'PLACE', 'MADE', 'LIVE', 'WHERE', 'AFTER', 'BACK', 'LITTLE', 'ONLY', 'ROUND', 'MAN', 'YEAR',
+  'CAME', 'SHOW', 'EVERY', 'GOOD', 'ME', 'GIVE', 'OUR', 'UNDER', 'NAME', 'VERY', 'THROUGH', 'JUST',
+  'FORM', 'SENTENCE', 'GREAT', 'THINK', 'SAY', 'HELP', 'LOW', 'LINE', 'DIFFER', 'TURN', 'CAUSE',
+  'MUCH', 'MEAN', 'BEFORE', 'MOVE', 'RIGHT', 'BOY', 'OLD', 'TOO', 'SAME', 'TELL', 'DOES', 'SET',
+  'THREE', 'WANT', 'AIR', 'WELL', 'ALSO', 'PLAY', 'SMALL', 'END', 'PUT', 'HOME', 'READ', 'HAND',
+  'PORT', 'LARGE', 'SPELL', 'ADD', 'EVEN', 'LAND', 'HERE', 'MUST', 'BIG', 'HIGH', 'SUCH', 'FOLLOW',
+  'ACT', 'WHY', 'ASK', 'MEN', 'CHANGE', 'WENT', 'LIGHT', 'KIND', 'OFF', 'NEED', 'HOUSE', 'PICTURE',
+  'TRY', 'US', 'AGAIN', 'ANIMAL', 'POINT', 'MOTHER', 'WORLD', 'NEAR', 'BUILD', 'SELF', 'EARTH',
+  'FATHER', 'HEAD', 'STAND', 'OWN', 'PAGE', 'SHOULD', 'COUNTRY', 'FOUND', 'ANSWER', 'SCHOOL', 'GROW',
+  'STUDY', 'STILL', 'LEARN', 'PLANT', 'COVER', 'FOOD', 'SUN', 'FOUR', 'BETWEEN', 'STATE', 'KEEP',
+  'EYE', 'NEVER', 'LAST', 'LET', 'THOUGHT', 'CITY', 'TREE', 'CROSS', 'FARM', 'HARD', 'START',
+  'MIGHT', 'STORY', 'SAW', 'FAR', 'SEA', 'DRAW', 'LEFT', 'LATE', 'RUN', 'WHILE', 'PRESS', 'CLOSE',
+  'NIGHT', 'REAL', 'LIFE', 'FEW', 'NORTH', 'OPEN', 'SEEM', 'TOGETHER', 'NEXT', 'WHITE', 'CHILDREN',
+  'BEGIN', 'GOT', 'WALK', 'EXAMPLE', 'EASE', 'PAPER', 'GROUP', 'ALWAYS', 'MUSIC', 'THOSE', 'BOTH',
+  'MARK', 'OFTEN', 'LETTER', 'UNTIL', 'MILE', 'RIVER', 'CAR', 'FEET', 'CARE', 'SECOND', 'BOOK',
+  'CARRY', 'TOOK', 'SCIENCE', 'EAT', 'ROOM', 'FRIEND', 'BEGAN', 'IDEA', 'FISH', 'MOUNTAIN', 'STOP',
+  'ONCE', 'BASE', 'HEAR', 'HORSE', 'CUT', 'SURE', 'WATCH', 'COLOR', 'FACE', 'WOOD', 'MAIN', 'ENOUGH',
+  'PLAIN', 'GIRL', 'USUAL', 'YOUNG', 'READY', 'ABOVE', 'EVER', 'RED', 'LIST', 'THOUGH', 'FEEL',
+  'TALK', 'BIRD', 'SOON', 'BODY', 'DOG', 'FAMILY', 'DIRECT', 'POSE', 'LEAVE', 'SONG', 'MEASURE',
+  'DOOR', 'PRODUCT', 'BLACK', 'SHORT', 'NUMERAL', 'CLASS', 'WIND', 'QUESTION', 'HAPPEN', 'COMPLETE',
+  'SHIP', 'AREA', 'HALF', 'ROCK', 'ORDER', 'FIRE', 'SOUTH', 'PROBLEM', 'PIECE', 'TOLD', 'KNEW',
+  'PASS', 'SINCE', 'TOP', 'WHOLE', 'KING', 'SPACE', 'HEARD', 'BEST', 'HOUR', 'BETTER', 'TRUE',
+  'DURING', 'HUNDRED', 'FIVE', 'REMEMBER', 'STEP', 'EARLY', 'HOLD', 'WEST', 'GROUND', 'INTEREST',
+  'REACH', 'FAST', 'VERB', 'SING', 'LISTEN', 'SIX', 'TABLE', 'TRAVEL', 'LESS', 'MORNING', 'TEN',
+  'SIMPLE', 'SEVERAL', 'TOWARD', 'WAR', 'LAY', 'AGAINST', 'PATTERN', 'SLOW', 'CENTER', 'LOVE',
+  'PERSON', 'MONEY', 'SERVE', 'APPEAR', 'ROAD', 'MAP', 'RAIN', 'RULE', 'GOVERN', 'PULL', 'COLD',
+  'NOTICE', 'VOICE', 'POWER', 'TOWN', 'FINE', 'CERTAIN', 'FLY', 'FALL', 'LEAD', 'CRY', 'DARK',
+  'MACHINE', 'NOTE', 'WAIT', 'PLAN', 'FIGURE', 'STAR', 'BOX', 'NOUN', 'FIELD', 'REST', 'CORRECT',
+  'ABLE', 'POUND', 'DONE', 'BEAUTY', 'DRIVE', 'STOOD', 'CONTAIN', 'FRONT', 'TEACH', 'WEEK', 'FINAL',
+  'GAVE', 'GREEN', 'OH', 'QUICK', 'DEVELOP', 'OCEAN', 'WARM', 'FREE', 'MINUTE', 'STRONG', 'SPECIAL',
+  'MIND', 'BEHIND', 'CLEAR', 'TAIL', 'PRODUCE', 'FACT', 'STREET', 'INCH', 'NOTHING', 'COURSE', 'STAY',
+  'WHEEL', 'FULL', 'FORCE', 'BLUE', 'OBJECT', 'DECIDE', 'SURFACE', 'DEEP', 'MOON', 'ISLAND', 'FOOT',
+  'SYSTEM', 'BUSY', 'TEST', 'RECORD', 'BOAT', 'COMMON', 'GOLD', 'POSSIBLE', 'PLANE', 'DRY', 'WONDER',
+  'LAUGH', 'THOUSAND', 'AGO', 'RAN', 'CHECK', 'GAME', 'SHAPE', 'YES', 'HOT', 'MISS', 'BROUGHT',
+  'HEAT', 'SNOW', 'BED', 'BRING', 'SIT', 'PERHAPS', 'FILL', 'EAST', 'WEIGHT', 'LANGUAGE', 'AMONG',
+  'HELLO', 'RADIO', 'SIGNAL', 'STATION', 'ANTENNA', 'WEATHER', 'MESSAGE', 'EMERGENCY', 'HOPE',
+  'THANKS', 'PLEASE', 'TODAY', 'TOMORROW', 'TONIGHT', 'CAMP', 'SCOUT', 'TEAM',
+];
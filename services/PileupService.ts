@@ -0,0 +1,121 @@
+import { AudioExportOptions, MixTrack, PileupStation } from '../types/morse';
+import { createRandom } from '../utils/ChannelSimulator';
+import { isValidWpm, MAX_WPM, MIN_WPM } from '../utils/TimingUtils';
+import { isValidFrequency, MAX_FREQUENCY, MIN_FREQUENCY } from '../utils/ToneWaveform';
+import AudioService from './AudioService';
+import MorseConverterService from './MorseConverterService';
+
+// Most stations mixed into one pileup
+export const MAX_STATIONS = 12;
+
+// Latest a station may start calling, in milliseconds
+export const MAX_START_TIME = 60000;
+
+// How far generated stations spread around the sidetone pitch, in Hz
+const PITCH_SPREAD = 300;
+
+// How far generated stations spread around the chosen speed, as a fraction
+const SPEED_SPREAD = 0.25;
+
+// Generated stations start within this time of each other, in milliseconds
+const START_SPREAD = 1500;
+
+// Quietest generated station
+const MIN_GENERATED_LEVEL = 0.3;
+
+// Generated stations stay this far from hard left and right
+const PAN_SPREAD = 0.8;
+
+interface StationSpread {
+  seed: number;       // The same seed and callsigns give the same pileup
+  wpm: number;        // Speed the stations spread around
+  frequency: number;  // Pitch the stations spread around, in Hz
+}
+
+class PileupService {
+  /**
+   * Check a station for values that cannot be mixed
+   * @param station - Station to check
+   * @returns Problems found, empty if the station can be used
+   */
+  validateStation(station: PileupStation): string[] {
+    const problems: string[] = [];
+
+    if (MorseConverterService.textToMorse(station.text).length === 0) {
+      problems.push('Station has nothing to send');
+    }
+    if (!isValidWpm(station.wpm)) {
+      problems.push(`Speed must be between ${MIN_WPM} and ${MAX_WPM} WPM`);
+    }
+    if (!isValidFrequency(station.frequency)) {
+      problems.push(`Frequency must be between ${MIN_FREQUENCY} and ${MAX_FREQUENCY} Hz`);
+    }
+    if (!(station.startTime >= 0 && station.startTime <= MAX_START_TIME)) {
+      problems.push(`Start time must be between 0 and ${MAX_START_TIME / 1000} seconds`);
+    }
+    if (!(station.level > 0 && station.level <= 1)) {
+      problems.push('Level must be above 0 and at most 1');
+    }
+    if (!(station.pan >= -1 && station.pan <= 1)) {
+      problems.push('Pan must be between -1 (left) and 1 (right)');
+    }
+
+    return problems;
+  }
+
+  /**
+   * Turn a list of callsigns into stations calling at once, each with its own pitch,
+   * speed, start, level and stereo position
+   * @param callsigns - What each station sends
+   * @param spread - Seed, and the speed and pitch stations spread around
+   * @returns One station per callsign
+   */
+  createStations(callsigns: string[], spread: StationSpread): PileupStation[] {
+    const random = createRandom(spread.seed);
+    const between = (min: number, max: number) => min + random() * (max - min);
+
+    return callsigns.slice(0, MAX_STATIONS).map(text => ({
+      text,
+      wpm: Math.round(Math.min(MAX_WPM, Math.max(MIN_WPM, spread.wpm * between(1 - SPEED_SPREAD, 1 + SPEED_SPREAD)))),
+      frequency: Math.round(
+        Math.min(MAX_FREQUENCY, Math.max(MIN_FREQUENCY, spread.frequency + between(-PITCH_SPREAD, PITCH_SPREAD)))
+      ),
+      startTime: Math.round(between(0, START_SPREAD)),
+      level: Math.round(between(MIN_GENERATED_LEVEL, 1) * 100) / 100,
+      pan: Math.round(between(-PAN_SPREAD, PAN_SPREAD) * 100) / 100,
+    }));
+  }
+
+  /**
+   * Generate a stereo WAV file of stations calling at once
+   * Each station is timed at its own speed and synthesized with the current volume,
+   * waveform and envelope
+   * @param stations - Stations to mix
+   * @param options - Progress callback and abort signal
+   * @returns File URI of the generated audio file
+   */
+  async generatePileupFile(stations: PileupStation[], options: AudioExportOptions = {}): Promise<string> {
+    if (stations.length === 0) {
+      throw new Error('Pileup has no stations');
+    }
+    if (stations.length > MAX_STATIONS) {
+      throw new Error(`A pileup can have at most ${MAX_STATIONS} stations`);
+    }
+    stations.forEach((station, index) => {
+      const problems = this.validateStation(station);
+      if (problems.length > 0) {
+        throw new Error(`Station ${index + 1}: ${problems[0]}`);
+      }
+    });
+
+    const tracks: MixTrack[] = stations.map(({ text, wpm, ...placement }) => ({
+      ...placement,
+      timings: MorseConverterService.morseToTiming(MorseConverterService.textToMorse(text), { characterWpm: wpm }),
+    }));
+
+    return AudioService.generateMixFile(tracks, `pileup_${stations.length}stations`, options);
+  }
+}
+
+// Export singleton instance
+export default new PileupService();
@@ -0,0 +1,113 @@
+import * as FileSystem from 'expo-file-system';
+import { AppSettings, ChannelSettings, ToneEnvelope, ToneSettings } from '../types/morse';
+import { DEFAULT_CHANNEL_SETTINGS, validateChannelSettings } from '../utils/ChannelSimulator';
+import { DEFAULT_TONE_ENVELOPE, ENVELOPE_SHAPES, isValidRampTime } from '../utils/ToneEnvelope';
+import { DEFAULT_TONE_SETTINGS, isValidFrequency, isValidVolume, TONE_WAVEFORMS } from '../utils/ToneWaveform';
+
+// Current settings file version; older files are read field by field
+const SETTINGS_VERSION = 1;
+
+class SettingsService {
+  private readonly fileUri = `${FileSystem.documentDirectory}settings.json`;
+  private settings: AppSettings = {
+    tone: { ...DEFAULT_TONE_SETTINGS },
+    envelope: { ...DEFAULT_TONE_ENVELOPE },
+    channel: null,
+    codeTable: null,
+  };
+
+  /**
+   * Load saved settings, keeping defaults for anything missing or out of range
+   * @returns Settings to apply at startup
+   */
+  async loadSettings(): Promise<AppSettings> {
+    let saved: Partial<AppSettings> | undefined;
+    try {
+      const info = await FileSystem.getInfoAsync(this.fileUri);
+      if (info.exists) {
+        saved = JSON.parse(await FileSystem.readAsStringAsync(this.fileUri));
+      }
+    } catch (error) {
+      console.warn('[SettingsService] Using default settings:', error);
+    }
+
+    this.settings = {
+      tone: this.readTone(saved?.tone),
+      envelope: this.readEnvelope(saved?.envelope),
+      channel: this.readChannel(saved?.channel),
+      codeTable: typeof saved?.codeTable === 'string' && saved.codeTable.trim() ? saved.codeTable : null,
+    };
+    return this.getSettings();
+  }
+
+  /**
+   * Save changed settings, keeping the rest as they are
+   * @param changes - Settings to change
+   */
+  async saveSettings(changes: Partial<AppSettings>): Promise<void> {
+    this.settings = { ...this.settings, ...changes };
+    await FileSystem.writeAsStringAsync(
+      this.fileUri,
+      JSON.stringify({ version: SETTINGS_VERSION, ...this.settings }, null, 2)
+    );
+  }
+
+  /**
+   * Get the settings last loaded or saved
+   */
+  getSettings(): AppSettings {
+    return {
+      tone: { ...this.settings.tone },
+      envelope: { ...this.settings.envelope },
+      channel: this.settings.channel ? { ...this.settings.channel } : null,
+      codeTable: this.settings.codeTable,
+    };
+  }
+
+  /**
+   * Read saved tone settings field by field
+   */
+  private readTone(saved: Partial<ToneSettings> | undefined): ToneSettings {
+    const tone = { ...DEFAULT_TONE_SETTINGS };
+    if (typeof saved?.frequency === 'number' && isValidFrequency(saved.frequency)) {
+      tone.frequency = saved.frequency;
+    }
+    if (typeof saved?.volume === 'number' && isValidVolume(saved.volume)) {
+      tone.volume = saved.volume;
+    }
+    const waveform = TONE_WAVEFORMS.find(option => option.id === saved?.waveform);
+    if (waveform) {
+      tone.waveform = waveform.id;
+    }
+    return tone;
+  }
+
+  /**
+   * Read saved envelope settings field by field
+   */
+  private readEnvelope(saved: Partial<ToneEnvelope> | undefined): ToneEnvelope {
+    const envelope = { ...DEFAULT_TONE_ENVELOPE };
+    const shape = ENVELOPE_SHAPES.find(option => option.id === saved?.shape);
+    if (shape) {
+      envelope.shape = shape.id;
+    }
+    if (typeof saved?.rampTime === 'number' && isValidRampTime(saved.rampTime)) {
+      envelope.rampTime = saved.rampTime;
+    }
+    return envelope;
+  }
+
+  /**
+   * Read saved band conditions, turning them off if any field is unusable
+   */
+  private readChannel(saved: Partial<ChannelSettings> | null | undefined): ChannelSettings | null {
+    if (!saved || typeof saved !== 'object') {
+      return null;
+    }
+    const channel = { ...DEFAULT_CHANNEL_SETTINGS, ...saved };
+    return validateChannelSettings(channel).length === 0 ? channel : null;
+  }
+}
+
+// Export singleton instance
+export default new SettingsService();
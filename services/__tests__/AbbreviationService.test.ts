@@ -0,0 +1,74 @@
+import AbbreviationService from '../AbbreviationService';
+import MorseConverterService from '../MorseConverterService';
+
+const durationOf = (text: string) =>
+  MorseConverterService.morseToTiming(MorseConverterService.textToMorse(text), 100)
+    .reduce((total, entry) => total + entry.duration, 0);
+
+describe('AbbreviationService', () => {
+  describe('getMeaning', () => {
+    it('should explain Q-codes and abbreviations in any case', () => {
+      expect(AbbreviationService.getMeaning('QTH')).toBe('My location is');
+      expect(AbbreviationService.getMeaning('tnx')).toBe('Thanks');
+      expect(AbbreviationService.getMeaning('73')).toBe('Best regards');
+    });
+
+    it('should return undefined for ordinary words', () => {
+      expect(AbbreviationService.getMeaning('HELLO')).toBeUndefined();
+    });
+  });
+
+  describe('findAbbreviations', () => {
+    it('should list abbreviations found in decoded text with their offsets', () => {
+      expect(AbbreviationService.findAbbreviations('CQ CQ DE W1AW, QTH BOSTON')).toEqual([
+        { abbreviation: 'CQ', meaning: 'Calling any station', index: 0 },
+        { abbreviation: 'CQ', meaning: 'Calling any station', index: 3 },
+        { abbreviation: 'DE', meaning: 'From (this is)', index: 6 },
+        { abbreviation: 'QTH', meaning: 'My location is', index: 15 },
+      ]);
+    });
+  });
+
+  describe('compress', () => {
+    it('should replace words and phrases with standard abbreviations', () => {
+      const result = AbbreviationService.compress('Thanks for the report, see you later', 100);
+      expect(result.text).toBe('TNX FER the RPT, CUL');
+      expect(result.replacements).toEqual([
+        { original: 'Thanks', abbreviation: 'TNX', index: 0 },
+        { original: 'for', abbreviation: 'FER', index: 7 },
+        { original: 'report', abbreviation: 'RPT', index: 15 },
+        { original: 'see you later', abbreviation: 'CUL', index: 23 },
+      ]);
+    });
+
+    it('should report the time saved according to morseToTiming', () => {
+      const result = AbbreviationService.compress('PLEASE SEND AGAIN', 100);
+      expect(result.originalDuration).toBe(durationOf('PLEASE SEND AGAIN'));
+      expect(result.compressedDuration).toBe(durationOf('PSE SEND AGN'));
+      expect(result.timeSaved).toBe(result.originalDuration - result.compressedDuration);
+      expect(result.timeSaved).toBeGreaterThan(0);
+    });
+
+    it('should not re-encode words already timed when the text grows', () => {
+      AbbreviationService.compress('PLEASE SEND AGAIN', 100);
+      const textToMorse = jest.spyOn(MorseConverterService, 'textToMorse');
+      try {
+        AbbreviationService.compress('PLEASE SEND AGAIN SOON', 100);
+        expect(textToMorse.mock.calls.map(([text]) => text)).toEqual(['SOON']);
+      } finally {
+        textToMorse.mockRestore();
+      }
+    });
+
+    it('should not join words across punctuation into a phrase', () => {
+      expect(AbbreviationService.compress('SEE. YOU').text).toBe('SEE. U');
+    });
+
+    it('should leave text without abbreviations unchanged', () => {
+      const result = AbbreviationService.compress('HELLO WORLD');
+      expect(result.text).toBe('HELLO WORLD');
+      expect(result.replacements).toEqual([]);
+      expect(result.timeSaved).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import AudioDecoderService, { NO_SIGNAL } from '../AudioDecoderService';
+import AudioService from '../AudioService';
+import MorseConverterService, { UNKNOWN_CHARACTER } from '../MorseConverterService';
+import { DEFAULT_CHANNEL_SETTINGS } from '../../utils/ChannelSimulator';
+import { parseWav } from '../../utils/WavReader';
+import { TimingConfig } from '../../types/morse';
+
+// Mock expo-file-system
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///mock/directory/',
+}));
+
+// Exported files are kept in memory and read back by the decoder
+const writtenBytes = (): Uint8Array => {
+  const blocks: Uint8Array[] = mockHandle.writeBytes.mock.calls.map(call => call[0]);
+  const bytes = new Uint8Array(blocks.reduce((sum, block) => sum + block.length, 0));
+  let offset = 0;
+  for (const block of blocks) {
+    bytes.set(block, offset);
+    offset += block.length;
+  }
+  return bytes;
+};
+const mockHandle = {
+  offset: 0 as number | null,
+  get size(): number | null {
+    return writtenBytes().length;
+  },
+  writeBytes: jest.fn(),
+  readBytes: jest.fn((length: number): Uint8Array => {
+    const start = mockHandle.offset ?? 0;
+    mockHandle.offset = start + length;
+    return writtenBytes().slice(start, start + length);
+  }),
+  close: jest.fn(),
+};
+const mockFile = {
+  exists: false,
+  create: jest.fn(() => {
+    mockFile.exists = true;
+  }),
+  delete: jest.fn(() => {
+    mockFile.exists = false;
+  }),
+  open: jest.fn(() => mockHandle),
+};
+jest.mock('expo-file-system/next', () => ({
+  File: jest.fn(() => mockFile),
+}));
+
+// Mock expo-av
+jest.mock('expo-av', () => ({
+  Audio: {
+    setAudioModeAsync: jest.fn().mockResolvedValue(undefined),
+    Sound: { createAsync: jest.fn() },
+  },
+}));
+
+// Export text as a WAV file the way the app does
+const exportText = async (text: string, timing: Partial<TimingConfig> = {}): Promise<string> => {
+  const config = { characterWpm: 20, ...timing };
+  const morse = MorseConverterService.textToMorse(text);
+  return AudioService.generateAudioFile(MorseConverterService.morseToTiming(morse, config), config.characterWpm);
+};
+
+describe('AudioDecoderService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFile.exists = false;
+  });
+
+  afterEach(() => {
+    AudioService.setToneSettings({ frequency: 600 });
+    AudioService.setChannelSettings(null);
+  });
+
+  describe('decodeFile', () => {
+    it('should decode an exported file with its speed and pitch', async () => {
+      const uri = await exportText('CQ CQ DE K1ABC');
+      const result = await AudioDecoderService.decodeFile(uri);
+
+      expect(result.text).toBe('CQ CQ DE K1ABC');
+      expect(result.morse).toBe(MorseConverterService.textToMorse('CQ CQ DE K1ABC'));
+      expect(result.wpm).toBeCloseTo(20, 0);
+      expect(Math.abs(result.frequency - 600)).toBeLessThanOrEqual(3);
+      expect(result.characters.map(entry => entry.character).join('')).toBe(result.text);
+      expect(Math.min(...result.characters.map(entry => entry.confidence))).toBeGreaterThan(0.7);
+    });
+
+    it('should decode fast sending with Farnsworth spacing', async () => {
+      const uri = await exportText('PARIS 73', { characterWpm: 35, effectiveWpm: 12 });
+      const result = await AudioDecoderService.decodeFile(uri);
+
+      expect(result.text).toBe('PARIS 73');
+      expect(Math.abs(result.wpm - 35)).toBeLessThan(2);
+    });
+
+    it('should find another pitch and cope with heavy weighting', async () => {
+      AudioService.setToneSettings({ frequency: 850 });
+      const uri = await exportText('TEST', { weighting: 65 });
+      const result = await AudioDecoderService.decodeFile(uri);
+
+      expect(result.text).toBe('TEST');
+      expect(Math.abs(result.frequency - 850)).toBeLessThanOrEqual(3);
+    });
+
+    it('should decode through noise and a nearby carrier', async () => {
+      AudioService.setChannelSettings({ ...DEFAULT_CHANNEL_SETTINGS, seed: 3, snr: 0, interferers: 1, interferenceLevel: -10 });
+      const uri = await exportText('QTH BERLIN');
+      const result = await AudioDecoderService.decodeFile(uri);
+
+      expect(result.text).toBe('QTH BERLIN');
+    });
+
+    it('should read the file a block at a time and close it', async () => {
+      const uri = await exportText('SOS');
+      const result = await AudioDecoderService.decodeFile(uri);
+
+      expect(result.text).toBe('SOS');
+      expect(mockHandle.readBytes.mock.calls.length).toBeGreaterThan(2);
+      // No read is longer than a second of 16-bit stereo at 44.1 kHz
+      expect(Math.max(...mockHandle.readBytes.mock.calls.map(([length]) => length))).toBeLessThanOrEqual(44100 * 4);
+      expect(mockHandle.close).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report files it cannot read', async () => {
+      mockFile.open.mockImplementationOnce(() => {
+        throw new Error('ENOENT');
+      });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await expect(AudioDecoderService.decodeFile('file:///missing.wav')).rejects.toThrow('Could not read audio file');
+      (console.error as jest.Mock).mockRestore();
+    });
+  });
+
+  describe('decodeSamples', () => {
+    it('should decode at a given pitch', async () => {
+      await exportText('SOS');
+      const audio = parseWav(writtenBytes());
+
+      expect(AudioDecoderService.decodeSamples(audio.samples, audio.sampleRate, { frequency: 600 }).text).toBe('SOS');
+    });
+
+    it('should find no signal in silence or steady noise', () => {
+      expect(() => AudioDecoderService.decodeSamples(new Float32Array(8000), 8000)).toThrow(NO_SIGNAL);
+
+      const hiss = Float32Array.from({ length: 8000 }, (_, i) => Math.sin(i * 12.9898) * 0.1);
+      expect(() => AudioDecoderService.decodeSamples(hiss, 8000, { frequency: 600 })).toThrow(NO_SIGNAL);
+    });
+  });
+
+  describe('createLiveDecoder', () => {
+    // Feed a file to a live decoder in pieces the size a recorder delivers
+    const listen = async (text: string, timing: Partial<TimingConfig> = {}) => {
+      await exportText(text, timing);
+      const audio = parseWav(writtenBytes());
+      const decoder = AudioDecoderService.createLiveDecoder(600, audio.sampleRate);
+      const states = [];
+      for (let start = 0; start < audio.samples.length; start += 1024) {
+        states.push(decoder.push(audio.samples.subarray(start, start + 1024)));
+      }
+      states.push(decoder.push(new Float32Array(audio.sampleRate)));
+      return { decoder, states };
+    };
+
+    it('should show characters as they complete', async () => {
+      const { states } = await listen('CQ TEST');
+      const final = states[states.length - 1];
+
+      expect(final.text).toBe('CQ TEST ');
+      expect(Math.abs(final.wpm - 20)).toBeLessThan(1.5);
+      expect(final.isKeyDown).toBe(false);
+      expect(final.threshold).not.toBeNull();
+
+      const texts = states.map(state => state.text);
+      expect(texts).toContain('C');
+      expect(texts).toContain('CQ ');
+      expect(texts).toContain('CQ TES');
+      expect(states.some(state => state.isKeyDown)).toBe(true);
+    });
+
+    it('should keep decoding a long transmission', async () => {
+      const { states } = await listen('PARIS '.repeat(12).trim(), { characterWpm: 30 });
+
+      expect(states[states.length - 1].text).toBe('PARIS '.repeat(12));
+    });
+
+    it('should follow a signal through noise and fading', async () => {
+      AudioService.setChannelSettings({ ...DEFAULT_CHANNEL_SETTINGS, seed: 5, snr: 6, fadingDepth: 0.5, fadingRate: 0.5 });
+      const { states } = await listen('QTH BERLIN');
+
+      expect(states[states.length - 1].text).toBe('QTH BERLIN ');
+    });
+
+    it('should start again after clearing', async () => {
+      const { decoder } = await listen('SOS');
+
+      decoder.clear();
+      expect(decoder.push(new Float32Array(1024)).text).toBe('');
+    });
+
+    it('should hear nothing in silence', () => {
+      const decoder = AudioDecoderService.createLiveDecoder(600, 8000);
+      const state = decoder.push(new Float32Array(8000));
+
+      expect(state).toEqual({ text: '', wpm: 0, level: 0, threshold: null, isKeyDown: false });
+    });
+  });
+
+  describe('createLevelDecoder', () => {
+    // Levels every 2.5 ms from a list of [level, milliseconds]
+    const levelsOf = (pattern: [number, number][]) =>
+      pattern.flatMap(([level, duration]) => Array.from({ length: duration / 2.5 }, () => level));
+
+    it('should bridge dropouts inside a mark', () => {
+      const decoder = AudioDecoderService.createLevelDecoder(2.5);
+      const state = decoder.push(levelsOf([
+        [0, 100], [1, 60], [0, 60], [1, 80], [0, 2.5], [1, 97.5], [0, 500],
+      ]));
+
+      expect(state.text).toBe('A ');
+    });
+
+    it('should survive keying that never ends a character', () => {
+      const decoder = AudioDecoderService.createLevelDecoder(2.5);
+      const state = decoder.push(levelsOf([[0, 100], ...Array.from({ length: 400 }, (): [number, number][] => [[1, 60], [0, 60]]).flat()]));
+
+      expect(state.text).toBe('');
+      expect(state.isKeyDown).toBe(false);
+    });
+  });
+
+  describe('decodeRuns', () => {
+    const mark = (duration: number) => ({ isMark: true, duration });
+    const space = (duration: number) => ({ isMark: false, duration });
+
+    it('should sort marks and gaps by length', () => {
+      // A, letter gap, N, word gap, E at 20 WPM
+      const result = AudioDecoderService.decodeRuns([
+        mark(60), space(60), mark(180), space(180),
+        mark(180), space(60), mark(60), space(420),
+        mark(60),
+      ]);
+
+      expect(result.text).toBe('AN E');
+      expect(result.morse).toBe('.- -. / .');
+      expect(result.wpm).toBe(20);
+      expect(result.characters.map(entry => entry.confidence)).toEqual([1, 1, 1, 1]);
+    });
+
+    it('should be less sure of elements close to the boundary', () => {
+      const result = AudioDecoderService.decodeRuns([
+        mark(60), space(60), mark(180), space(180),
+        mark(110), space(60), mark(60),
+      ]);
+
+      expect(result.text).toBe('AN');
+      expect(result.characters[0].confidence).toBe(1);
+      expect(result.characters[1].confidence).toBeLessThan(0.5);
+    });
+
+    it('should mark groups that are not in the code table', () => {
+      const nineDits = Array.from({ length: 9 }, () => [mark(60), space(60)]).flat().slice(0, -1);
+      const result = AudioDecoderService.decodeRuns([mark(180), space(180), ...nineDits]);
+
+      expect(result.characters[1]).toEqual({ character: UNKNOWN_CHARACTER, morse: '.........', confidence: 0 });
+    });
+  });
+});
@@ -1,16 +1,44 @@
-import AudioService from '../AudioService';
+import AudioService, { EXPORT_CANCELLED } from '../AudioService';
 import MorseConverterService from '../MorseConverterService';
-import * as FileSystem from 'expo-file-system';
+import { File } from 'expo-file-system/next';
+import { DEFAULT_CHANNEL_SETTINGS } from '../../utils/ChannelSimulator';
 
 // Mock expo-file-system
 jest.mock('expo-file-system', () => ({
   documentDirectory: 'file:///mock/directory/',
-  writeAsStringAsync: jest.fn().mockResolvedValue(undefined),
-  EncodingType: {
-    Base64: 'base64',
-  },
 }));
 
+// Mock the file handle export streams into
+const mockHandle = {
+  writeBytes: jest.fn(),
+  close: jest.fn(),
+};
+const mockFile = {
+  exists: false,
+  create: jest.fn(() => {
+    mockFile.exists = true;
+  }),
+  delete: jest.fn(() => {
+    mockFile.exists = false;
+  }),
+  open: jest.fn(() => mockHandle),
+};
+jest.mock('expo-file-system/next', () => ({
+  File: jest.fn(() => mockFile),
+}));
+
+// Join every block written to the file and read back the samples after the header
+const writtenSamples = (): Int16Array => {
+  const blocks: Uint8Array[] = mockHandle.writeBytes.mock.calls.map(call => call[0]);
+  const bytes = new Uint8Array(blocks.reduce((sum, block) => sum + block.length, 0));
+  let offset = 0;
+  for (const block of blocks) {
+    bytes.set(block, offset);
+    offset += block.length;
+  }
+  return new Int16Array(bytes.buffer.slice(44));
+};
+
 // Mock expo-av
 jest.mock('expo-av', () => ({
   Audio: {
@@ -18,6 +46,9 @@ jest.mock('expo-av', () => ({
     Sound: {
       createAsync: jest.fn().mockResolvedValue({
         sound: {
+          playAsync: jest.fn().mockResolvedValue(undefined),
+          pauseAsync: jest.fn().mockResolvedValue(undefined),
+          setPositionAsync: jest.fn().mockResolvedValue(undefined),
           stopAsync: jest.fn().mockResolvedValue(undefined),
           unloadAsync: jest.fn().mockResolvedValue(undefined),
         },
@@ -29,6 +60,7 @@ jest.mock('expo-av', () => ({
 describe('AudioService - Download Functionality', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockFile.exists = false;
   });
 
   describe('generateAudioFile', () => {
@@ -36,33 +68,109 @@ describe('AudioService - Download Functionality', () => {
       const morseCode = '... --- ...'; // SOS
       const timings = MorseConverterService.morseToTiming(morseCode);
 
-      const fileUri = await AudioService.generateAudioFile(timings, 1);
+      const fileUri = await AudioService.generateAudioFile(timings, 20);
 
-      expect(fileUri).toMatch(/^file:\/\/\/mock\/directory\/morse_\d{8}_\d{6}\.wav$/);
-      expect(FileSystem.writeAsStringAsync).toHaveBeenCalledWith(
-        expect.stringMatching(/morse_\d{8}_\d{6}\.wav$/),
-        expect.any(String),
-        { encoding: 'base64' }
-      );
+      expect(fileUri).toMatch(/^file:\/\/\/mock\/directory\/morse_20wpm_\d{8}_\d{6}\.wav$/);
+      expect(File).toHaveBeenCalledWith(fileUri);
+      expect(mockFile.create).toHaveBeenCalled();
+      expect(mockHandle.close).toHaveBeenCalled();
     });
 
-    it('should generate filename with timestamp pattern', async () => {
+    it('should generate filename with speed and timestamp pattern', async () => {
       const morseCode = '.-'; // A
       const timings = MorseConverterService.morseToTiming(morseCode);
 
-      const fileUri = await AudioService.generateAudioFile(timings, 1);
+      const fileUri = await AudioService.generateAudioFile(timings, 20);
 
-      // Check filename format: morse_YYYYMMDD_HHMMSS.wav
-      expect(fileUri).toMatch(/morse_\d{8}_\d{6}\.wav$/);
+      // Check filename format: morse_<WPM>wpm_YYYYMMDD_HHMMSS.wav
+      expect(fileUri).toMatch(/morse_20wpm_\d{8}_\d{6}\.wav$/);
     });
 
-    it('should respect speed parameter', async () => {
+    it('should show fractional speeds in the filename', async () => {
       const morseCode = '.-'; // A
-      const timings = MorseConverterService.morseToTiming(morseCode);
+      const timings = MorseConverterService.morseToTiming(morseCode, { characterWpm: 22.5 });
+
+      const fileUri = await AudioService.generateAudioFile(timings, 22.5);
+
+      expect(fileUri).toMatch(/morse_22\.5wpm_\d{8}_\d{6}\.wav$/);
+    });
+
+    it('should render tone for American long dashes', async () => {
+      const timings = [
+        { type: 'longDah' as const, duration: 100 },
+        { type: 'intraCharSpace' as const, duration: 100 },
+        { type: 'extraLongDah' as const, duration: 100 },
+      ];
+
+      await AudioService.generateAudioFile(timings, 20);
+
+      const samples = writtenSamples();
+      const peak = (from: number, to: number) =>
+        Math.max(...Array.from(samples.slice(from, to), Math.abs));
+
+      expect(peak(0, 4410)).toBeGreaterThan(0);
+      expect(peak(4410, 8820)).toBe(0);
+      expect(peak(8820, 13230)).toBeGreaterThan(0);
+    });
+
+    it('should ramp each element up and down instead of switching it abruptly', async () => {
+      AudioService.setToneEnvelope({ shape: 'raisedCosine', rampTime: 5 });
+      await AudioService.generateAudioFile([{ type: 'dah' as const, duration: 100 }], 20);
+
+      const samples = writtenSamples();
+      const peak = (from: number, to: number) =>
+        Math.max(...Array.from(samples.slice(from, to), Math.abs));
+
+      // 5 ms is 220 samples at 44.1 kHz
+      expect(peak(0, 20)).toBeLessThan(500);
+      expect(peak(4390, 4410)).toBeLessThan(500);
+      expect(peak(2000, 2400)).toBeGreaterThan(9000);
+    });
+
+    it('should reject ramp times outside 2-10 ms', () => {
+      expect(() => AudioService.setToneEnvelope({ rampTime: 20 })).toThrow('Ramp time must be between 2 and 10 ms');
+      expect(AudioService.getToneEnvelope().rampTime).toBe(5);
+    });
 
-      await AudioService.generateAudioFile(timings, 2);
+    it('should render the selected pitch and volume', async () => {
+      AudioService.setToneSettings({ frequency: 441, volume: 1 });
+      await AudioService.generateAudioFile([{ type: 'dah' as const, duration: 100 }], 20);
+      AudioService.setToneSettings({ frequency: 600, volume: 0.5 });
 
-      expect(FileSystem.writeAsStringAsync).toHaveBeenCalled();
+      const samples = writtenSamples();
+
+      // 441 Hz at 44.1 kHz is 100 samples per period: a quarter period in is the crest
+      expect(samples[1025]).toBeGreaterThan(19000);
+      expect(samples[1075]).toBeLessThan(-19000);
+    });
+
+    it('should reject tone settings out of range', () => {
+      expect(() => AudioService.setToneSettings({ frequency: 2000 })).toThrow('Frequency must be between 300 and 1200 Hz');
+      expect(() => AudioService.setToneSettings({ volume: 0 })).toThrow('Volume must be between 10% and 100%');
+      expect(AudioService.getToneSettings().frequency).toBe(600);
+    });
+
+    it('should add the same band conditions for the same seed', async () => {
+      const timings = [
+        { type: 'dit' as const, duration: 60 },
+        { type: 'wordGap' as const, duration: 100 },
+      ];
+      AudioService.setChannelSettings({ ...DEFAULT_CHANNEL_SETTINGS, seed: 73, crashRate: 2 });
+      await AudioService.generateAudioFile(timings, 20);
+      const first = writtenSamples();
+      mockHandle.writeBytes.mockClear();
+      await AudioService.generateAudioFile(timings, 20);
+      AudioService.setChannelSettings(null);
+
+      // Noise fills the gap that is silent in a clean file
+      expect(first.slice(3000).some(sample => sample !== 0)).toBe(true);
+      expect(writtenSamples()).toEqual(first);
+    });
+
+    it('should reject band conditions out of range', () => {
+      expect(() => AudioService.setChannelSettings({ ...DEFAULT_CHANNEL_SETTINGS, snr: 50 }))
+        .toThrow('SNR must be between -10 and 30 dB');
+      expect(AudioService.getChannelSettings()).toBeNull();
     });
 
     it('should throw error for empty timings', async () => {
@@ -73,17 +181,58 @@ describe('AudioService - Download Functionality', () => {
       const morseCode = '.-';
       const timings = MorseConverterService.morseToTiming(morseCode);
 
-      await expect(AudioService.generateAudioFile(timings, 0.3)).rejects.toThrow('Speed must be between 0.5 and 2.0');
-      await expect(AudioService.generateAudioFile(timings, 2.5)).rejects.toThrow('Speed must be between 0.5 and 2.0');
+      await expect(AudioService.generateAudioFile(timings, 4)).rejects.toThrow('Speed must be between 5 and 60 WPM');
+      await expect(AudioService.generateAudioFile(timings, 61)).rejects.toThrow('Speed must be between 5 and 60 WPM');
+    });
+
+    it('should write long files in blocks and report progress', async () => {
+      const timings = [
+        { type: 'dah' as const, duration: 1500 },
+        { type: 'wordGap' as const, duration: 1500 },
+      ];
+      const onProgress = jest.fn();
+
+      await AudioService.generateAudioFile(timings, 20, { onProgress });
+
+      // Header, then one block per second of audio
+      expect(mockHandle.writeBytes).toHaveBeenCalledTimes(4);
+      expect(writtenSamples()).toHaveLength(132300);
+      expect(onProgress.mock.calls.map(call => call[0])).toEqual([1 / 3, 2 / 3, 1, 1]);
+    });
+
+    it('should stop and remove the file when cancelled', async () => {
+      const timings = [{ type: 'dah' as const, duration: 5000 }];
+      const controller = new AbortController();
+
+      await expect(
+        AudioService.generateAudioFile(timings, 20, { onProgress: () => controller.abort(), signal: controller.signal })
+      ).rejects.toThrow(EXPORT_CANCELLED);
+
+      expect(mockHandle.writeBytes).toHaveBeenCalledTimes(2);
+      expect(mockHandle.close).toHaveBeenCalled();
+      expect(mockFile.delete).toHaveBeenCalled();
     });
 
     it('should handle file system errors gracefully', async () => {
       const morseCode = '.-';
       const timings = MorseConverterService.morseToTiming(morseCode);
 
-      (FileSystem.writeAsStringAsync as jest.Mock).mockRejectedValueOnce(new Error('Storage full'));
+      mockHandle.writeBytes.mockImplementationOnce(() => {
+        throw new Error('Permission denied');
+      });
+
+      await expect(AudioService.generateAudioFile(timings, 20)).rejects.toThrow('Audio file generation failed');
+      expect(mockFile.delete).toHaveBeenCalled();
+    });
+
+    it('should report a full disk as a storage problem', async () => {
+      const timings = MorseConverterService.morseToTiming('.-');
+
+      mockHandle.writeBytes.mockImplementationOnce(() => {
+        throw new Error('Storage full');
+      });
 
-      await expect(AudioService.generateAudioFile(timings, 1)).rejects.toThrow('Audio file generation failed');
+      await expect(AudioService.generateAudioFile(timings, 20)).rejects.toThrow('Insufficient storage space available');
     });
   });
 });
@@ -1,6 +1,12 @@
+import { Audio } from 'expo-av';
 import AudioService from '../AudioService';
 import MorseConverterService from '../MorseConverterService';
 
+// Mock the streaming file API used by export
+jest.mock('expo-file-system/next', () => ({
+  File: jest.fn(),
+}));
+
 // Mock expo-av
 jest.mock('expo-av', () => ({
   Audio: {
@@ -9,6 +15,8 @@ jest.mock('expo-av', () => ({
       createAsync: jest.fn().mockResolvedValue({
         sound: {
           playAsync: jest.fn().mockResolvedValue(undefined),
+          pauseAsync: jest.fn().mockResolvedValue(undefined),
+          setPositionAsync: jest.fn().mockResolvedValue(undefined),
           stopAsync: jest.fn().mockResolvedValue(undefined),
           unloadAsync: jest.fn().mockResolvedValue(undefined),
         },
@@ -37,7 +45,7 @@ describe('AudioService', () => {
       });
 
       // Start playback (don't await to test async behavior)
-      const playPromise = AudioService.playMorse(timings, 1, onProgress);
+      const playPromise = AudioService.playMorse(timings, onProgress);
       
       // Wait a bit for playback to start
       await new Promise(resolve => setTimeout(resolve, 100));
@@ -51,21 +59,9 @@ describe('AudioService', () => {
 
     it('should throw error for empty timings', async () => {
       await expect(
-        AudioService.playMorse([], 1, jest.fn())
+        AudioService.playMorse([], jest.fn())
       ).rejects.toThrow('No timings provided');
     });
-
-    it('should throw error for invalid speed', async () => {
-      const timings = [{ type: 'dit' as const, duration: 100 }];
-      
-      await expect(
-        AudioService.playMorse(timings, 0.3, jest.fn())
-      ).rejects.toThrow('Speed must be between 0.5 and 2.0');
-      
-      await expect(
-        AudioService.playMorse(timings, 2.5, jest.fn())
-      ).rejects.toThrow('Speed must be between 0.5 and 2.0');
-    });
   });
 
   describe('pause and resume', () => {
@@ -74,7 +70,7 @@ describe('AudioService', () => {
       const timings = MorseConverterService.morseToTiming(morse, 100);
       
       // Start playback
-      const playPromise = AudioService.playMorse(timings, 1, jest.fn());
+      const playPromise = AudioService.playMorse(timings, jest.fn());
       
       // Wait a bit
       await new Promise(resolve => setTimeout(resolve, 50));
@@ -97,7 +93,7 @@ describe('AudioService', () => {
       expect(AudioService.isPlaying()).toBe(false);
       
       const timings = [{ type: 'dit' as const, duration: 100 }];
-      const playPromise = AudioService.playMorse(timings, 1, jest.fn());
+      const playPromise = AudioService.playMorse(timings, jest.fn());
       
       // Should be playing after start
       await new Promise(resolve => setTimeout(resolve, 10));
@@ -119,7 +115,7 @@ describe('AudioService', () => {
         lastProgress = progress;
       };
       
-      const playPromise = AudioService.playMorse(timings, 1, onProgress);
+      const playPromise = AudioService.playMorse(timings, onProgress);
       
       // Wait for some progress
       await new Promise(resolve => setTimeout(resolve, 50));
@@ -131,11 +127,106 @@ describe('AudioService', () => {
     });
   });
 
+  describe('buffer playback', () => {
+    const createAsync = Audio.Sound.createAsync as jest.Mock;
+    const loadedSound = async () => (await createAsync.mock.results[0].value).sound;
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should render the whole message into one sound', async () => {
+      const timings = MorseConverterService.morseToTiming(MorseConverterService.textToMorse('PARIS'), 60);
+      await AudioService.playMorse(timings, jest.fn());
+
+      expect(createAsync).toHaveBeenCalledTimes(1);
+      const [source, status] = createAsync.mock.calls[0];
+      expect(source.uri).toMatch(/^data:audio\/wav;base64,/);
+      expect(status.shouldPlay).toBe(false);
+      expect((await loadedSound()).playAsync).toHaveBeenCalledTimes(1);
+    });
+
+    it('should split long messages at gaps and load the next chunk ahead', async () => {
+      const timings = Array.from({ length: 40 }, (_, i) =>
+        i % 2 === 0 ? { type: 'dah' as const, duration: 1000 } : { type: 'letterGap' as const, duration: 1000 }
+      );
+      await AudioService.playMorse(timings, jest.fn());
+
+      expect(createAsync).toHaveBeenCalledTimes(2);
+    });
+
+    it('should start the next chunk at the end of the current one without waiting for the finish report', async () => {
+      jest.useFakeTimers();
+      const flush = async () => {
+        for (let i = 0; i < 10; i++) await Promise.resolve();
+      };
+      const timings = Array.from({ length: 40 }, (_, i) =>
+        i % 2 === 0 ? { type: 'dah' as const, duration: 1000 } : { type: 'letterGap' as const, duration: 1000 }
+      );
+      await AudioService.playMorse(timings, jest.fn());
+      const sound = await loadedSound();
+      const reportStatus = createAsync.mock.calls[0][2];
+      expect(sound.playAsync).toHaveBeenCalledTimes(1);
+
+      // The first chunk is 30 s long; its last position report comes 50 ms before the end
+      reportStatus({ isLoaded: true, isPlaying: true, positionMillis: 29950, didJustFinish: false });
+      jest.advanceTimersByTime(49);
+      await flush();
+      expect(sound.playAsync).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(1);
+      await flush();
+      expect(sound.playAsync).toHaveBeenCalledTimes(2);
+      expect(AudioService.getProgress()).toBeCloseTo(0.75, 2);
+
+      // The late finish report does not start it a second time
+      reportStatus({ isLoaded: true, isPlaying: false, positionMillis: 30000, didJustFinish: true });
+      await flush();
+      expect(sound.playAsync).toHaveBeenCalledTimes(2);
+      expect(createAsync).toHaveBeenCalledTimes(2);
+    });
+
+    it('should seek by buffer position', async () => {
+      const timings = [
+        { type: 'dah' as const, duration: 300 },
+        { type: 'letterGap' as const, duration: 300 },
+        { type: 'dit' as const, duration: 400 },
+      ];
+      await AudioService.playMorse(timings, jest.fn());
+
+      await AudioService.seekTo(0.25);
+      expect((await loadedSound()).setPositionAsync).toHaveBeenCalledWith(250);
+      expect(AudioService.getProgress()).toBeCloseTo(0.25, 1);
+    });
+
+    it('should keep the position while paused', async () => {
+      const timings = [{ type: 'dah' as const, duration: 1000 }];
+      await AudioService.playMorse(timings, jest.fn());
+      await AudioService.seekTo(0.5);
+
+      AudioService.pausePlayback();
+      expect((await loadedSound()).pauseAsync).toHaveBeenCalled();
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(AudioService.getProgress()).toBeCloseTo(0.5, 2);
+    });
+
+    it('should complete when the last buffer finishes', async () => {
+      const onComplete = jest.fn();
+      await AudioService.playMorse([{ type: 'dit' as const, duration: 100 }], jest.fn(), onComplete);
+
+      const reportStatus = createAsync.mock.calls[0][2];
+      reportStatus({ isLoaded: true, isPlaying: false, positionMillis: 100, didJustFinish: true });
+
+      expect(onComplete).toHaveBeenCalledTimes(1);
+      expect(AudioService.isPlaying()).toBe(false);
+    });
+  });
+
   describe('resource cleanup', () => {
     it('should release resources properly', async () => {
       const timings = [{ type: 'dit' as const, duration: 100 }];
       
-      const playPromise = AudioService.playMorse(timings, 1, jest.fn());
+      const playPromise = AudioService.playMorse(timings, jest.fn());
       await new Promise(resolve => setTimeout(resolve, 50));
       
       await AudioService.releaseResources();
@@ -0,0 +1,132 @@
+import CustomCodeTableService, { CODE_TABLE_VERSION } from '../CustomCodeTableService';
+import * as FileSystem from 'expo-file-system';
+
+// Mock expo-file-system
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///mock/directory/',
+  writeAsStringAsync: jest.fn().mockResolvedValue(undefined),
+  readAsStringAsync: jest.fn(),
+  getInfoAsync: jest.fn().mockResolvedValue({ exists: true }),
+  makeDirectoryAsync: jest.fn().mockResolvedValue(undefined),
+  readDirectoryAsync: jest.fn().mockResolvedValue([]),
+  deleteAsync: jest.fn().mockResolvedValue(undefined),
+}));
+
+const scoutTable = {
+  name: 'Scout signs',
+  codes: { '#': '..--.-.', '<ZZ>': '--..--..' },
+};
+
+describe('CustomCodeTableService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (FileSystem.readDirectoryAsync as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('serializeTable / parseTable', () => {
+    it('should round-trip a table through versioned JSON', () => {
+      const json = CustomCodeTableService.serializeTable(scoutTable);
+      expect(JSON.parse(json)).toMatchObject({ version: CODE_TABLE_VERSION, name: 'Scout signs' });
+      expect(CustomCodeTableService.parseTable(json)).toEqual(scoutTable);
+    });
+
+    it('should upper-case letter keys', () => {
+      const json = CustomCodeTableService.serializeTable({ name: 'Lower', codes: { 'ŵ': '.--..-' } });
+      expect(CustomCodeTableService.parseTable(json).codes).toEqual({ 'Ŵ': '.--..-' });
+    });
+
+    it('should reject files that are not code tables', () => {
+      expect(() => CustomCodeTableService.parseTable('not json')).toThrow('Code table is not valid JSON');
+      expect(() => CustomCodeTableService.parseTable('{"name":"x"}')).toThrow('File is not a Morse code table');
+    });
+
+    it('should reject newer file versions', () => {
+      const json = JSON.stringify({ format: 'morse-torch-code-table', version: CODE_TABLE_VERSION + 1, name: 'x', codes: {} });
+      expect(() => CustomCodeTableService.parseTable(json)).toThrow(`Code table version ${CODE_TABLE_VERSION + 1} is not supported`);
+    });
+
+    it('should reject ambiguous codes', () => {
+      const clashing = CustomCodeTableService.serializeTable({ name: 'Clash', codes: { '#': '.-' } });
+      expect(() => CustomCodeTableService.parseTable(clashing)).toThrow('.- is ambiguous: #, A');
+
+      const duplicate = CustomCodeTableService.serializeTable({ name: 'Twice', codes: { '#': '..--.-.', '%': '..--.-.' } });
+      expect(() => CustomCodeTableService.parseTable(duplicate)).toThrow('..--.-. is ambiguous: #, %');
+    });
+  });
+
+  describe('validateTable', () => {
+    it('should accept overriding a standard character', () => {
+      expect(CustomCodeTableService.validateTable({ name: 'Swap', codes: { 'A': '.-.-.-.-', '.': '.-' } })).toEqual([]);
+    });
+
+    it('should report malformed entries', () => {
+      const problems = CustomCodeTableService.validateTable({ name: '', codes: { 'AB': '.x' } });
+      expect(problems).toEqual([
+        'Table name is required',
+        '"AB" must be a single character or a sign such as <ZZ>',
+        'Code for "AB" must be 1-12 dots and dashes',
+      ]);
+    });
+  });
+
+  describe('storage', () => {
+    it('should save tables under a file named after the table', async () => {
+      const uri = await CustomCodeTableService.saveTable(scoutTable);
+      expect(uri).toBe('file:///mock/directory/code-tables/scout-signs.json');
+      expect(FileSystem.writeAsStringAsync).toHaveBeenCalledWith(uri, CustomCodeTableService.serializeTable(scoutTable));
+    });
+
+    it('should replace the saved table with the same name', async () => {
+      (FileSystem.readDirectoryAsync as jest.Mock).mockResolvedValueOnce(['signs.json']);
+      (FileSystem.readAsStringAsync as jest.Mock).mockResolvedValueOnce(CustomCodeTableService.serializeTable(scoutTable));
+
+      const uri = await CustomCodeTableService.saveTable({ ...scoutTable, codes: { '#': '..--..-' } });
+      expect(uri).toBe('file:///mock/directory/code-tables/signs.json');
+    });
+
+    it('should give tables whose names share a file name their own files', async () => {
+      const other = { name: 'scout-signs', codes: { '#': '..--.-.' } };
+      (FileSystem.readDirectoryAsync as jest.Mock).mockResolvedValue(['scout-signs.json']);
+      (FileSystem.readAsStringAsync as jest.Mock).mockResolvedValue(CustomCodeTableService.serializeTable(other));
+
+      const uri = await CustomCodeTableService.saveTable(scoutTable);
+      expect(uri).toBe('file:///mock/directory/code-tables/scout-signs-2.json');
+    });
+
+    it('should keep tables with non-Latin names apart', async () => {
+      const greek = { name: 'Ελληνικά', codes: { '#': '..--.-.' } };
+      (FileSystem.readDirectoryAsync as jest.Mock).mockResolvedValue(['table.json']);
+      (FileSystem.readAsStringAsync as jest.Mock).mockResolvedValue(
+        CustomCodeTableService.serializeTable({ name: 'Кириллица', codes: { '#': '..--.-.' } })
+      );
+
+      const uri = await CustomCodeTableService.saveTable(greek);
+      expect(uri).toBe('file:///mock/directory/code-tables/table-2.json');
+    });
+
+    it('should delete the file holding the named table', async () => {
+      (FileSystem.readDirectoryAsync as jest.Mock).mockResolvedValueOnce(['scout-signs-2.json']);
+      (FileSystem.readAsStringAsync as jest.Mock).mockResolvedValueOnce(CustomCodeTableService.serializeTable(scoutTable));
+
+      await CustomCodeTableService.deleteTable('Scout signs');
+      expect(FileSystem.deleteAsync).toHaveBeenCalledWith('file:///mock/directory/code-tables/scout-signs-2.json', { idempotent: true });
+    });
+
+    it('should not save invalid tables', async () => {
+      await expect(CustomCodeTableService.saveTable({ name: 'Clash', codes: { '#': '.-' } })).rejects.toThrow('ambiguous');
+      expect(FileSystem.writeAsStringAsync).not.toHaveBeenCalled();
+    });
+
+    it('should load saved tables and skip broken files', async () => {
+      (FileSystem.readDirectoryAsync as jest.Mock).mockResolvedValueOnce(['scout-signs.json', 'broken.json']);
+      (FileSystem.readAsStringAsync as jest.Mock)
+        .mockResolvedValueOnce(CustomCodeTableService.serializeTable(scoutTable))
+        .mockResolvedValueOnce('{');
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(await CustomCodeTableService.loadTables()).toEqual([scoutTable]);
+      expect(warn).toHaveBeenCalledTimes(1);
+      warn.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import IncrementalConverterService from '../IncrementalConverterService';
+import MorseConverterService from '../MorseConverterService';
+
+describe('IncrementalConverterService', () => {
+  beforeEach(() => {
+    IncrementalConverterService.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    MorseConverterService.setAlphabet('latin');
+    MorseConverterService.setFallbackPolicy('transliterate');
+  });
+
+  describe('textToMorse', () => {
+    it('should match the full conversion', () => {
+      const texts = ['Hello World', 'CQ CQ de <SK>  73', '  spaced  out  ', 'Straße ✓ 1', ''];
+      for (const text of texts) {
+        expect(IncrementalConverterService.textToMorse(text)).toBe(MorseConverterService.textToMorse(text));
+      }
+    });
+
+    it('should only encode words that changed', () => {
+      IncrementalConverterService.textToMorse('the quick brown fox');
+      const spy = jest.spyOn(MorseConverterService, 'textToMorse');
+
+      expect(IncrementalConverterService.textToMorse('the quick brown fox jumps')).toBe(
+        '- .... . / --.- ..- .. -.-. -.- / -... .-. --- .-- -. / ..-. --- -..- / .--- ..- -- .--. ...'
+      );
+      expect(spy.mock.calls).toEqual([['jumps']]);
+    });
+
+    it('should start over when converter settings change', () => {
+      expect(IncrementalConverterService.textToMorse('ß')).toBe('... ...');
+      MorseConverterService.setFallbackPolicy('drop');
+      expect(IncrementalConverterService.textToMorse('ß')).toBe('');
+    });
+
+    it('should convert Wabun text as a whole', () => {
+      MorseConverterService.setAlphabet('wabun');
+      const text = 'イロハ ABC ニ';
+      expect(IncrementalConverterService.textToMorse(text)).toBe(MorseConverterService.textToMorse(text));
+    });
+  });
+
+  describe('morseToTiming / getDuration', () => {
+    const morse = MorseConverterService.textToMorse('CQ CQ DE AB1CD K');
+    const options = { characterWpm: 20, effectiveWpm: 10 };
+
+    it('should match the full timing with Morse offsets', () => {
+      expect(IncrementalConverterService.morseToTiming(morse, options)).toEqual(
+        MorseConverterService.morseToTiming(morse, options)
+      );
+    });
+
+    it('should total the same duration', () => {
+      const total = MorseConverterService.morseToTiming(morse, options).reduce((sum, t) => sum + t.duration, 0);
+      expect(IncrementalConverterService.getDuration(morse, options)).toBeCloseTo(total);
+    });
+
+    it('should re-time only words that changed', () => {
+      IncrementalConverterService.getDuration(morse, options);
+      const spy = jest.spyOn(MorseConverterService, 'morseToTiming');
+
+      IncrementalConverterService.getDuration(`${morse} / --..`, options);
+      expect(spy.mock.calls).toEqual([['--..', options]]);
+    });
+
+    it('should fall back to the full timing for irregular separators', () => {
+      const irregular = '.-  -... /  / -.-.';
+      expect(IncrementalConverterService.morseToTiming(irregular, 100)).toEqual(
+        MorseConverterService.morseToTiming(irregular, 100)
+      );
+    });
+  });
+});
@@ -0,0 +1,271 @@
+import MicrophoneService, { MICROPHONE_DENIED } from '../MicrophoneService';
+import MorseConverterService from '../MorseConverterService';
+import { isMarkTiming } from '../../utils/TimingUtils';
+import { LiveDecodeState, MorseTiming } from '../../types/morse';
+
+const mockPlatform = { OS: 'ios' };
+jest.mock('react-native', () => ({
+  Platform: {
+    get OS() {
+      return mockPlatform.OS;
+    },
+  },
+}));
+
+// The recording grows as the test writes to it
+const mockRecordingFile = {
+  bytes: new Uint8Array(0),
+  written: 0,
+  exists: true,
+  delete: jest.fn(),
+};
+jest.mock('expo-file-system/next', () => ({
+  File: jest.fn(() => ({
+    get exists() {
+      return mockRecordingFile.exists;
+    },
+    delete: mockRecordingFile.delete,
+    open: () => {
+      const handle = {
+        offset: 0 as number | null,
+        size: mockRecordingFile.written,
+        readBytes: (length: number) => {
+          const start = handle.offset ?? 0;
+          handle.offset = start + length;
+          return mockRecordingFile.bytes.slice(start, Math.min(start + length, mockRecordingFile.written));
+        },
+        close: jest.fn(),
+      };
+      return handle;
+    },
+  })),
+}));
+
+const mockRecording = {
+  getURI: jest.fn(() => 'file:///mock/recording.wav'),
+  stopAndUnloadAsync: jest.fn().mockResolvedValue({}),
+  setProgressUpdateInterval: jest.fn(),
+  setOnRecordingStatusUpdate: jest.fn(),
+};
+jest.mock('expo-av', () => ({
+  Audio: {
+    requestPermissionsAsync: jest.fn(),
+    setAudioModeAsync: jest.fn().mockResolvedValue(undefined),
+    Recording: { createAsync: jest.fn(() => Promise.resolve({ recording: mockRecording })) },
+    AndroidOutputFormat: { THREE_GPP: 1 },
+    AndroidAudioEncoder: { AMR_NB: 1 },
+    IOSOutputFormat: { LINEARPCM: 'lpcm' },
+    IOSAudioQuality: { MAX: 127 },
+  },
+}));
+
+// Android streams PCM to a data listener
+jest.mock('react-native-live-audio-stream', () => ({
+  __esModule: true,
+  default: {
+    init: jest.fn(),
+    start: jest.fn(),
+    stop: jest.fn(() => new Promise(() => {})),
+    on: jest.fn(),
+  },
+}));
+
+const { Audio } = jest.requireMock('expo-av');
+const mockStream = jest.requireMock('react-native-live-audio-stream').default;
+
+const SAMPLE_RATE = 16000;
+
+// Timings of text sent at 20 WPM, with a second of silence either side
+const timingsOf = (text: string): MorseTiming[] => [
+  { type: 'wordGap', duration: 1000 },
+  ...MorseConverterService.morseToTiming(MorseConverterService.textToMorse(text), { characterWpm: 20 }),
+  { type: 'wordGap', duration: 1000 },
+];
+
+// A 600 Hz tone keyed by the timings, as a mono 16-bit WAV file like iOS records
+const buildRecording = (timings: MorseTiming[]): Uint8Array<ArrayBuffer> => {
+  const samples: number[] = [];
+  for (const timing of timings) {
+    const count = Math.round((timing.duration / 1000) * SAMPLE_RATE);
+    for (let i = 0; i < count; i++) {
+      const t = samples.length / SAMPLE_RATE;
+      samples.push(isMarkTiming(timing) ? Math.round(Math.sin(2 * Math.PI * 600 * t) * 12000) : 0);
+    }
+  }
+
+  const bytes = new Uint8Array(new ArrayBuffer(44 + samples.length * 2));
+  const view = new DataView(bytes.buffer);
+  const writeTag = (offset: number, tag: string) =>
+    tag.split('').forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+  writeTag(0, 'RIFF');
+  view.setUint32(4, bytes.length - 8, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  // Still recording, so the size is not filled in yet
+  view.setUint32(40, 0, true);
+  samples.forEach((sample, i) => view.setInt16(44 + i * 2, sample, true));
+  return bytes;
+};
+
+describe('MicrophoneService', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    mockPlatform.OS = 'ios';
+    mockRecordingFile.written = 0;
+    mockRecordingFile.exists = true;
+    Audio.requestPermissionsAsync.mockResolvedValue({ granted: true });
+  });
+
+  afterEach(async () => {
+    await MicrophoneService.stopListening();
+    jest.useRealTimers();
+  });
+
+  it('should decode a PCM recording as it is written', async () => {
+    mockRecordingFile.bytes = buildRecording(timingsOf('SOS'));
+    const states: LiveDecodeState[] = [];
+
+    await MicrophoneService.startListening(600, state => states.push(state), jest.fn());
+    expect(MicrophoneService.isListening()).toBe(true);
+    expect(Audio.setAudioModeAsync).toHaveBeenCalledWith(expect.objectContaining({ allowsRecordingIOS: true }));
+
+    // Written in odd-sized pieces, as a recorder flushes them
+    while (mockRecordingFile.written < mockRecordingFile.bytes.length) {
+      mockRecordingFile.written = Math.min(mockRecordingFile.bytes.length, mockRecordingFile.written + 3201);
+      jest.advanceTimersByTime(100);
+    }
+
+    const final = states[states.length - 1];
+    expect(final.text).toBe('SOS ');
+    expect(Math.abs(final.wpm - 20)).toBeLessThan(1.5);
+    expect(states.some(state => state.isKeyDown)).toBe(true);
+  });
+
+  it('should decode PCM streamed on Android', async () => {
+    mockPlatform.OS = 'android';
+    const pcm = buildRecording(timingsOf('SOS')).subarray(44);
+    const states: LiveDecodeState[] = [];
+
+    await MicrophoneService.startListening(600, state => states.push(state), jest.fn());
+    expect(MicrophoneService.isListening()).toBe(true);
+    expect(mockStream.init).toHaveBeenCalledWith(expect.objectContaining({ sampleRate: SAMPLE_RATE, channels: 1, bitsPerSample: 16 }));
+    expect(mockStream.start).toHaveBeenCalled();
+    expect(Audio.Recording.createAsync).not.toHaveBeenCalled();
+
+    // Delivered base64 encoded, a buffer at a time
+    const onData = mockStream.on.mock.calls[0][1];
+    for (let start = 0; start < pcm.length; start += 2048) {
+      onData(btoa(String.fromCharCode(...Array.from(pcm.subarray(start, start + 2048)))));
+    }
+
+    const final = states[states.length - 1];
+    expect(final.text).toBe('SOS ');
+    expect(Math.abs(final.wpm - 20)).toBeLessThan(1.5);
+  });
+
+  it('should stop the Android stream and ignore buffers still on their way', async () => {
+    mockPlatform.OS = 'android';
+    const onUpdate = jest.fn();
+    await MicrophoneService.startListening(600, onUpdate, jest.fn());
+    const onData = mockStream.on.mock.calls[0][1];
+
+    await MicrophoneService.stopListening();
+    onData(btoa('\0\0\0\0'));
+
+    expect(mockStream.stop).toHaveBeenCalled();
+    expect(onUpdate).not.toHaveBeenCalled();
+    expect(MicrophoneService.isListening()).toBe(false);
+  });
+
+  it('should follow the metering level where PCM is not available', async () => {
+    mockPlatform.OS = 'web';
+    const states: LiveDecodeState[] = [];
+
+    await MicrophoneService.startListening(600, state => states.push(state), jest.fn());
+    expect(mockRecording.setProgressUpdateInterval).toHaveBeenCalledWith(20);
+    const onStatus = mockRecording.setOnRecordingStatusUpdate.mock.calls[0][0];
+
+    // Report the level every 20 ms of recording, with a late update now and then
+    let time = 0;
+    for (const timing of timingsOf('TEST')) {
+      const end = time + timing.duration;
+      for (; time + 20 <= end; time += time % 500 === 0 ? 40 : 20) {
+        onStatus({ isRecording: true, durationMillis: time + 20, metering: isMarkTiming(timing) ? -12 : -60 });
+      }
+    }
+
+    expect(states[states.length - 1].text).toBe('TEST ');
+  });
+
+  it('should not record without permission', async () => {
+    Audio.requestPermissionsAsync.mockResolvedValue({ granted: false });
+
+    await expect(MicrophoneService.startListening(600, jest.fn(), jest.fn())).rejects.toThrow(MICROPHONE_DENIED);
+    expect(Audio.Recording.createAsync).not.toHaveBeenCalled();
+    expect(MicrophoneService.isListening()).toBe(false);
+  });
+
+  it('should release a recording that was stopped while it started', async () => {
+    let created: (value: { recording: typeof mockRecording }) => void = () => {};
+    Audio.Recording.createAsync.mockReturnValueOnce(new Promise(resolve => (created = resolve)));
+
+    const starting = MicrophoneService.startListening(600, jest.fn(), jest.fn());
+    while (Audio.Recording.createAsync.mock.calls.length === 0) {
+      await Promise.resolve();
+    }
+    await MicrophoneService.stopListening();
+    created({ recording: mockRecording });
+    await starting;
+
+    expect(mockRecording.stopAndUnloadAsync).toHaveBeenCalled();
+    expect(mockRecordingFile.delete).toHaveBeenCalled();
+    expect(Audio.setAudioModeAsync).toHaveBeenLastCalledWith({ allowsRecordingIOS: false });
+    expect(MicrophoneService.isListening()).toBe(false);
+  });
+
+  it('should give the audio session back when the recording cannot start', async () => {
+    Audio.Recording.createAsync.mockRejectedValueOnce(new Error('Recorder busy'));
+
+    await expect(MicrophoneService.startListening(600, jest.fn(), jest.fn())).rejects.toThrow('Recorder busy');
+    expect(Audio.setAudioModeAsync).toHaveBeenLastCalledWith({ allowsRecordingIOS: false });
+    expect(MicrophoneService.isListening()).toBe(false);
+  });
+
+  it('should stop recording and delete the file', async () => {
+    mockRecordingFile.bytes = buildRecording(timingsOf('E'));
+    const onUpdate = jest.fn();
+    await MicrophoneService.startListening(600, onUpdate, jest.fn());
+
+    await MicrophoneService.stopListening();
+    mockRecordingFile.written = mockRecordingFile.bytes.length;
+    jest.advanceTimersByTime(500);
+
+    expect(mockRecording.stopAndUnloadAsync).toHaveBeenCalled();
+    expect(mockRecordingFile.delete).toHaveBeenCalled();
+    expect(onUpdate).not.toHaveBeenCalled();
+    expect(MicrophoneService.isListening()).toBe(false);
+  });
+
+  it('should give up on a recording that is not a WAV file', async () => {
+    mockRecordingFile.bytes = new Uint8Array(70000);
+    mockRecordingFile.written = mockRecordingFile.bytes.length;
+    const onError = jest.fn();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await MicrophoneService.startListening(600, jest.fn(), onError);
+    jest.advanceTimersByTime(100);
+
+    expect(onError).toHaveBeenCalledWith(new Error('Could not read the microphone recording'));
+    expect(MicrophoneService.isListening()).toBe(false);
+    (console.error as jest.Mock).mockRestore();
+  });
+});
@@ -0,0 +1,98 @@
+import MidiExportService from '../MidiExportService';
+import MorseConverterService from '../MorseConverterService';
+import { File } from 'expo-file-system/next';
+
+// Mock expo-file-system
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///mock/directory/',
+}));
+
+// Mock the file the MIDI bytes are written to
+const mockFile = {
+  exists: false,
+  create: jest.fn(),
+  delete: jest.fn(),
+  write: jest.fn(),
+};
+jest.mock('expo-file-system/next', () => ({
+  File: jest.fn(() => mockFile),
+}));
+
+// AudioService is only consulted for the sidetone pitch
+jest.mock('expo-av', () => ({ Audio: {} }));
+
+// Track events after the header chunk, tempo and track name
+const noteEvents = (bytes: Uint8Array): number[] => Array.from(bytes.slice(22 + 7 + 14));
+
+describe('MidiExportService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('encodeMidi', () => {
+    it('should write a format 0 header with one track', () => {
+      const bytes = MidiExportService.encodeMidi([{ type: 'dit', duration: 100 }], { timeUnit: 100 });
+      expect(Array.from(bytes.slice(0, 14))).toEqual([
+        0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 0, 0, 1, 0x01, 0xe0,
+      ]);
+      expect(String.fromCharCode(...Array.from(bytes.slice(14, 18)))).toBe('MTrk');
+      const trackLength = (bytes[18] << 24) | (bytes[19] << 16) | (bytes[20] << 8) | bytes[21];
+      expect(trackLength).toBe(bytes.length - 22);
+    });
+
+    it('should play at the sending speed by default', () => {
+      // 100 ms dits make a 400 ms quarter note
+      const bytes = MidiExportService.encodeMidi([{ type: 'dit', duration: 100 }], { timeUnit: 100 });
+      expect(Array.from(bytes.slice(22, 29))).toEqual([0, 0xff, 0x51, 0x03, 0x06, 0x1a, 0x80]);
+    });
+
+    it('should turn marks into notes and gaps into rests', () => {
+      const timings = MorseConverterService.morseToTiming('.- .', 100);
+      const bytes = MidiExportService.encodeMidi(timings, { timeUnit: 100, tempo: 120, note: 72 });
+
+      expect(noteEvents(bytes)).toEqual([
+        0x00, 0x90, 72, 100, 0x78, 0x80, 72, 0,         // dit: a sixteenth (120 ticks)
+        0x78, 0x90, 72, 100, 0x82, 0x68, 0x80, 72, 0,   // rest, then a dah of 360 ticks
+        0x82, 0x68, 0x90, 72, 100, 0x78, 0x80, 72, 0,   // letter gap rest, then a dit
+        0x00, 0xff, 0x2f, 0x00,
+      ]);
+    });
+
+    it('should keep trailing rests before the end of the track', () => {
+      const bytes = MidiExportService.encodeMidi(
+        [{ type: 'dit', duration: 100 }, { type: 'wordGap', duration: 700 }],
+        { timeUnit: 100, note: 60 }
+      );
+      // A 700 ms word gap is 840 ticks
+      expect(noteEvents(bytes).slice(-8)).toEqual([0x80, 60, 0, 0x86, 0x48, 0xff, 0x2f, 0x00]);
+    });
+
+    it('should use the note nearest the sidetone when none is chosen', () => {
+      expect(MidiExportService.frequencyToNote(440)).toBe(69);
+      expect(MidiExportService.frequencyToNote(600)).toBe(74);
+      const bytes = MidiExportService.encodeMidi([{ type: 'dit', duration: 100 }], { timeUnit: 100 });
+      expect(noteEvents(bytes)[2]).toBe(74);
+    });
+
+    it('should reject tempos and notes out of range', () => {
+      const timings = [{ type: 'dit' as const, duration: 100 }];
+      expect(() => MidiExportService.encodeMidi(timings, { timeUnit: 100, tempo: 500 })).toThrow('Tempo must be between 20 and 300 BPM');
+      expect(() => MidiExportService.encodeMidi(timings, { timeUnit: 100, note: 128 })).toThrow('Note must be a MIDI note number');
+    });
+  });
+
+  describe('generateMidiFile', () => {
+    it('should save a .mid file named after the speed', async () => {
+      const timings = MorseConverterService.morseToTiming('-.-', { characterWpm: 20 });
+      const fileUri = await MidiExportService.generateMidiFile(timings, 20, { timeUnit: 60 });
+
+      expect(fileUri).toMatch(/^file:\/\/\/mock\/directory\/morse_20wpm_\d{8}_\d{6}\.mid$/);
+      expect(File).toHaveBeenCalledWith(fileUri);
+      expect(mockFile.write).toHaveBeenCalledWith(expect.any(Uint8Array));
+    });
+
+    it('should throw error for empty timings', async () => {
+      await expect(MidiExportService.generateMidiFile([], 20, { timeUnit: 60 })).rejects.toThrow('No timings provided');
+    });
+  });
+});
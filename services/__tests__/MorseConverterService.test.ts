@@ -1,4 +1,4 @@
-import MorseConverterService from '../MorseConverterService';
+import MorseConverterService, { UNKNOWN_CHARACTER } from '../MorseConverterService';
 
 describe('MorseConverterService', () => {
   describe('textToMorse', () => {
@@ -27,23 +27,142 @@ describe('MorseConverterService', () => {
       expect(result).toBe('.... . .-.. .-.. ---');
     });
 
+    it('should encode prosigns as one unbroken character', () => {
+      expect(MorseConverterService.textToMorse('<SK>')).toBe('...-.-');
+      expect(MorseConverterService.textToMorse('[ar]')).toBe('.-.-.');
+      expect(MorseConverterService.textToMorse('73 <AR> <SK>')).toBe('--... ...-- / .-.-. / ...-.-');
+    });
+
+    it('should run together the letters of unnamed prosigns', () => {
+      expect(MorseConverterService.textToMorse('<HH>')).toBe('........');
+    });
+
+    it('should leave unmatched brackets to the character table', () => {
+      expect(MorseConverterService.textToMorse('<A')).toBe('.-');
+    });
+
     it('should return empty string for empty input', () => {
       expect(MorseConverterService.textToMorse('')).toBe('');
       expect(MorseConverterService.textToMorse('   ')).toBe('');
     });
   });
 
+  describe('morseToText', () => {
+    it('should decode letters separated by spaces', () => {
+      const result = MorseConverterService.morseToText('... --- ...');
+      expect(result.text).toBe('SOS');
+      expect(result.unknownSequences).toEqual([]);
+    });
+
+    it('should accept slashes, pipes and multiple spaces as word separators', () => {
+      expect(MorseConverterService.morseToText('.... .. / - .... . .-. .').text).toBe('HI THERE');
+      expect(MorseConverterService.morseToText('.... .. | - .... . .-. .').text).toBe('HI THERE');
+      expect(MorseConverterService.morseToText('.... ..   - .... . .-. .').text).toBe('HI THERE');
+    });
+
+    it('should round-trip the output of textToMorse', () => {
+      const morse = MorseConverterService.textToMorse('Hello, World 123?');
+      expect(MorseConverterService.morseToText(morse).text).toBe('HELLO, WORLD 123?');
+    });
+
+    it('should report undecodable sequences with their positions', () => {
+      const result = MorseConverterService.morseToText('.- .-.-.-.- -...');
+      expect(result.text).toBe(`A${UNKNOWN_CHARACTER}B`);
+      expect(result.unknownSequences).toEqual([{ sequence: '.-.-.-.-', position: 3 }]);
+    });
+
+    it('should decode prosigns that have no character of their own', () => {
+      expect(MorseConverterService.morseToText('...-.- / ...---...').text).toBe('<SK> <SOS>');
+    });
+
+    it('should decode accented letters and CH', () => {
+      expect(MorseConverterService.morseToText('--.-- ..-.. .-.-').text).toBe('ÑÉÄ');
+      expect(MorseConverterService.morseToText('----').text).toBe('CH');
+    });
+
+    it('should report stray characters as undecodable', () => {
+      const result = MorseConverterService.morseToText('.- x');
+      expect(result.unknownSequences).toEqual([{ sequence: 'x', position: 3 }]);
+    });
+
+    it('should return empty text for empty input', () => {
+      expect(MorseConverterService.morseToText('')).toEqual({ text: '', unknownSequences: [] });
+    });
+
+    it('should not find object property names in the code table', () => {
+      const result = MorseConverterService.morseToText('toString __proto__');
+      expect(result.text).toBe(`${UNKNOWN_CHARACTER}${UNKNOWN_CHARACTER}`);
+      expect(result.unknownSequences).toEqual([
+        { sequence: 'toString', position: 0 },
+        { sequence: '__proto__', position: 9 },
+      ]);
+    });
+  });
+
+  describe('validateMorse', () => {
+    it('should accept look-alike dot and dash symbols', () => {
+      const result = MorseConverterService.validateMorse('·− −···');
+      expect(result.text).toBe('AB');
+      expect(result.unknownSequences).toEqual([]);
+    });
+
+    it('should report invalid sequences at their offsets in the input', () => {
+      const result = MorseConverterService.validateMorse('.- .-.-.-.- x');
+      expect(result.unknownSequences).toEqual([
+        { sequence: '.-.-.-.-', position: 3 },
+        { sequence: 'x', position: 12 },
+      ]);
+    });
+
+    it('should reject object property names', () => {
+      const result = MorseConverterService.validateMorse('.- constructor');
+      expect(result.unknownSequences).toEqual([{ sequence: 'constructor', position: 3 }]);
+    });
+  });
+
+  describe('looksLikeMorse', () => {
+    it('should recognise pasted Morse', () => {
+      expect(MorseConverterService.looksLikeMorse('.... . .-.. .-.. --- / .-- --- .-. .-.. -..')).toBe(true);
+      expect(MorseConverterService.looksLikeMorse('·−· ·−· −·−−')).toBe(true);
+    });
+
+    it('should tolerate a few stray characters', () => {
+      expect(MorseConverterService.looksLikeMorse('-.-. --.- -.-. --.- -.. . / .--. .- ..--- ... ...- ?')).toBe(true);
+    });
+
+    it('should leave ordinary text and punctuation alone', () => {
+      expect(MorseConverterService.looksLikeMorse('Hello - world...')).toBe(false);
+      expect(MorseConverterService.looksLikeMorse('...')).toBe(false);
+      expect(MorseConverterService.looksLikeMorse('-- --')).toBe(false);
+      expect(MorseConverterService.looksLikeMorse('.-')).toBe(false);
+    });
+  });
+
+  describe('normalizeMorse', () => {
+    it('should keep letters exactly as written', () => {
+      expect(MorseConverterService.normalizeMorse('.-.-.-.- ...')).toBe('.-.-.-.- ...');
+    });
+
+    it('should normalize word separators and whitespace', () => {
+      expect(MorseConverterService.normalizeMorse(' .-   -...|-.-.\n-.. //  . ')).toBe('.- / -... / -.-. -.. / .');
+    });
+
+    it('should drop characters that are not Morse', () => {
+      expect(MorseConverterService.normalizeMorse('·− x −')).toBe('.- -');
+    });
+  });
+
   describe('morseToTiming', () => {
     it('should generate timing for a dit', () => {
       const timings = MorseConverterService.morseToTiming('.', 100);
       expect(timings).toHaveLength(1);
-      expect(timings[0]).toEqual({ type: 'dit', duration: 100 });
+      expect(timings[0]).toEqual({ type: 'dit', duration: 100, charIndex: 0 });
     });
 
     it('should generate timing for a dah', () => {
       const timings = MorseConverterService.morseToTiming('-', 100);
       expect(timings).toHaveLength(1);
-      expect(timings[0]).toEqual({ type: 'dah', duration: 300 });
+      expect(timings[0]).toEqual({ type: 'dah', duration: 300, charIndex: 0 });
     });
 
     it('should add symbol gaps between symbols', () => {
@@ -64,11 +183,176 @@ describe('MorseConverterService', () => {
       expect(timings.some(t => t.type === 'wordGap')).toBe(true);
     });
 
+    it('should not add letter gaps inside a prosign', () => {
+      const morse = MorseConverterService.textToMorse('<AR>');
+      const timings = MorseConverterService.morseToTiming(morse, 100);
+      expect(timings.some(t => t.type === 'letterGap')).toBe(false);
+      expect(timings.filter(t => t.type === 'symbolGap')).toHaveLength(4);
+    });
+
+    it('should derive the time unit from character speed', () => {
+      const timings = MorseConverterService.morseToTiming('.-', { characterWpm: 20 });
+      expect(timings.map(t => t.duration)).toEqual([60, 60, 180]);
+    });
+
+    it('should stretch only letter and word gaps for Farnsworth spacing', () => {
+      const timings = MorseConverterService.morseToTiming('. . / .', { characterWpm: 20, effectiveWpm: 10 });
+      expect(timings[0]).toEqual({ type: 'dit', duration: 60, charIndex: 0 });
+      expect(timings[1].type).toBe('letterGap');
+      expect(timings[1].duration).toBeCloseTo((3 * 4140) / 19);
+      expect(timings[3].type).toBe('wordGap');
+      expect(timings[3].duration).toBeCloseTo((7 * 4140) / 19);
+    });
+
+    it('should use the CODEX reference word when selected', () => {
+      const timings = MorseConverterService.morseToTiming('.', { characterWpm: 20, speedStandard: 'CODEX' });
+      expect(timings[0]).toEqual({ type: 'dit', duration: 50, charIndex: 0 });
+    });
+
+    it('should support fractional speeds', () => {
+      const timings = MorseConverterService.morseToTiming('.', { characterWpm: 7.5 });
+      expect(timings[0]).toEqual({ type: 'dit', duration: 160, charIndex: 0 });
+    });
+
+    it('should ignore an effective speed above the character speed', () => {
+      const timings = MorseConverterService.morseToTiming('. .', { characterWpm: 10, effectiveWpm: 20 });
+      expect(timings[1]).toEqual({ type: 'letterGap', duration: 360 });
+    });
+
+    it('should apply dah ratio and gap multipliers', () => {
+      const timings = MorseConverterService.morseToTiming('.- . / .', {
+        timeUnit: 100,
+        dahRatio: 4,
+        symbolGapUnits: 1.5,
+        letterGapUnits: 4,
+        wordGapUnits: 9,
+      });
+      expect(timings.map(t => t.duration)).toEqual([100, 150, 400, 400, 100, 900, 100]);
+    });
+
+    it('should move time from gaps into marks for heavier weighting', () => {
+      const timings = MorseConverterService.morseToTiming('.- /', { timeUnit: 100, weighting: 60 });
+      expect(timings.map(t => t.duration)).toEqual([120, 80, 320, 680]);
+
+      const light = MorseConverterService.morseToTiming('.-', { timeUnit: 100, weighting: 40 });
+      expect(light.map(t => t.duration)).toEqual([80, 120, 280]);
+    });
+
+    it('should keep weighting inside the supported range', () => {
+      const config = MorseConverterService.resolveTimingConfig({ timeUnit: 100, weighting: 95 });
+      expect(config.weighting).toBe(75);
+      expect(config.ditDuration).toBe(150);
+      expect(config.symbolGap).toBe(50);
+    });
+
+    it('should scale Farnsworth gaps by the gap multipliers', () => {
+      const config = MorseConverterService.resolveTimingConfig({
+        characterWpm: 20,
+        effectiveWpm: 10,
+        letterGapUnits: 4,
+        wordGapUnits: 8,
+      });
+      expect(config.letterGap).toBeCloseTo((4 * 4140) / 19);
+      expect(config.wordGap).toBeCloseTo((8 * 4140) / 19);
+    });
+
     it('should return empty array for empty input', () => {
       expect(MorseConverterService.morseToTiming('')).toEqual([]);
     });
   });
 
+  describe('encode', () => {
+    afterEach(() => {
+      MorseConverterService.setAlphabet('latin');
+    });
+
+    it('should produce the same Morse as textToMorse', () => {
+      const text = 'Hi <AR> 73';
+      expect(MorseConverterService.encode(text).morse).toBe(MorseConverterService.textToMorse(text));
+    });
+
+    it('should record source offsets and Morse spans per character', () => {
+      const { morse, characters } = MorseConverterService.encode('AB <SK>');
+      expect(morse).toBe('.- -... / ...-.-');
+      expect(characters.map(c => [c.source, c.sourceIndex, c.morseStart, c.morseEnd])).toEqual([
+        ['A', 0, 0, 2],
+        ['B', 1, 3, 7],
+        ['<SK>', 3, 10, 16],
+      ]);
+    });
+
+    it('should record the timing range of each character', () => {
+      const { timings, characters } = MorseConverterService.encode('E T', 100);
+      expect(timings).toEqual([
+        { type: 'dit', duration: 100, charIndex: 0 },
+        { type: 'wordGap', duration: 700 },
+        { type: 'dah', duration: 300, charIndex: 2 },
+      ]);
+      expect(characters.map(c => [c.timingStart, c.timingEnd])).toEqual([[0, 1], [2, 3]]);
+    });
+
+    it('should cover every letter sent for a transliterated character', () => {
+      const { timings, characters } = MorseConverterService.encode('ßE');
+      expect(characters[0]).toMatchObject({ source: 'ß', fallback: 'transliterated', timingStart: 0, timingEnd: 11 });
+      expect(timings.slice(0, 11).every(t => t.charIndex === 0)).toBe(true);
+      expect(timings[11]).toEqual({ type: 'letterGap', duration: 360 });
+      expect(timings[12].charIndex).toBe(1);
+    });
+
+    it('should give dropped characters an empty span', () => {
+      const { characters } = MorseConverterService.encode('A#B');
+      expect(characters[1]).toMatchObject({ source: '#', fallback: 'dropped', morseStart: 2, morseEnd: 2 });
+      expect(characters[1].timingStart).toBe(characters[1].timingEnd);
+    });
+
+    it('should leave Wabun mode signals without a character', () => {
+      MorseConverterService.setAlphabet('wabun');
+      const { morse, timings, characters } = MorseConverterService.encode('イ');
+      expect(morse).toBe('-..--- .-');
+      expect(characters).toHaveLength(1);
+      expect(characters[0].morseStart).toBe(7);
+      expect(timings[characters[0].timingStart].type).toBe('dit');
+      expect(timings.slice(0, characters[0].timingStart).every(t => t.charIndex === undefined)).toBe(true);
+    });
+  });
+
+  describe('custom code tables', () => {
+    afterEach(() => {
+      MorseConverterService.setCustomCodeTable(null);
+    });
+
+    it('should encode and decode custom characters and signs', () => {
+      MorseConverterService.setCustomCodeTable({ name: 'Scouts', codes: { '#': '..--.-.', '<ZZ>': '--..--..' } });
+      expect(MorseConverterService.textToMorse('#1 <ZZ>')).toBe('..--.-. .---- / --..--..');
+      expect(MorseConverterService.morseToText('..--.-. / --..--..').text).toBe('# <ZZ>');
+    });
+
+    it('should treat a custom < key as a character, not a sign', () => {
+      MorseConverterService.setCustomCodeTable({ name: 'Brackets', codes: { '<': '-.--.-.' } });
+      expect(MorseConverterService.textToMorse('<')).toBe('-.--.-.');
+      expect(MorseConverterService.getSupportedProsigns()).not.toContain('<');
+    });
+
+    it('should let custom codes override standard ones', () => {
+      MorseConverterService.setCustomCodeTable({ name: 'Game', codes: { 'A': '.-.-.-.-' } });
+      expect(MorseConverterService.textToMorse('A')).toBe('.-.-.-.-');
+      expect(MorseConverterService.morseToText('.-.-.-.- .-').text).toBe(`A${UNKNOWN_CHARACTER}`);
+    });
+
+    it('should restore the standard table when cleared', () => {
+      MorseConverterService.setCustomCodeTable({ name: 'Game', codes: { 'A': '.-.-.-.-' } });
+      MorseConverterService.setCustomCodeTable(null);
+      expect(MorseConverterService.textToMorse('A')).toBe('.-');
+    });
+
+    it('should find codes that clash with other characters', () => {
+      expect(MorseConverterService.findAmbiguousCodes({ '#': '...-.-' })).toEqual([
+        { code: '...-.-', characters: ['#', '<SK>'] },
+      ]);
+      expect(MorseConverterService.findAmbiguousCodes({ 'A': '--', 'M': '.-' })).toEqual([]);
+    });
+  });
+
   describe('validateText', () => {
     it('should validate supported characters', () => {
       const result = MorseConverterService.validateText('HELLO 123');
@@ -81,6 +365,181 @@ describe('MorseConverterService', () => {
       expect(result.isValid).toBe(false);
       expect(result.unsupportedChars).toContain('#');
     });
+
+    it('should accept prosign brackets', () => {
+      const result = MorseConverterService.validateText('QRU? <AR> [SK]');
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should report the fallback applied to each unsupported character', () => {
+      const result = MorseConverterService.validateText('Straße Łódź Győr #');
+      expect(result.unsupportedChars).toEqual(['ß', 'ő', '#']);
+      expect(result.fallbacks).toEqual([
+        { char: 'ß', policy: 'transliterated', replacement: 'SS' },
+        { char: 'ő', policy: 'transliterated', replacement: 'O' },
+        { char: '#', policy: 'dropped', replacement: '' },
+      ]);
+    });
+  });
+
+  describe('extended Latin', () => {
+    afterEach(() => {
+      MorseConverterService.setFallbackPolicy('transliterate');
+      MorseConverterService.setChDigraph(false);
+    });
+
+    it('should encode accented letters with their own codes', () => {
+      expect(MorseConverterService.textToMorse('é')).toBe('..-..');
+      expect(MorseConverterService.textToMorse('Müller')).toBe('-- ..-- .-.. .-.. . .-.');
+      expect(MorseConverterService.textToMorse('Ñ Ç')).toBe('--.-- / -.-..');
+    });
+
+    it('should transliterate letters without a code by default', () => {
+      expect(MorseConverterService.textToMorse('ß')).toBe('... ...');
+      expect(MorseConverterService.textToMorse('Œuvre')).toBe('--- . ..- ...- .-. .');
+      expect(MorseConverterService.textToMorse('ő')).toBe('---');
+    });
+
+    it('should send the error prosign when configured', () => {
+      MorseConverterService.setFallbackPolicy('error');
+      expect(MorseConverterService.textToMorse('Aß')).toBe('.- ........');
+      expect(MorseConverterService.validateText('ß').fallbacks).toEqual([
+        { char: 'ß', policy: 'error', replacement: '<HH>' },
+      ]);
+    });
+
+    it('should drop letters without a code when configured', () => {
+      MorseConverterService.setFallbackPolicy('drop');
+      expect(MorseConverterService.textToMorse('Aßb')).toBe('.- -...');
+    });
+
+    it('should never send whitespace as an error', () => {
+      MorseConverterService.setFallbackPolicy('error');
+      expect(MorseConverterService.textToMorse('A\nB')).toBe('.- -...');
+    });
+
+    it('should send CH as one letter only when enabled', () => {
+      expect(MorseConverterService.textToMorse('Ach')).toBe('.- -.-. ....');
+      MorseConverterService.setChDigraph(true);
+      expect(MorseConverterService.textToMorse('Ach')).toBe('.- ----');
+    });
+  });
+
+  describe('alphabets', () => {
+    afterEach(() => {
+      MorseConverterService.setAlphabet('latin');
+    });
+
+    it('should encode Russian Cyrillic', () => {
+      MorseConverterService.setAlphabet('cyrillic');
+      expect(MorseConverterService.textToMorse('Привет')).toBe('.--. .-. .. .-- . -');
+    });
+
+    it('should fold Greek accents and final sigma', () => {
+      MorseConverterService.setAlphabet('greek');
+      expect(MorseConverterService.textToMorse('ός')).toBe('--- ...');
+    });
+
+    it('should fold Hebrew final forms', () => {
+      MorseConverterService.setAlphabet('hebrew');
+      expect(MorseConverterService.textToMorse('שלום')).toBe('... .-.. . --');
+    });
+
+    it('should encode Arabic', () => {
+      MorseConverterService.setAlphabet('arabic');
+      expect(MorseConverterService.textToMorse('سلام')).toBe('... .-.. .- --');
+    });
+
+    it('should decompose Hangul syllables into SKATS jamo', () => {
+      MorseConverterService.setAlphabet('skats');
+      expect(MorseConverterService.textToMorse('한')).toBe('.--- . ..-.');
+      expect(MorseConverterService.textToMorse('꽈')).toBe('.-.. .-.. .- .');
+    });
+
+    it('should bracket Wabun kana with DO and SN', () => {
+      MorseConverterService.setAlphabet('wabun');
+      expect(MorseConverterService.textToMorse('イロハ')).toBe('-..--- .- .-.- -...');
+      expect(MorseConverterService.textToMorse('いろ A')).toBe('-..--- .- .-.- / ...-. .-');
+    });
+
+    it('should send Wabun voicing marks after the base kana', () => {
+      MorseConverterService.setAlphabet('wabun');
+      expect(MorseConverterService.textToMorse('ガ')).toBe('-..--- .-.. ..');
+    });
+
+    it('should decode Wabun after the DO signal', () => {
+      MorseConverterService.setAlphabet('wabun');
+      const morse = MorseConverterService.textToMorse('CQ イロハ');
+      expect(MorseConverterService.morseToText(morse).text).toBe('CQ イロハ');
+    });
+
+    it('should keep Latin letters, digits and punctuation available', () => {
+      MorseConverterService.setAlphabet('cyrillic');
+      expect(MorseConverterService.textToMorse('R1')).toBe('.-. .----');
+    });
+
+    it('should validate against the selected alphabet', () => {
+      expect(MorseConverterService.validateText('Да').isValid).toBe(false);
+      MorseConverterService.setAlphabet('cyrillic');
+      expect(MorseConverterService.validateText('Да').isValid).toBe(true);
+    });
+
+    it('should list the selected alphabet in supported characters', () => {
+      MorseConverterService.setAlphabet('greek');
+      const chars = MorseConverterService.getSupportedCharacters();
+      expect(chars).toContain('Ω');
+      expect(chars).toContain('A');
+    });
+
+    it('should reject unknown alphabets', () => {
+      expect(() => MorseConverterService.setAlphabet('klingon' as any)).toThrow('Unknown alphabet');
+    });
+  });
+
+  describe('American Morse', () => {
+    beforeEach(() => {
+      MorseConverterService.setCodeStandard('american');
+    });
+
+    afterEach(() => {
+      MorseConverterService.setCodeStandard('international');
+    });
+
+    it('should encode letters with internal spaces', () => {
+      expect(MorseConverterService.textToMorse('CO')).toBe('..\u2009. .\u2009.');
+    });
+
+    it('should encode L and zero as long dashes', () => {
+      expect(MorseConverterService.textToMorse('L0')).toBe('\u2E3A \u2E3B');
+    });
+
+    it('should time internal spaces and long dashes', () => {
+      const timings = MorseConverterService.morseToTiming(MorseConverterService.textToMorse('C'), 100);
+      expect(timings.map(t => t.type)).toEqual(['dit', 'symbolGap', 'dit', 'intraCharSpace', 'dit']);
+      expect(timings[3].duration).toBe(200);
+
+      const longDashes = MorseConverterService.morseToTiming(MorseConverterService.textToMorse('L0'), 100);
+      expect(longDashes).toEqual([
+        { type: 'longDah', duration: 400, charIndex: 0 },
+        { type: 'letterGap', duration: 300 },
+        { type: 'extraLongDah', duration: 500, charIndex: 2 },
+      ]);
+    });
+
+    it('should use two-unit dashes', () => {
+      expect(MorseConverterService.morseToTiming('-', 100)).toEqual([{ type: 'dah', duration: 200, charIndex: 0 }]);
+    });
+
+    it('should decode letters with internal spaces', () => {
+      const morse = MorseConverterService.textToMorse('ROYAL');
+      expect(MorseConverterService.morseToText(morse).text).toBe('ROYAL');
+    });
+
+    it('should ignore the selected alphabet', () => {
+      MorseConverterService.setAlphabet('cyrillic');
+      expect(MorseConverterService.validateText('Да').isValid).toBe(false);
+      MorseConverterService.setAlphabet('latin');
+    });
   });
 
   describe('getSupportedCharacters', () => {
@@ -92,4 +551,12 @@ describe('MorseConverterService', () => {
       expect(chars).toContain('.');
     });
   });
+
+  describe('getSupportedProsigns', () => {
+    it('should list prosigns in bracket form', () => {
+      const prosigns = MorseConverterService.getSupportedProsigns();
+      expect(prosigns).toContain('<AR>');
+      expect(prosigns).toContain('<SK>');
+    });
+  });
 });
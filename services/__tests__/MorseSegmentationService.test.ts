@@ -0,0 +1,64 @@
+import MorseSegmentationService, { MAX_SEGMENT_SYMBOLS } from '../MorseSegmentationService';
+import MorseConverterService from '../MorseConverterService';
+
+const runTogether = (text: string) => MorseConverterService.textToMorse(text).replace(/ /g, '');
+
+describe('MorseSegmentationService', () => {
+  it('should read a distress call sent without gaps', () => {
+    const texts = MorseSegmentationService.segment('...---...').map(c => c.text);
+    expect(texts.slice(0, 2)).toEqual(expect.arrayContaining(['SOS', '<SOS>']));
+  });
+
+  it('should recover words when every gap was lost', () => {
+    const [best] = MorseSegmentationService.segment(runTogether('CQ DE'));
+    expect(best.text).toBe('CQ DE');
+  });
+
+  it('should rank common English words', () => {
+    const [best] = MorseSegmentationService.segment(runTogether('THE'));
+    expect(best.text).toBe('THE');
+  });
+
+  it('should keep gaps that were received', () => {
+    const candidates = MorseSegmentationService.segment('.... . .-.. .-.. --- / .-- --- .-. .-.. -..');
+    expect(candidates[0].text).toBe('HELLO WORLD');
+    expect(candidates.every(c => c.text.includes(' '))).toBe(true);
+  });
+
+  it('should fill in missing letter gaps in partly spaced copy', () => {
+    // Letter gaps kept only between the words, word gaps lost
+    const [best] = MorseSegmentationService.segment(['PSE', 'QRS', 'TNX'].map(runTogether).join(' '));
+    expect(best.text).toBe('PSE QRS TNX');
+  });
+
+  it('should return scores that add up to one, best first', () => {
+    const candidates = MorseSegmentationService.segment('-.-.--.-', 3);
+    expect(candidates).toHaveLength(3);
+    expect(candidates.reduce((sum, c) => sum + c.score, 0)).toBeCloseTo(1);
+    expect(candidates[0].score).toBeGreaterThanOrEqual(candidates[1].score);
+  });
+
+  it('should return nothing for empty input', () => {
+    expect(MorseSegmentationService.segment('  ')).toEqual([]);
+  });
+
+  it('should return nothing for input too long to search', () => {
+    expect(MorseSegmentationService.segment('.'.repeat(MAX_SEGMENT_SYMBOLS + 1))).toEqual([]);
+    expect(MorseSegmentationService.segment('.'.repeat(MAX_SEGMENT_SYMBOLS))).not.toEqual([]);
+  });
+
+  it('should build the lexicon again only when the code table changes', () => {
+    MorseSegmentationService.segment('...---...');
+    const getDecodingTable = jest.spyOn(MorseConverterService, 'getDecodingTable');
+
+    MorseSegmentationService.segment('-.-.--.-');
+    expect(getDecodingTable).not.toHaveBeenCalled();
+
+    MorseConverterService.setCustomCodeTable({ name: 'Scouts', codes: { '#': '..--.-.' } });
+    expect(MorseSegmentationService.segment('..--.-.').map(c => c.text)).toContain('#');
+    expect(getDecodingTable).toHaveBeenCalledTimes(1);
+
+    MorseConverterService.setCustomCodeTable(null);
+    getDecodingTable.mockRestore();
+  });
+});
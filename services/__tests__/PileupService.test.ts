@@ -0,0 +1,149 @@
+import PileupService, { MAX_STATIONS } from '../PileupService';
+import { PileupStation } from '../../types/morse';
+
+// Mock expo-file-system
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///mock/directory/',
+}));
+
+// Mock the file handle export streams into
+const mockHandle = {
+  writeBytes: jest.fn(),
+  close: jest.fn(),
+};
+const mockFile = {
+  exists: false,
+  create: jest.fn(() => {
+    mockFile.exists = true;
+  }),
+  delete: jest.fn(() => {
+    mockFile.exists = false;
+  }),
+  open: jest.fn(() => mockHandle),
+};
+jest.mock('expo-file-system/next', () => ({
+  File: jest.fn(() => mockFile),
+}));
+
+// Mock expo-av
+jest.mock('expo-av', () => ({
+  Audio: {
+    setAudioModeAsync: jest.fn().mockResolvedValue(undefined),
+    Sound: { createAsync: jest.fn() },
+  },
+}));
+
+// Join every block written to the file
+const writtenBytes = (): Uint8Array => {
+  const blocks: Uint8Array[] = mockHandle.writeBytes.mock.calls.map(call => call[0]);
+  const bytes = new Uint8Array(blocks.reduce((sum, block) => sum + block.length, 0));
+  let offset = 0;
+  for (const block of blocks) {
+    bytes.set(block, offset);
+    offset += block.length;
+  }
+  return bytes;
+};
+
+// Split the interleaved samples after the header into left and right
+const writtenChannels = (): { left: number[]; right: number[] } => {
+  const samples = new Int16Array(writtenBytes().buffer.slice(44));
+  return {
+    left: Array.from(samples.filter((_, i) => i % 2 === 0)),
+    right: Array.from(samples.filter((_, i) => i % 2 === 1)),
+  };
+};
+
+const peak = (samples: number[]): number => samples.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+
+const station = (changes: Partial<PileupStation> = {}): PileupStation => ({
+  text: 'E',
+  wpm: 20,
+  frequency: 600,
+  startTime: 0,
+  level: 1,
+  pan: 0,
+  ...changes,
+});
+
+describe('PileupService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFile.exists = false;
+  });
+
+  describe('generatePileupFile', () => {
+    it('should write a stereo WAV file', async () => {
+      const fileUri = await PileupService.generatePileupFile([station(), station({ text: 'T', pan: 0.5 })]);
+
+      expect(fileUri).toMatch(/^file:\/\/\/mock\/directory\/pileup_2stations_\d{8}_\d{6}\.wav$/);
+      const view = new DataView(writtenBytes().buffer);
+      expect(view.getUint16(22, true)).toBe(2);           // Channels
+      expect(view.getUint32(28, true)).toBe(44100 * 4);   // Byte rate
+      expect(view.getUint16(32, true)).toBe(4);           // Block align
+
+      // T at 20 WPM is one 180 ms dah, the longer of the two
+      expect(view.getUint32(40, true)).toBe(Math.floor(0.18 * 44100) * 4);
+      expect(mockHandle.close).toHaveBeenCalled();
+    });
+
+    it('should place each station in the stereo field', async () => {
+      await PileupService.generatePileupFile([station({ pan: -1 })]);
+      const { left, right } = writtenChannels();
+
+      expect(peak(left)).toBeGreaterThan(9000);
+      expect(peak(right)).toBeLessThan(2);
+    });
+
+    it('should delay stations by their start time', async () => {
+      await PileupService.generatePileupFile([station(), station({ startTime: 500, pan: 1 })]);
+      const { left, right } = writtenChannels();
+
+      // The first station is a 60 ms dit in the middle; the second starts 500 ms in, on the right
+      expect(left).toHaveLength(Math.round(0.5 * 44100) + Math.floor(0.06 * 44100));
+      expect(peak(right.slice(3000, 22000))).toBe(0);
+      expect(peak(right.slice(22100))).toBeGreaterThan(0);
+    });
+
+    it('should keep stations keyed at once from clipping', async () => {
+      const crowd = Array.from({ length: 6 }, (_, i) => station({ text: 'T', frequency: 500 + i * 50 }));
+      await PileupService.generatePileupFile(crowd);
+      const { left } = writtenChannels();
+
+      expect(peak(left)).toBeLessThan(32767);
+      expect(peak(left)).toBeGreaterThan(0);
+    });
+
+    it('should report which station is invalid', async () => {
+      await expect(PileupService.generatePileupFile([station(), station({ pan: 2 })]))
+        .rejects.toThrow('Station 2: Pan must be between -1 (left) and 1 (right)');
+      await expect(PileupService.generatePileupFile([station({ text: '   ' })]))
+        .rejects.toThrow('Station 1: Station has nothing to send');
+      await expect(PileupService.generatePileupFile([])).rejects.toThrow('Pileup has no stations');
+      expect(mockFile.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createStations', () => {
+    const callsigns = ['DL1ABC', 'G4XYZ', 'JA1QRP', 'K1ZZ'];
+
+    it('should give the same stations for the same seed', () => {
+      const stations = PileupService.createStations(callsigns, { seed: 5, wpm: 25, frequency: 600 });
+      expect(PileupService.createStations(callsigns, { seed: 5, wpm: 25, frequency: 600 })).toEqual(stations);
+      expect(PileupService.createStations(callsigns, { seed: 6, wpm: 25, frequency: 600 })).not.toEqual(stations);
+      expect(stations.map(s => s.text)).toEqual(callsigns);
+    });
+
+    it('should only create stations that can be mixed', () => {
+      const stations = PileupService.createStations(callsigns, { seed: 9, wpm: 60, frequency: 1200 });
+      for (const created of stations) {
+        expect(PileupService.validateStation(created)).toEqual([]);
+      }
+    });
+
+    it('should stop at the largest pileup', () => {
+      const many = Array.from({ length: MAX_STATIONS + 3 }, (_, i) => `K${i}AA`);
+      expect(PileupService.createStations(many, { seed: 1, wpm: 20, frequency: 600 })).toHaveLength(MAX_STATIONS);
+    });
+  });
+});
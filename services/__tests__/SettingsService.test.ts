@@ -0,0 +1,100 @@
+import SettingsService from '../SettingsService';
+import * as FileSystem from 'expo-file-system';
+
+// Mock expo-file-system
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///mock/directory/',
+  writeAsStringAsync: jest.fn().mockResolvedValue(undefined),
+  readAsStringAsync: jest.fn(),
+  getInfoAsync: jest.fn().mockResolvedValue({ exists: true }),
+}));
+
+describe('SettingsService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should use defaults when nothing was saved', async () => {
+    (FileSystem.getInfoAsync as jest.Mock).mockResolvedValueOnce({ exists: false });
+
+    expect(await SettingsService.loadSettings()).toEqual({
+      tone: { frequency: 600, volume: 0.5, waveform: 'sine' },
+      envelope: { shape: 'raisedCosine', rampTime: 5 },
+      channel: null,
+      codeTable: null,
+    });
+  });
+
+  it('should restore saved settings and skip values out of range', async () => {
+    (FileSystem.readAsStringAsync as jest.Mock).mockResolvedValueOnce(JSON.stringify({
+      version: 1,
+      tone: { frequency: 400, volume: 7, waveform: 'square' },
+      envelope: { shape: 'blackman', rampTime: 'slow' },
+    }));
+
+    expect(await SettingsService.loadSettings()).toEqual({
+      tone: { frequency: 400, volume: 0.5, waveform: 'square' },
+      envelope: { shape: 'blackman', rampTime: 5 },
+      channel: null,
+      codeTable: null,
+    });
+  });
+
+  it('should restore band conditions and turn off unusable ones', async () => {
+    (FileSystem.readAsStringAsync as jest.Mock).mockResolvedValueOnce(JSON.stringify({
+      version: 1,
+      channel: { seed: 42, noise: 'pink', snr: 3, crashRate: 1 },
+    }));
+    expect((await SettingsService.loadSettings()).channel).toEqual({
+      seed: 42,
+      noise: 'pink',
+      snr: 3,
+      fadingDepth: 0,
+      fadingRate: 0.2,
+      crashRate: 1,
+      interferers: 0,
+      interferenceLevel: -6,
+    });
+
+    (FileSystem.readAsStringAsync as jest.Mock).mockResolvedValueOnce(JSON.stringify({
+      version: 1,
+      channel: { seed: 42, snr: 90 },
+    }));
+    expect((await SettingsService.loadSettings()).channel).toBeNull();
+  });
+
+  it('should fall back to defaults for a broken file', async () => {
+    (FileSystem.readAsStringAsync as jest.Mock).mockResolvedValueOnce('{');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const settings = await SettingsService.loadSettings();
+    expect(settings.tone.frequency).toBe(600);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it('should save changes together with the other settings', async () => {
+    (FileSystem.getInfoAsync as jest.Mock).mockResolvedValueOnce({ exists: false });
+    await SettingsService.loadSettings();
+
+    await SettingsService.saveSettings({ tone: { frequency: 450, volume: 0.8, waveform: 'triangle' } });
+
+    const [uri, json] = (FileSystem.writeAsStringAsync as jest.Mock).mock.calls[0];
+    expect(uri).toBe('file:///mock/directory/settings.json');
+    expect(JSON.parse(json)).toEqual({
+      version: 1,
+      tone: { frequency: 450, volume: 0.8, waveform: 'triangle' },
+      envelope: { shape: 'raisedCosine', rampTime: 5 },
+      channel: null,
+      codeTable: null,
+    });
+  });
+
+  it('should restore the active code table by name', async () => {
+    (FileSystem.readAsStringAsync as jest.Mock).mockResolvedValueOnce(JSON.stringify({ version: 1, codeTable: 'Scout signs' }));
+    expect((await SettingsService.loadSettings()).codeTable).toBe('Scout signs');
+
+    (FileSystem.readAsStringAsync as jest.Mock).mockResolvedValueOnce(JSON.stringify({ version: 1, codeTable: 42 }));
+    expect((await SettingsService.loadSettings()).codeTable).toBeNull();
+  });
+});
@@ -1,14 +1,232 @@
 export interface MorseTiming {
-  type: 'dit' | 'dah' | 'symbolGap' | 'letterGap' | 'wordGap';
+  type:
+    | 'dit'
+    | 'dah'
+    | 'longDah'            // American Morse L
+    | 'extraLongDah'       // American Morse zero
+    | 'symbolGap'
+    | 'intraCharSpace'     // American Morse space inside C, O, R, Y, Z and &
+    | 'letterGap'
+    | 'wordGap';
   duration: number;
+  charIndex?: number;      // Offset of the character that produced the entry: in the source text for
+                           // encode(), in the Morse string for morseToTiming(); absent on gaps between characters
 }
 
 export interface TimingConfig {
   timeUnit: number;        // Base unit in milliseconds (default: 120)
   ditDuration: number;     // 1 time unit
-  dahDuration: number;     // 3 time units
-  symbolGap: number;       // 1 time unit
-  letterGap: number;       // 3 time units
-  wordGap: number;         // 7 time units
-  frequency: number;       // Audio frequency in Hz (default: 600)
+  dahDuration: number;     // dahRatio time units
+  longDahDuration: number; // 4 time units (American Morse only)
+  extraLongDahDuration: number; // 5 time units (American Morse only)
+  symbolGap: number;       // symbolGapUnits time units
+  intraCharSpace: number;  // 2 time units (American Morse only)
+  letterGap: number;       // letterGapUnits time units
+  wordGap: number;         // wordGapUnits time units
+  characterWpm: number;    // Speed of the characters themselves
+  effectiveWpm: number;    // Overall speed; below characterWpm the letter and word gaps are stretched (Farnsworth)
+  speedStandard: SpeedStandard; // Reference word that defines one "word" per minute
+  weighting: number;       // Percent of a dit plus its following gap that is keyed (default: 50); above 50 every mark grows and every gap shrinks by the same amount
+  dahRatio: number;        // Dah length in dits (default: 3, 2 in American Morse)
+  symbolGapUnits: number;  // Gap between marks of a letter in time units (default: 1)
+  letterGapUnits: number;  // Gap between letters in time units (default: 3)
+  wordGapUnits: number;    // Gap between words in time units (default: 7)
+}
+
+// Keying shape shared by audio, flashlight and WAV export; missing values use the standard
+export type KeyingOptions = Partial<
+  Pick<TimingConfig, 'weighting' | 'dahRatio' | 'symbolGapUnits' | 'letterGapUnits' | 'wordGapUnits'>
+>;
+
+export type SpeedStandard = 'PARIS' | 'CODEX';
+
+export type MorseCodeStandard = 'international' | 'american';
+
+export interface UndecodedSequence {
+  sequence: string;        // Dot/dash group that has no entry in the code table
+  position: number;        // Character offset of the group in the Morse input
+}
+
+export interface MorseDecodeResult {
+  text: string;                          // Decoded text, unknown groups shown as UNKNOWN_CHARACTER
+  unknownSequences: UndecodedSequence[]; // Groups that could not be decoded, in input order
+}
+
+// How characters without a code are sent: spelled with similar letters, as the error prosign, or not at all
+export type FallbackPolicy = 'transliterate' | 'error' | 'drop';
+
+export interface CharacterFallback {
+  char: string;                          // Input character that has no code of its own
+  policy: 'transliterated' | 'error' | 'dropped'; // What was sent in its place
+  replacement: string;                   // Text sent instead, e.g. "E" for "é" or "<HH>"; empty when dropped
+}
+
+export interface EncodedCharacter {
+  source: string;          // Input text of the character, e.g. "é" or "<AR>"
+  sourceIndex: number;     // Offset of the character in the input text
+  morseStart: number;      // Offset of its first symbol in the Morse string
+  morseEnd: number;        // Offset just past its last symbol (equal to morseStart when nothing was sent)
+  timingStart: number;     // Index of its first timing entry
+  timingEnd: number;       // Index just past its last timing entry
+  fallback?: CharacterFallback['policy']; // Set when the character has no code of its own
+}
+
+export interface EncodeResult {
+  morse: string;                         // Same output as textToMorse
+  timings: MorseTiming[];                // Same entries as morseToTiming, with charIndex set to source offsets
+  characters: EncodedCharacter[];        // One entry per input character or prosign, spaces excluded
+}
+
+export interface TextValidationResult {
+  isValid: boolean;                      // True when every character has a code of its own
+  unsupportedChars: string[];            // Characters without a code, in input order
+  fallbacks: CharacterFallback[];        // Fallback applied to each unsupported character
+}
+
+export interface SegmentationCandidate {
+  text: string;                          // Guessed text, words separated by spaces
+  score: number;                         // Relative likelihood; scores of one result list add up to 1
+}
+
+export interface AbbreviationMatch {
+  abbreviation: string;                  // Abbreviation or Q-code as written, upper-cased
+  meaning: string;                       // Plain-English meaning
+  index: number;                         // Offset of the abbreviation in the text
+}
+
+export interface AbbreviationReplacement {
+  original: string;                      // Word or phrase that was replaced, as written
+  abbreviation: string;                  // Abbreviation sent instead
+  index: number;                         // Offset of the original in the input text
+}
+
+export interface CompressionResult {
+  text: string;                          // Text with abbreviations substituted
+  replacements: AbbreviationReplacement[];
+  originalDuration: number;              // Sending time of the input in milliseconds
+  compressedDuration: number;            // Sending time of the compressed text in milliseconds
+  timeSaved: number;                     // originalDuration - compressedDuration
+}
+
+export interface CustomCodeTable {
+  name: string;                          // Name shown in the code table selector
+  codes: Record<string, string>;         // Character or <NAME> sign to dot/dash sequence, layered over the standard table
+}
+
+export interface CodeTableFile extends CustomCodeTable {
+  format: string;                        // Identifies the file as a code table
+  version: number;                       // File format version
+}
+
+export interface CodeConflict {
+  code: string;                          // Dot/dash sequence used more than once
+  characters: string[];                  // Characters and signs that share it
+}
+
+// Ways to write encoded Morse for display and copying
+export type MorseNotation = 'standard' | 'spoken' | 'unicode' | 'binary' | 'units';
+
+export type MorseAlphabetId = 'latin' | 'cyrillic' | 'greek' | 'hebrew' | 'arabic' | 'wabun' | 'skats';
+
+export interface MorseAlphabet {
+  id: MorseAlphabetId;
+  name: string;                          // Name shown in the alphabet selector
+  letters: Record<string, string>;       // Letter codes, layered over the Latin digits and punctuation
+  normalize?: (char: string) => string;  // Rewrites an upper-cased input character into table keys
+}
+
+export type EnvelopeShape = 'raisedCosine' | 'blackman';
+
+export interface ToneEnvelope {
+  shape: EnvelopeShape;   // Curve used for the rise and fall of each element
+  rampTime: number;       // Rise and fall time in milliseconds
+}
+
+export type ToneWaveform = 'sine' | 'square' | 'triangle' | 'buzzer';
+
+export interface ToneSettings {
+  frequency: number;      // Sidetone pitch in Hz (default: 600)
+  volume: number;         // Level from 0 to 1 (default: 0.5)
+  waveform: ToneWaveform;
+}
+
+export type NoiseColor = 'white' | 'pink';
+
+// Simulated band conditions laid over the clean tone
+export interface ChannelSettings {
+  seed: number;               // Seed for every random effect; the same seed gives the same audio
+  noise: NoiseColor | null;   // Background noise, or null for none
+  snr: number;                // Tone level over the noise in dB
+  fadingDepth: number;        // QSB: how deep the signal fades, from 0 (off) to 1 (fades out completely)
+  fadingRate: number;         // QSB: fades per second
+  crashRate: number;          // QRN: static crashes per second, 0 for none
+  interferers: number;        // QRM: carriers at nearby pitches, 0 for none
+  interferenceLevel: number;  // QRM: carrier level relative to the tone in dB
+}
+
+// Preferences saved between sessions
+export interface AppSettings {
+  tone: ToneSettings;
+  envelope: ToneEnvelope;
+  channel: ChannelSettings | null;  // null when band conditions are off
+  codeTable: string | null;         // Name of the active custom code table, null for the standard table
+}
+
+export interface AudioExportOptions {
+  onProgress?: (progress: number) => void;  // Fraction of the file written, from 0 to 1
+  signal?: AbortSignal;                     // Cancels the export and removes the partial file
+}
+
+export interface MidiExportOptions {
+  timeUnit: number;       // Length of a dit in milliseconds; one dit is written as a sixteenth note
+  tempo?: number;         // Quarter notes per minute (default: the tempo that plays at the sending speed)
+  note?: number;          // MIDI note number (default: nearest note to the sidetone)
+}
+
+// One transmission in a mix of several, placed in time and in the stereo field
+export interface MixTrack {
+  timings: MorseTiming[];
+  frequency: number;      // Pitch in Hz
+  startTime: number;      // Delay from the start of the file in milliseconds
+  level: number;          // Loudness from 0 to 1, relative to the other tracks
+  pan: number;            // Stereo position from -1 (left) to 1 (right)
+}
+
+// A station calling in a pileup
+export interface PileupStation extends Omit<MixTrack, 'timings'> {
+  text: string;           // What the station sends, usually its callsign
+  wpm: number;
+}
+
+// A stretch of key-down (mark) or key-up (space) recovered from audio
+export interface KeyingRun {
+  isMark: boolean;
+  duration: number;       // Milliseconds
+}
+
+export interface DecodedCharacter {
+  character: string;      // Decoded character, ' ' between words, UNKNOWN_CHARACTER for an unknown group
+  morse: string;          // Dots and dashes heard, '/' between words
+  confidence: number;     // How clearly the timing fit, from 0 (a guess) to 1 (textbook)
+}
+
+export interface AudioDecodeResult {
+  text: string;
+  morse: string;                    // Letters separated by spaces and words by ' / '
+  characters: DecodedCharacter[];   // Every character of text in order, word spaces included
+  wpm: number;                      // Estimated character speed
+  frequency: number;                // Pitch that was decoded, in Hz
+}
+
+export interface AudioDecodeOptions {
+  frequency?: number;     // Pitch to decode in Hz; the strongest tone is used when left out
+}
+
+// What a live decoder has heard so far
+export interface LiveDecodeState {
+  text: string;               // Completed characters, with a space once a word gap has passed
+  wpm: number;                // Estimated character speed, 0 until a mark has been timed
+  level: number;              // Latest tone level from 0 to 1
+  threshold: number | null;   // Level at which the key counts as down, null while no tone stands out
+  isKeyDown: boolean;         // Whether a mark is being heard now
 }
@@ -0,0 +1,229 @@
+import { ChannelSettings, NoiseColor } from '../types/morse';
+
+// Selectable noise colours, in the order shown in the audio controls
+export const NOISE_COLORS: { id: NoiseColor; name: string }[] = [
+  { id: 'white', name: 'White' },
+  { id: 'pink', name: 'Pink' },
+];
+
+// Supported signal-to-noise ratio in dB
+export const MIN_SNR = -10;
+export const MAX_SNR = 30;
+
+// Fastest fading, in fades per second
+export const MAX_FADING_RATE = 2;
+
+// Most static crashes per second
+export const MAX_CRASH_RATE = 10;
+
+// Most interfering carriers
+export const MAX_INTERFERERS = 4;
+
+// Supported carrier level relative to the tone in dB
+export const MIN_INTERFERENCE_LEVEL = -30;
+export const MAX_INTERFERENCE_LEVEL = 6;
+
+export const DEFAULT_CHANNEL_SETTINGS: ChannelSettings = {
+  seed: 1,
+  noise: 'white',
+  snr: 10,
+  fadingDepth: 0,
+  fadingRate: 0.2,
+  crashRate: 0,
+  interferers: 0,
+  interferenceLevel: -6,
+};
+
+// Distance of interfering carriers from the tone's pitch in Hz
+const MIN_CARRIER_OFFSET = 100;
+const MAX_CARRIER_OFFSET = 500;
+
+// Carriers never go below this pitch in Hz
+const MIN_CARRIER_FREQUENCY = 200;
+
+// Time a static crash takes to die away, in milliseconds
+const MIN_CRASH_DECAY = 20;
+const MAX_CRASH_DECAY = 150;
+
+// Loudest static crash, as RMS relative to the tone's peak
+const MAX_CRASH_LEVEL = 3;
+
+// A crash ends once it has died away to this fraction of the tone's peak
+const CRASH_END_LEVEL = 0.001;
+
+// RMS of the pink noise filter below when fed unit white noise
+const PINK_NOISE_RMS = 2.84;
+
+// Ratio between the two slow swings that make up fading, so the pattern never repeats exactly
+const FADING_RATIO = 0.618;
+
+export interface ChannelOptions {
+  sampleRate: number;
+  frequency: number;      // Pitch of the tone in Hz; carriers are placed around it
+  signalLevel: number;    // Peak level of the tone at full strength
+  startSample?: number;   // Position of the first sample in the whole message, for audio rendered in parts
+}
+
+/**
+ * Add band conditions to a block of clean samples in place
+ * Blocks must be passed in order, starting at sample 0 of the part being rendered
+ */
+export type ChannelProcessor = (samples: Float64Array, from: number) => void;
+
+/**
+ * Create a seeded pseudo-random generator (mulberry32)
+ * @param seed - Any integer; the same seed always gives the same sequence
+ * @returns Function returning numbers from 0 (inclusive) to 1 (exclusive)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Check band condition settings for values out of range
+ * @param settings - Settings to check
+ * @returns Problems found, empty if the settings can be used
+ */
+export function validateChannelSettings(settings: ChannelSettings): string[] {
+  const problems: string[] = [];
+
+  if (!Number.isInteger(settings.seed)) {
+    problems.push('Seed must be a whole number');
+  }
+  if (settings.noise !== null && !NOISE_COLORS.some(color => color.id === settings.noise)) {
+    problems.push(`Unknown noise: ${settings.noise}`);
+  }
+  if (!isInRange(settings.snr, MIN_SNR, MAX_SNR)) {
+    problems.push(`SNR must be between ${MIN_SNR} and ${MAX_SNR} dB`);
+  }
+  if (!isInRange(settings.fadingDepth, 0, 1)) {
+    problems.push('Fading depth must be between 0 and 1');
+  }
+  if (!isInRange(settings.fadingRate, 0, MAX_FADING_RATE)) {
+    problems.push(`Fading rate must be between 0 and ${MAX_FADING_RATE} per second`);
+  }
+  if (!isInRange(settings.crashRate, 0, MAX_CRASH_RATE)) {
+    problems.push(`Static crashes must be between 0 and ${MAX_CRASH_RATE} per second`);
+  }
+  if (!Number.isInteger(settings.interferers) || !isInRange(settings.interferers, 0, MAX_INTERFERERS)) {
+    problems.push(`Interfering carriers must be between 0 and ${MAX_INTERFERERS}`);
+  }
+  if (!isInRange(settings.interferenceLevel, MIN_INTERFERENCE_LEVEL, MAX_INTERFERENCE_LEVEL)) {
+    problems.push(`Interference level must be between ${MIN_INTERFERENCE_LEVEL} and ${MAX_INTERFERENCE_LEVEL} dB`);
+  }
+
+  return problems;
+}
+
+/**
+ * Prepare band conditions for one piece of audio
+ * Fading and carriers follow the position in the whole message, so parts rendered
+ * separately line up; noise and crashes are drawn from a stream seeded by the part's start
+ * @param settings - Band conditions to simulate
+ * @param options - Sample rate, tone pitch and level, and where the audio starts
+ * @returns Processor adding the conditions to consecutive blocks
+ */
+export function createChannel(settings: ChannelSettings, options: ChannelOptions): ChannelProcessor {
+  const { sampleRate, frequency, signalLevel, startSample = 0 } = options;
+
+  // Fixed features of the band, the same for every part of the message
+  const setup = createRandom(settings.seed);
+  const fadingPhases = [setup() * 2 * Math.PI, setup() * 2 * Math.PI];
+  const carriers = Array.from({ length: settings.interferers }, () => {
+    let offset = MIN_CARRIER_OFFSET + setup() * (MAX_CARRIER_OFFSET - MIN_CARRIER_OFFSET);
+    if (setup() < 0.5) {
+      offset = -offset;
+    }
+    if (frequency + offset < MIN_CARRIER_FREQUENCY) {
+      offset = Math.abs(offset);
+    }
+    return {
+      step: (2 * Math.PI * (frequency + offset)) / sampleRate,
+      phase: setup() * 2 * Math.PI,
+      level: signalLevel * Math.pow(10, settings.interferenceLevel / 20) * (0.5 + 0.5 * setup()),
+    };
+  });
+
+  // Noise and crashes, drawn sample by sample
+  const random = createRandom(settings.seed ^ Math.imul(startSample + 1, 0x9e3779b1));
+  const gaussian = () => {
+    const u = 1 - random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  };
+
+  // SNR compares the tone's RMS with the noise over the whole audio band
+  const noiseRms = signalLevel / Math.SQRT2 / Math.pow(10, settings.snr / 20);
+  const pink = [0, 0, 0, 0, 0, 0, 0];
+  const crashChance = settings.crashRate / sampleRate;
+  let crashLevel = 0;
+  let crashDecay = 0;
+
+  const nextNoise = (color: NoiseColor): number => {
+    const white = gaussian();
+    if (color === 'white') {
+      return white * noiseRms;
+    }
+    // Paul Kellet's filter: -3 dB per octave across the audio band
+    pink[0] = 0.99886 * pink[0] + white * 0.0555179;
+    pink[1] = 0.99332 * pink[1] + white * 0.0750759;
+    pink[2] = 0.969 * pink[2] + white * 0.153852;
+    pink[3] = 0.8665 * pink[3] + white * 0.3104856;
+    pink[4] = 0.55 * pink[4] + white * 0.5329522;
+    pink[5] = -0.7616 * pink[5] - white * 0.016898;
+    const value = pink[0] + pink[1] + pink[2] + pink[3] + pink[4] + pink[5] + pink[6] + white * 0.5362;
+    pink[6] = white * 0.115926;
+    return (value / PINK_NOISE_RMS) * noiseRms;
+  };
+
+  return (samples: Float64Array, from: number): void => {
+    for (let i = 0; i < samples.length; i++) {
+      const n = startSample + from + i;
+      let value = samples[i];
+
+      if (settings.fadingDepth > 0) {
+        const angle = (2 * Math.PI * settings.fadingRate * n) / sampleRate;
+        const swing = Math.sin(angle + fadingPhases[0]) + Math.sin(angle * FADING_RATIO + fadingPhases[1]);
+        value *= 1 - settings.fadingDepth * (0.5 + 0.25 * swing);
+      }
+
+      for (const carrier of carriers) {
+        value += carrier.level * Math.sin(carrier.step * n + carrier.phase);
+      }
+
+      if (settings.noise) {
+        value += nextNoise(settings.noise);
+      }
+
+      if (crashChance > 0) {
+        if (random() < crashChance) {
+          const level = signalLevel * (1 + (MAX_CRASH_LEVEL - 1) * random());
+          const decayTime = MIN_CRASH_DECAY + random() * (MAX_CRASH_DECAY - MIN_CRASH_DECAY);
+          if (level > crashLevel) {
+            crashLevel = level;
+            crashDecay = Math.exp(-1000 / (decayTime * sampleRate));
+          }
+        }
+        if (crashLevel > 0) {
+          value += gaussian() * crashLevel;
+          crashLevel = crashLevel > signalLevel * CRASH_END_LEVEL ? crashLevel * crashDecay : 0;
+        }
+      }
+
+      samples[i] = value;
+    }
+  };
+}
+
+/**
+ * Check that a value is a number within a range
+ */
+function isInRange(value: number, min: number, max: number): boolean {
+  return typeof value === 'number' && value >= min && value <= max;
+}
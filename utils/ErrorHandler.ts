@@ -10,6 +10,8 @@ export type AppErrorType =
   | 'DOWNLOAD_FAILED'
   | 'STORAGE_FULL'
   | 'FLASHLIGHT_FAILED'
+  | 'MICROPHONE_FAILED'
+  | 'DECODE_FAILED'
   | 'UNKNOWN';
 
 export interface AppError {
@@ -104,6 +106,34 @@ class ErrorHandler {
     return this.handleError(appError);
   }
 
+  /**
+   * Handle microphone errors
+   * @param error - The error that occurred
+   * @param context - Additional context
+   * @returns ErrorNotification for display
+   */
+  handleMicrophoneError(error: Error | unknown, context?: string): ErrorNotification {
+    // A refused permission needs the settings hint rather than a retry
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (errorMessage.toLowerCase().includes('permission')) {
+      return this.handlePermissionDenied('Microphone');
+    }
+
+    const appError = this.createError(error, 'MICROPHONE_FAILED', context);
+    return this.handleError(appError);
+  }
+
+  /**
+   * Handle errors from decoding an audio file
+   * @param error - The error that occurred
+   * @param context - Additional context
+   * @returns ErrorNotification for display
+   */
+  handleDecodeError(error: Error | unknown, context?: string): ErrorNotification {
+    const appError = this.createError(error, 'DECODE_FAILED', context);
+    return this.handleError(appError);
+  }
+
   /**
    * Handle permission denied errors
    * @param permission - The permission that was denied
@@ -158,6 +188,12 @@ class ErrorHandler {
       
       case 'FLASHLIGHT_FAILED':
         return 'Flashlight transmission failed. Please try again.';
+
+      case 'MICROPHONE_FAILED':
+        return 'Could not listen to the microphone. Please try again.';
+
+      case 'DECODE_FAILED':
+        return `Could not decode the file: ${error.message}.`;
       
       case 'UNKNOWN':
       default:
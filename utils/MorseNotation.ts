@@ -0,0 +1,84 @@
+import { MorseNotation } from '../types/morse';
+import MorseConverterService from '../services/MorseConverterService';
+import { isMarkTiming } from './TimingUtils';
+
+// Selectable notations, in the order shown in the display card
+export const MORSE_NOTATIONS: { id: MorseNotation; name: string }[] = [
+  { id: 'standard', name: '.-' },
+  { id: 'spoken', name: 'di-dah' },
+  { id: 'unicode', name: '·−' },
+  { id: 'binary', name: 'Binary' },
+  { id: 'units', name: 'Units' },
+];
+
+// Unicode middle dot and minus sign, which line up better than ASCII in proportional fonts
+const UNICODE_SYMBOLS: Record<string, string> = {
+  '.': '·',
+  '-': '−',
+};
+
+/**
+ * Write Morse code in another notation
+ * @param morse - Morse code as produced by textToMorse
+ * @param notation - Target notation
+ * @returns Morse in the requested notation
+ */
+export function formatMorse(morse: string, notation: MorseNotation): string {
+  switch (notation) {
+    case 'spoken':
+      return toSpoken(morse);
+    case 'unicode':
+      return morse.replace(/[.-]/g, symbol => UNICODE_SYMBOLS[symbol]);
+    case 'binary':
+      return toBinary(morse);
+    case 'units':
+      return toUnits(morse);
+    default:
+      return morse;
+  }
+}
+
+/**
+ * Spell each letter as it sounds: di for inner dits, dit for a final dit, dah for dashes
+ * @param morse - Morse code
+ * @returns e.g. "dah-di-dah-dit dah-dah-di-dah" for CQ
+ */
+function toSpoken(morse: string): string {
+  // Spaces (including American Morse internal spaces) and word separators are kept as they are
+  return morse.replace(/[^\s\/|]+/g, group => {
+    const symbols = Array.from(group);
+    return symbols
+      .map((symbol, index) => {
+        if (symbol !== '.') {
+          return 'dah';
+        }
+        return index === symbols.length - 1 ? 'dit' : 'di';
+      })
+      .join('-');
+  });
+}
+
+/**
+ * Render the keying as one character per time unit
+ * @param morse - Morse code
+ * @returns 1 for key down and 0 for key up, e.g. "10111" for A
+ */
+function toBinary(morse: string): string {
+  return MorseConverterService.morseToTiming(morse, 1)
+    .map(timing => (isMarkTiming(timing) ? '1' : '0').repeat(Math.round(timing.duration)))
+    .join('');
+}
+
+/**
+ * List the length of every element in time units
+ * @param morse - Morse code
+ * @returns Key-down lengths in brackets and gaps as plain numbers, e.g. "[1] 1 [3]" for A
+ */
+function toUnits(morse: string): string {
+  return MorseConverterService.morseToTiming(morse, 1)
+    .map(timing => {
+      const units = Math.round(timing.duration);
+      return isMarkTiming(timing) ? `[${units}]` : String(units);
+    })
+    .join(' ');
+}
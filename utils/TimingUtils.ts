@@ -0,0 +1,62 @@
+import { MorseTiming, SpeedStandard } from '../types/morse';
+
+// Supported speed range in words per minute
+export const MIN_WPM = 5;
+export const MAX_WPM = 60;
+
+// Standard weighting: a dit is as long as the gap after it
+export const STANDARD_WEIGHTING = 50;
+
+// Supported weighting range in percent
+export const MIN_WEIGHTING = 25;
+export const MAX_WEIGHTING = 75;
+
+// Length of the reference word in time units, including its trailing word gap
+export const UNITS_PER_WORD: Record<SpeedStandard, number> = {
+  PARIS: 50,
+  CODEX: 60,
+};
+
+// Time units of the reference word spent in letter and word gaps (4 letter gaps + 1 word gap)
+export const GAP_UNITS_PER_WORD = 19;
+
+/**
+ * Check whether a timing element is keyed (tone on / light on)
+ * @param timing - Timing element
+ * @returns true for dits and all kinds of dahs, false for gaps
+ */
+export function isMarkTiming(timing: MorseTiming): boolean {
+  return (
+    timing.type === 'dit' ||
+    timing.type === 'dah' ||
+    timing.type === 'longDah' ||
+    timing.type === 'extraLongDah'
+  );
+}
+
+/**
+ * Convert a speed in words per minute to the length of one time unit
+ * @param wpm - Words per minute
+ * @param standard - Reference word (default: PARIS)
+ * @returns Time unit in milliseconds
+ */
+export function wpmToTimeUnit(wpm: number, standard: SpeedStandard = 'PARIS'): number {
+  return 60000 / (UNITS_PER_WORD[standard] * wpm);
+}
+
+/**
+ * Check whether a speed is inside the supported range
+ * @param wpm - Words per minute
+ */
+export function isValidWpm(wpm: number): boolean {
+  return Number.isFinite(wpm) && wpm >= MIN_WPM && wpm <= MAX_WPM;
+}
+
+/**
+ * Format a speed for display, keeping at most one decimal
+ * @param wpm - Words per minute
+ * @returns e.g. "20" or "22.5"
+ */
+export function formatWpm(wpm: number): string {
+  return String(Math.round(wpm * 10) / 10);
+}
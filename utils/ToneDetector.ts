@@ -0,0 +1,129 @@
+// Pitch range searched when the tone frequency is not known, in Hz
+export const MIN_DETECT_FREQUENCY = 200;
+export const MAX_DETECT_FREQUENCY = 2000;
+
+// Length of the window the tone level is measured over, in milliseconds; its bandwidth
+// is about 1000 / TONE_WINDOW Hz, narrow enough to reject carriers a few hundred Hz away
+const TONE_WINDOW = 10;
+
+// Time between tone level measurements, in milliseconds
+const TONE_LEVEL_INTERVAL = 2.5;
+
+// Window used to find the tone's pitch, in milliseconds (about 20 Hz resolution)
+const DETECT_WINDOW = 50;
+
+// Loudest windows searched for the pitch; quieter ones are mostly gaps
+const DETECT_WINDOWS = 40;
+
+// Steps of the coarse pitch search and of its refinement, in Hz
+const DETECT_STEP = 10;
+const REFINE_STEP = 1;
+
+export interface ToneMeter {
+  interval: number;                           // Time between levels in milliseconds
+  push: (samples: Float32Array) => number[];  // Takes the next samples, returns the levels they complete
+}
+
+/**
+ * Measure the amplitude of one frequency in a stretch of samples (Goertzel algorithm)
+ * @param samples - Samples from -1 to 1
+ * @param start - First sample of the stretch
+ * @param length - Samples in the stretch
+ * @param frequency - Frequency to measure in Hz
+ * @param sampleRate - Sample rate in Hz
+ * @returns Amplitude of a sine at that frequency, from 0 to 1
+ */
+export function goertzel(
+  samples: Float32Array,
+  start: number,
+  length: number,
+  frequency: number,
+  sampleRate: number
+): number {
+  const coefficient = 2 * Math.cos((2 * Math.PI * frequency) / sampleRate);
+  let previous = 0;
+  let beforePrevious = 0;
+  for (let i = start; i < start + length; i++) {
+    const current = samples[i] + coefficient * previous - beforePrevious;
+    beforePrevious = previous;
+    previous = current;
+  }
+  const power = previous * previous + beforePrevious * beforePrevious - coefficient * previous * beforePrevious;
+  return (2 * Math.sqrt(Math.max(0, power))) / length;
+}
+
+/**
+ * Find the pitch of the strongest tone in a recording
+ * Only the loudest stretches are searched, so long gaps and silence do not dilute the tone
+ * @param samples - Samples from -1 to 1
+ * @param sampleRate - Sample rate in Hz
+ * @returns Pitch in Hz, or null if the recording is silent
+ */
+export function detectToneFrequency(samples: Float32Array, sampleRate: number): number | null {
+  const windowLength = Math.round((DETECT_WINDOW / 1000) * sampleRate);
+  const windows: { start: number; energy: number }[] = [];
+  for (let start = 0; start + windowLength <= samples.length; start += windowLength) {
+    let energy = 0;
+    for (let i = start; i < start + windowLength; i++) {
+      energy += samples[i] * samples[i];
+    }
+    windows.push({ start, energy });
+  }
+  const loudest = windows
+    .filter(window => window.energy > 0)
+    .sort((a, b) => b.energy - a.energy)
+    .slice(0, DETECT_WINDOWS);
+  if (loudest.length === 0) {
+    return null;
+  }
+
+  const strength = (frequency: number) =>
+    loudest.reduce((sum, window) => sum + goertzel(samples, window.start, windowLength, frequency, sampleRate), 0);
+  const strongest = (from: number, to: number, step: number) => {
+    let best = from;
+    let bestStrength = -1;
+    for (let frequency = from; frequency <= to; frequency += step) {
+      const value = strength(frequency);
+      if (value > bestStrength) {
+        best = frequency;
+        bestStrength = value;
+      }
+    }
+    return best;
+  };
+
+  const coarse = strongest(MIN_DETECT_FREQUENCY, Math.min(MAX_DETECT_FREQUENCY, sampleRate / 2), DETECT_STEP);
+  return strongest(coarse - DETECT_STEP, coarse + DETECT_STEP, REFINE_STEP);
+}
+
+/**
+ * Create a meter following the level of one tone through audio that arrives in pieces
+ * A level is produced every TONE_LEVEL_INTERVAL milliseconds, each measured over the last
+ * TONE_WINDOW milliseconds
+ * @param frequency - Pitch to follow in Hz
+ * @param sampleRate - Sample rate in Hz
+ * @returns Meter taking samples in order
+ */
+export function createToneMeter(frequency: number, sampleRate: number): ToneMeter {
+  const windowLength = Math.max(1, Math.round((TONE_WINDOW / 1000) * sampleRate));
+  const hop = Math.max(1, Math.round((TONE_LEVEL_INTERVAL / 1000) * sampleRate));
+  let pending = new Float32Array(0);
+
+  const push = (samples: Float32Array): number[] => {
+    const buffer = new Float32Array(pending.length + samples.length);
+    buffer.set(pending);
+    buffer.set(samples, pending.length);
+
+    const levels: number[] = [];
+    let start = 0;
+    for (; start + windowLength <= buffer.length; start += hop) {
+      levels.push(goertzel(buffer, start, windowLength, frequency, sampleRate));
+    }
+
+    // Keep what the next windows still need
+    pending = buffer.slice(start);
+    return levels;
+  };
+
+  return { interval: (hop / sampleRate) * 1000, push };
+}
@@ -0,0 +1,41 @@
+import { EnvelopeShape, ToneEnvelope } from '../types/morse';
+
+// Selectable envelope shapes, in the order shown in the audio controls
+export const ENVELOPE_SHAPES: { id: EnvelopeShape; name: string }[] = [
+  { id: 'raisedCosine', name: 'Raised cosine' },
+  { id: 'blackman', name: 'Blackman' },
+];
+
+// Supported rise and fall time in milliseconds
+export const MIN_RAMP_TIME = 2;
+export const MAX_RAMP_TIME = 10;
+
+// 5 ms removes key clicks without softening elements at high speeds
+export const DEFAULT_TONE_ENVELOPE: ToneEnvelope = {
+  shape: 'raisedCosine',
+  rampTime: 5,
+};
+
+/**
+ * Gain of the rising edge of an element
+ * The falling edge mirrors it, measured from the end of the element
+ * @param shape - Envelope shape
+ * @param position - Position in the ramp, 0 at silence and 1 at full level
+ * @returns Gain between 0 and 1
+ */
+export function envelopeGain(shape: EnvelopeShape, position: number): number {
+  const x = Math.min(Math.max(position, 0), 1);
+  if (shape === 'blackman') {
+    // Rising half of a Blackman window; its smoother ends splatter less than a raised cosine
+    return Math.max(0.42 - 0.5 * Math.cos(Math.PI * x) + 0.08 * Math.cos(2 * Math.PI * x), 0);
+  }
+  return 0.5 * (1 - Math.cos(Math.PI * x));
+}
+
+/**
+ * Check whether a ramp time is inside the supported range
+ * @param rampTime - Rise and fall time in milliseconds
+ */
+export function isValidRampTime(rampTime: number): boolean {
+  return Number.isFinite(rampTime) && rampTime >= MIN_RAMP_TIME && rampTime <= MAX_RAMP_TIME;
+}
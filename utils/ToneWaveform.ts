@@ -0,0 +1,107 @@
+import { ToneSettings, ToneWaveform } from '../types/morse';
+
+// Selectable waveforms, in the order shown in the audio controls
+export const TONE_WAVEFORMS: { id: ToneWaveform; name: string }[] = [
+  { id: 'sine', name: 'Sine' },
+  { id: 'square', name: 'Square' },
+  { id: 'triangle', name: 'Triangle' },
+  { id: 'buzzer', name: 'Buzzer' },
+];
+
+// Supported sidetone pitch in Hz
+export const MIN_FREQUENCY = 300;
+export const MAX_FREQUENCY = 1200;
+
+// Supported volume, as a fraction of the loudest level
+export const MIN_VOLUME = 0.1;
+export const MAX_VOLUME = 1;
+
+export const DEFAULT_TONE_SETTINGS: ToneSettings = {
+  frequency: 600,
+  volume: 0.5,
+  waveform: 'sine',
+};
+
+// Samples in one period of a wavetable
+const WAVETABLE_SIZE = 4096;
+
+// Corner of the low-pass filter that takes the edge off the buzzer's sawtooth
+const BUZZER_CUTOFF = 1800;
+
+/**
+ * Build one period of a waveform, band-limited so no harmonic folds back below the
+ * sample rate's Nyquist frequency
+ * @param waveform - Waveform to build
+ * @param frequency - Pitch the table will be played at, in Hz
+ * @param sampleRate - Sample rate it will be played at, in Hz
+ * @returns One period, scaled to a peak of 1
+ */
+export function buildWavetable(waveform: ToneWaveform, frequency: number, sampleRate: number): Float32Array {
+  const table = new Float32Array(WAVETABLE_SIZE);
+  const maxHarmonic = Math.max(1, Math.floor(sampleRate / 2 / frequency));
+
+  for (let k = 1; k <= maxHarmonic; k++) {
+    const amplitude = harmonicAmplitude(waveform, k, frequency);
+    if (amplitude === 0) continue;
+    for (let i = 0; i < WAVETABLE_SIZE; i++) {
+      table[i] += amplitude * Math.sin((2 * Math.PI * k * i) / WAVETABLE_SIZE);
+    }
+  }
+
+  let peak = 0;
+  for (let i = 0; i < WAVETABLE_SIZE; i++) {
+    peak = Math.max(peak, Math.abs(table[i]));
+  }
+  for (let i = 0; i < WAVETABLE_SIZE; i++) {
+    table[i] /= peak;
+  }
+  return table;
+}
+
+/**
+ * Read a wavetable at a point in time, interpolating between entries
+ * @param table - One period from buildWavetable
+ * @param frequency - Pitch in Hz
+ * @param time - Seconds since the start of the tone
+ * @returns Sample value between -1 and 1
+ */
+export function sampleWavetable(table: Float32Array, frequency: number, time: number): number {
+  const phase = (frequency * time) % 1;
+  const position = phase * table.length;
+  const index = Math.floor(position);
+  const next = table[(index + 1) % table.length];
+  return table[index] + (next - table[index]) * (position - index);
+}
+
+/**
+ * Amplitude of the k-th harmonic in a waveform's Fourier series
+ */
+function harmonicAmplitude(waveform: ToneWaveform, k: number, frequency: number): number {
+  switch (waveform) {
+    case 'square':
+      return k % 2 === 1 ? 1 / k : 0;
+    case 'triangle':
+      return k % 2 === 1 ? ((k - 1) / 2) % 2 === 0 ? 1 / (k * k) : -1 / (k * k) : 0;
+    case 'buzzer':
+      // Sawtooth through a one-pole low-pass filter
+      return 1 / k / Math.sqrt(1 + ((k * frequency) / BUZZER_CUTOFF) ** 2);
+    default:
+      return k === 1 ? 1 : 0;
+  }
+}
+
+/**
+ * Check whether a pitch is inside the supported range
+ * @param frequency - Pitch in Hz
+ */
+export function isValidFrequency(frequency: number): boolean {
+  return Number.isFinite(frequency) && frequency >= MIN_FREQUENCY && frequency <= MAX_FREQUENCY;
+}
+
+/**
+ * Check whether a volume is inside the supported range
+ * @param volume - Level from 0 to 1
+ */
+export function isValidVolume(volume: number): boolean {
+  return Number.isFinite(volume) && volume >= MIN_VOLUME && volume <= MAX_VOLUME;
+}
@@ -0,0 +1,110 @@
+// Audio read from a WAV file, mixed down to one channel
+export interface WavAudio {
+  sampleRate: number;
+  channels: number;       // Channels in the file before mixing down
+  samples: Float32Array;  // Mono samples from -1 to 1
+}
+
+// Layout of a 16-bit PCM WAV file, as found in its header
+export interface WavFormat {
+  sampleRate: number;
+  channels: number;
+  dataOffset: number;     // Byte at which the samples start
+  dataSize: number;       // Bytes of samples the header declares
+}
+
+/**
+ * Read a 16-bit PCM WAV file
+ * Chunks other than "fmt " and "data" are skipped; stereo files are mixed to mono
+ * @param bytes - Contents of the file
+ * @returns Sample rate and mono samples
+ */
+export function parseWav(bytes: Uint8Array): WavAudio {
+  const format = readWavHeader(bytes);
+
+  // Recorders stopped mid-write leave a size larger than the file
+  const dataSize = Math.min(format.dataSize, bytes.length - format.dataOffset);
+  return {
+    sampleRate: format.sampleRate,
+    channels: format.channels,
+    samples: pcmToSamples(bytes.subarray(format.dataOffset, format.dataOffset + dataSize), format.channels),
+  };
+}
+
+/**
+ * Find the format and the start of the samples in a 16-bit PCM WAV file
+ * Only the header has to be there, so a file still being recorded can be read as it grows
+ * @param bytes - Start of the file, up to at least the header of the "data" chunk
+ * @returns Sample rate, channels and where the samples start
+ */
+export function readWavHeader(bytes: Uint8Array): WavFormat {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+    throw new Error('File is not a WAV file');
+  }
+
+  let format: { audioFormat: number; channels: number; sampleRate: number; bitsPerSample: number } | null = null;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const tag = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (tag === 'fmt ') {
+      if (body + 16 > bytes.length) break;
+      format = {
+        audioFormat: view.getUint16(body, true),
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+    } else if (tag === 'data') {
+      if (!format) {
+        throw new Error('WAV file has no format chunk');
+      }
+      // 0xFFFE is WAVE_FORMAT_EXTENSIBLE, which 16-bit PCM files from some recorders use
+      if ((format.audioFormat !== 1 && format.audioFormat !== 0xfffe) || format.bitsPerSample !== 16) {
+        throw new Error('Only 16-bit PCM WAV files are supported');
+      }
+      return { sampleRate: format.sampleRate, channels: format.channels, dataOffset: body, dataSize: size };
+    }
+
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2);
+  }
+
+  throw new Error('WAV file has no audio data');
+}
+
+/**
+ * Average interleaved 16-bit little-endian channels into mono samples from -1 to 1
+ * A partial frame at the end is ignored
+ * @param bytes - Interleaved samples
+ * @param channels - Channels in each frame
+ * @returns Mono samples
+ */
+export function pcmToSamples(bytes: Uint8Array, channels: number): Float32Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const frames = Math.floor(bytes.length / (2 * channels));
+  const samples = new Float32Array(frames);
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += view.getInt16((frame * channels + channel) * 2, true);
+    }
+    samples[frame] = sum / channels / 32768;
+  }
+  return samples;
+}
+
+/**
+ * Read a four-character chunk tag
+ */
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
@@ -0,0 +1,112 @@
+import {
+  createChannel,
+  createRandom,
+  DEFAULT_CHANNEL_SETTINGS,
+  validateChannelSettings,
+} from '../ChannelSimulator';
+import { ChannelSettings } from '../../types/morse';
+
+const SAMPLE_RATE = 8000;
+const SIGNAL_LEVEL = 0.3;
+
+// Settings with every effect off, to switch on one at a time
+const QUIET: ChannelSettings = { ...DEFAULT_CHANNEL_SETTINGS, noise: null };
+
+const run = (settings: ChannelSettings, input: Float64Array, startSample = 0): Float64Array => {
+  const samples = input.slice();
+  createChannel(settings, { sampleRate: SAMPLE_RATE, frequency: 600, signalLevel: SIGNAL_LEVEL, startSample })(samples, 0);
+  return samples;
+};
+
+const rms = (samples: Float64Array): number =>
+  Math.sqrt(samples.reduce((sum, value) => sum + value * value, 0) / samples.length);
+
+describe('ChannelSimulator', () => {
+  describe('createRandom', () => {
+    it('should repeat the same sequence for the same seed', () => {
+      const a = createRandom(7);
+      const b = createRandom(7);
+      const c = createRandom(8);
+      const first = [a(), a(), a()];
+      expect([b(), b(), b()]).toEqual(first);
+      expect([c(), c(), c()]).not.toEqual(first);
+      expect(first.every(value => value >= 0 && value < 1)).toBe(true);
+    });
+  });
+
+  describe('validateChannelSettings', () => {
+    it('should accept the defaults', () => {
+      expect(validateChannelSettings(DEFAULT_CHANNEL_SETTINGS)).toEqual([]);
+    });
+
+    it('should report values out of range', () => {
+      expect(validateChannelSettings({ ...DEFAULT_CHANNEL_SETTINGS, seed: 1.5, snr: 40, interferers: 9 })).toEqual([
+        'Seed must be a whole number',
+        'SNR must be between -10 and 30 dB',
+        'Interfering carriers must be between 0 and 4',
+      ]);
+    });
+  });
+
+  describe('createChannel', () => {
+    const silence = new Float64Array(SAMPLE_RATE);
+
+    it('should give the same audio for the same seed', () => {
+      const settings = { ...DEFAULT_CHANNEL_SETTINGS, crashRate: 2, interferers: 2, fadingDepth: 0.5 };
+      expect(run(settings, silence)).toEqual(run(settings, silence));
+      expect(run({ ...settings, seed: 2 }, silence)).not.toEqual(run(settings, silence));
+    });
+
+    it('should give the same audio in blocks as in one piece', () => {
+      const settings = { ...DEFAULT_CHANNEL_SETTINGS, noise: 'pink' as const, crashRate: 3 };
+      const whole = run(settings, silence);
+
+      const blocks = silence.slice();
+      const channel = createChannel(settings, { sampleRate: SAMPLE_RATE, frequency: 600, signalLevel: SIGNAL_LEVEL });
+      for (let from = 0; from < blocks.length; from += 1000) {
+        channel(blocks.subarray(from, from + 1000), from);
+      }
+      expect(blocks).toEqual(whole);
+    });
+
+    it('should add noise at the chosen SNR', () => {
+      const long = new Float64Array(SAMPLE_RATE * 10);
+      const toneRms = SIGNAL_LEVEL / Math.SQRT2;
+      for (const noise of ['white', 'pink'] as const) {
+        const noiseRms = rms(run({ ...QUIET, noise, snr: 6 }, long));
+        expect(20 * Math.log10(toneRms / noiseRms)).toBeCloseTo(6, 0);
+      }
+    });
+
+    it('should fade the signal no deeper than the chosen depth', () => {
+      const steady = new Float64Array(SAMPLE_RATE * 20).fill(1);
+      const faded = run({ ...QUIET, fadingDepth: 0.8, fadingRate: 1 }, steady);
+      const lowest = faded.reduce((min, value) => Math.min(min, value), 1);
+      expect(lowest).toBeGreaterThanOrEqual(0.2 - 1e-9);
+      expect(lowest).toBeLessThan(0.5);
+      expect(faded.every(value => value <= 1)).toBe(true);
+    });
+
+    it('should follow the position in the message', () => {
+      const settings = { ...QUIET, fadingDepth: 0.8, interferers: 1 };
+      const whole = run(settings, silence.map(() => 1));
+      const part = run(settings, new Float64Array(1000).fill(1), 3000);
+      part.forEach((value, i) => expect(value).toBeCloseTo(whole[3000 + i], 9));
+    });
+
+    it('should add static crashes that die away', () => {
+      const crackling = run({ ...QUIET, crashRate: 5 }, new Float64Array(SAMPLE_RATE * 4));
+      const loud = crackling.filter(value => Math.abs(value) > SIGNAL_LEVEL).length;
+      const quiet = crackling.filter(value => value === 0).length;
+      expect(loud).toBeGreaterThan(0);
+      expect(quiet).toBeGreaterThan(0);
+    });
+
+    it('should add carriers near the tone below the chosen level', () => {
+      const carriers = run({ ...QUIET, interferers: 2, interferenceLevel: -6 }, silence);
+      const carrierPeak = SIGNAL_LEVEL * Math.pow(10, -6 / 20);
+      expect(rms(carriers)).toBeGreaterThan(0);
+      expect(carriers.every(value => Math.abs(value) <= 2 * carrierPeak)).toBe(true);
+    });
+  });
+});
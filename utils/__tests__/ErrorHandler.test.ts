@@ -65,6 +65,30 @@ describe('ErrorHandler', () => {
     });
   });
 
+  describe('handleMicrophoneError', () => {
+    it('should return error notification for microphone failure', () => {
+      const notification = ErrorHandler.handleMicrophoneError(new Error('Recorder busy'), 'receive');
+
+      expect(notification.type).toBe('error');
+      expect(notification.message).toBe('Could not listen to the microphone. Please try again.');
+    });
+
+    it('should point to the settings when the permission was refused', () => {
+      const notification = ErrorHandler.handleMicrophoneError(new Error('Microphone permission not granted'));
+
+      expect(notification.message).toContain('Permission required: Microphone');
+    });
+  });
+
+  describe('handleDecodeError', () => {
+    it('should say why the file could not be decoded', () => {
+      const notification = ErrorHandler.handleDecodeError(new Error('No Morse signal found'), 'file');
+
+      expect(notification.type).toBe('error');
+      expect(notification.message).toBe('Could not decode the file: No Morse signal found.');
+    });
+  });
+
   describe('handlePermissionDenied', () => {
     it('should return error notification for permission denial', () => {
       const notification = ErrorHandler.handlePermissionDenied('Camera');
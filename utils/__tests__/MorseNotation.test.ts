@@ -0,0 +1,29 @@
+import { formatMorse } from '../MorseNotation';
+
+describe('MorseNotation', () => {
+  const cq = '-.-. --.-';
+
+  it('should leave the standard notation unchanged', () => {
+    expect(formatMorse(cq, 'standard')).toBe(cq);
+  });
+
+  it('should spell letters in the spoken di-dah form', () => {
+    expect(formatMorse(cq, 'spoken')).toBe('dah-di-dah-dit dah-dah-di-dah');
+    expect(formatMorse('.- / ..', 'spoken')).toBe('di-dah / di-dit');
+  });
+
+  it('should use Unicode dot and dash symbols', () => {
+    expect(formatMorse('.- / -.', 'unicode')).toBe('·− / −·');
+  });
+
+  it('should render the keying as a binary string', () => {
+    expect(formatMorse('.-', 'binary')).toBe('10111');
+    expect(formatMorse('. .', 'binary')).toBe('10001');
+    expect(formatMorse('. / .', 'binary')).toBe('100000001');
+  });
+
+  it('should list element lengths in timing units', () => {
+    expect(formatMorse('.- .', 'units')).toBe('[1] 1 [3] 3 [1]');
+    expect(formatMorse('. / -', 'units')).toBe('[1] 7 [3]');
+  });
+});
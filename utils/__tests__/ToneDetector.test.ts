@@ -0,0 +1,46 @@
+import { createToneMeter, detectToneFrequency, goertzel } from '../ToneDetector';
+
+const SAMPLE_RATE = 8000;
+
+const sine = (frequency: number, amplitude: number, length: number): Float32Array =>
+  Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE));
+
+describe('ToneDetector', () => {
+  describe('goertzel', () => {
+    it('should measure the amplitude of the chosen frequency only', () => {
+      const tone = sine(600, 0.5, 800);
+      expect(goertzel(tone, 0, 800, 600, SAMPLE_RATE)).toBeCloseTo(0.5, 2);
+      expect(goertzel(tone, 0, 800, 900, SAMPLE_RATE)).toBeLessThan(0.01);
+    });
+  });
+
+  describe('detectToneFrequency', () => {
+    it('should find the pitch of a keyed tone', () => {
+      const keyed = new Float32Array(SAMPLE_RATE * 2);
+      keyed.set(sine(733, 0.4, 2000), 1000);
+      keyed.set(sine(733, 0.4, 2000), 8000);
+      expect(detectToneFrequency(keyed, SAMPLE_RATE)).toBeGreaterThanOrEqual(731);
+      expect(detectToneFrequency(keyed, SAMPLE_RATE)).toBeLessThanOrEqual(735);
+    });
+
+    it('should give up on silence', () => {
+      expect(detectToneFrequency(new Float32Array(SAMPLE_RATE), SAMPLE_RATE)).toBeNull();
+    });
+  });
+
+  describe('createToneMeter', () => {
+    it('should give the same levels for audio in pieces as in one piece', () => {
+      const tone = sine(600, 0.5, 4000);
+      const whole = createToneMeter(600, SAMPLE_RATE).push(tone);
+
+      const meter = createToneMeter(600, SAMPLE_RATE);
+      const pieces = [
+        ...meter.push(tone.subarray(0, 333)),
+        ...meter.push(tone.subarray(333, 2500)),
+        ...meter.push(tone.subarray(2500)),
+      ];
+      expect(pieces).toEqual(whole);
+      expect(meter.interval).toBeCloseTo(2.5);
+    });
+  });
+});
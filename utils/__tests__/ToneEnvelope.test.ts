@@ -0,0 +1,31 @@
+import { envelopeGain, isValidRampTime } from '../ToneEnvelope';
+
+describe('ToneEnvelope', () => {
+  it('should rise from silence to full level', () => {
+    for (const shape of ['raisedCosine', 'blackman'] as const) {
+      expect(envelopeGain(shape, 0)).toBeCloseTo(0);
+      expect(envelopeGain(shape, 1)).toBeCloseTo(1);
+      expect(envelopeGain(shape, 0.25)).toBeLessThan(envelopeGain(shape, 0.75));
+    }
+  });
+
+  it('should follow a raised cosine', () => {
+    expect(envelopeGain('raisedCosine', 0.5)).toBeCloseTo(0.5);
+  });
+
+  it('should start more gently with a Blackman ramp', () => {
+    expect(envelopeGain('blackman', 0.1)).toBeLessThan(envelopeGain('raisedCosine', 0.1));
+  });
+
+  it('should clamp positions outside the ramp', () => {
+    expect(envelopeGain('raisedCosine', -1)).toBe(0);
+    expect(envelopeGain('blackman', 2)).toBeCloseTo(1);
+  });
+
+  it('should accept ramp times from 2 to 10 ms', () => {
+    expect(isValidRampTime(2)).toBe(true);
+    expect(isValidRampTime(10)).toBe(true);
+    expect(isValidRampTime(1)).toBe(false);
+    expect(isValidRampTime(NaN)).toBe(false);
+  });
+});
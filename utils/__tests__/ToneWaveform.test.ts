@@ -0,0 +1,42 @@
+import { buildWavetable, isValidFrequency, sampleWavetable } from '../ToneWaveform';
+
+describe('ToneWaveform', () => {
+  const peak = (table: Float32Array) => Math.max(...Array.from(table, Math.abs));
+
+  it('should build waveforms scaled to a peak of 1', () => {
+    for (const waveform of ['sine', 'square', 'triangle', 'buzzer'] as const) {
+      expect(peak(buildWavetable(waveform, 600, 44100))).toBeCloseTo(1);
+    }
+  });
+
+  it('should build a pure sine', () => {
+    const table = buildWavetable('sine', 600, 44100);
+    expect(table[table.length / 4]).toBeCloseTo(1);
+    expect(table[table.length / 2]).toBeCloseTo(0);
+  });
+
+  it('should fill the square wave with harmonics up to Nyquist', () => {
+    const table = buildWavetable('square', 600, 44100);
+    // A square wave stays close to full level for most of its period
+    const nearPeak = Array.from(table).filter(value => Math.abs(value) > 0.8).length;
+    expect(nearPeak / table.length).toBeGreaterThan(0.8);
+  });
+
+  it('should fall back to a sine when no harmonic fits below Nyquist', () => {
+    const square = buildWavetable('square', 1200, 3000);
+    const sine = buildWavetable('sine', 1200, 3000);
+    expect(Array.from(square)).toEqual(Array.from(sine));
+  });
+
+  it('should read the table by phase', () => {
+    const table = buildWavetable('sine', 500, 44100);
+    expect(sampleWavetable(table, 500, 0.0005)).toBeCloseTo(1, 3);
+    expect(sampleWavetable(table, 500, 0.0015)).toBeCloseTo(-1, 3);
+  });
+
+  it('should accept pitches from 300 to 1200 Hz', () => {
+    expect(isValidFrequency(300)).toBe(true);
+    expect(isValidFrequency(1200)).toBe(true);
+    expect(isValidFrequency(250)).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+import { parseWav, pcmToSamples, readWavHeader } from '../WavReader';
+
+// Build a 16-bit PCM WAV file, optionally with an extra chunk before the audio
+const buildWav = (
+  samples: number[],
+  { channels = 1, sampleRate = 8000, bitsPerSample = 16, extraChunk = false } = {}
+): Uint8Array => {
+  const extra = extraChunk ? 8 + 5 + 1 : 0;
+  const bytes = new Uint8Array(44 + extra + samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  const writeTag = (offset: number, tag: string) =>
+    tag.split('').forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, bytes.length - 8, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, bitsPerSample, true);
+
+  let offset = 36;
+  if (extraChunk) {
+    // Odd-sized chunk, padded to an even length
+    writeTag(offset, 'LIST');
+    view.setUint32(offset + 4, 5, true);
+    offset += extra;
+  }
+  writeTag(offset, 'data');
+  view.setUint32(offset + 4, samples.length * 2, true);
+  samples.forEach((sample, i) => view.setInt16(offset + 8 + i * 2, sample, true));
+  return bytes;
+};
+
+describe('parseWav', () => {
+  it('should read mono samples and the sample rate', () => {
+    const audio = parseWav(buildWav([0, 16384, -32768]));
+    expect(audio.sampleRate).toBe(8000);
+    expect(audio.channels).toBe(1);
+    expect(Array.from(audio.samples)).toEqual([0, 0.5, -1]);
+  });
+
+  it('should mix stereo down to mono', () => {
+    const audio = parseWav(buildWav([16384, 0, -16384, -16384], { channels: 2 }));
+    expect(audio.channels).toBe(2);
+    expect(Array.from(audio.samples)).toEqual([0.25, -0.5]);
+  });
+
+  it('should skip chunks it does not need', () => {
+    const audio = parseWav(buildWav([8192, 8192], { extraChunk: true }));
+    expect(Array.from(audio.samples)).toEqual([0.25, 0.25]);
+  });
+
+  it('should reject files it cannot read', () => {
+    expect(() => parseWav(new Uint8Array(20))).toThrow('File is not a WAV file');
+    expect(() => parseWav(buildWav([0], { bitsPerSample: 8 }))).toThrow('Only 16-bit PCM WAV files are supported');
+  });
+});
+
+describe('readWavHeader', () => {
+  it('should find the samples of a file that is still being written', () => {
+    const bytes = buildWav([0, 0, 0, 0], { extraChunk: true });
+    const format = readWavHeader(bytes.subarray(0, 58));
+
+    expect(format).toEqual({ sampleRate: 8000, channels: 1, dataOffset: 58, dataSize: 8 });
+  });
+
+  it('should ask for more of the file until the data chunk arrives', () => {
+    expect(() => readWavHeader(buildWav([0]).subarray(0, 40))).toThrow('WAV file has no audio data');
+  });
+});
+
+describe('pcmToSamples', () => {
+  it('should ignore a partial frame at the end', () => {
+    const bytes = new Uint8Array([0x00, 0x40, 0x00, 0xc0, 0x00, 0x40, 0x00]);
+    expect(Array.from(pcmToSamples(bytes, 2))).toEqual([0]);
+    expect(Array.from(pcmToSamples(bytes, 1))).toEqual([0.5, -0.5, 0.5]);
+  });
+});